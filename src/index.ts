@@ -6,6 +6,9 @@ import express from 'express';
 import cors from 'cors';
 import { v4 as uuidv4 } from 'uuid';
 import { createClient } from '@supabase/supabase-js';
+import { Job, enqueueJob, registerJobHandler, startJobRunner, getProjectJobs, cancelProjectJobs } from './services/jobs.js';
+import { getProjectResults } from './services/media-repository.js';
+import { getStorageDriver, STORAGE_LOCAL_DIR } from './services/storage.js';
 
 const app = express();
 const PORT = process.env.PORT || 3002;
@@ -16,13 +19,13 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_KEY!
 );
 
-// Track active jobs for cancellation
-const activeJobs = new Map<string, { cancelled: boolean }>();
-
 // Middleware
 app.use(cors());
 app.use(express.json());
 
+// Serve media written by the local storage driver
+if (getStorageDriver().name === 'local') app.use('/storage', express.static(STORAGE_LOCAL_DIR));
+
 // Health check
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', service: 'mediamind-worker', version: '1.0.0' });
@@ -36,6 +39,85 @@ import { processNewsResearch } from './workers/news.worker.js';
 // Import search functions for testing
 import { searchAllMedia, searchWebForVideos, searchWebForImages, searchHistoricalNewspapers, searchWebForNews } from './services/web-search.js';
 
+// ============================================
+// BACKGROUND JOBS (durable queue, resumed on boot)
+// ============================================
+
+interface ResearchJobPayload {
+  projectId: string;
+  topic: string;
+  maxImages: number;
+  maxVideos: number;
+  maxNews: number;
+}
+
+interface SingleSearchJobPayload {
+  projectId: string;
+  topic: string;
+  maxResults: number;
+}
+
+// Legacy workers report fatal errors as { success: false } - surface them so the job is retried
+function assertWorkerSucceeded(name: string, result: { success: boolean; error?: string }) {
+  if (!result.success) throw new Error(`${name} research failed: ${result.error || 'unknown error'}`);
+}
+
+async function markProjectCompleted(projectId: string) {
+  await supabase.from('projects').update({
+    status: 'completed',
+    completed_at: new Date().toISOString(),
+  }).eq('id', projectId);
+}
+
+async function markProjectFailed(job: Job, error: string) {
+  await supabase.from('projects').update({
+    status: 'failed',
+    error_message: error,
+  }).eq('id', job.project_id);
+  console.error(`[Research] Failed: ${error}`);
+}
+
+registerJobHandler<ResearchJobPayload>('research:full', async (job, { signal }) => {
+  const { projectId, topic, maxImages, maxVideos, maxNews } = job.payload;
+
+  // The signal aborts when DELETE /v1/project/:id cancels the job
+  const [images, videos, news] = await Promise.all([
+    processImageResearch(projectId, topic, maxImages, signal),
+    processVideoResearch(projectId, topic, maxVideos, signal),
+    processNewsResearch(projectId, topic, maxNews, signal),
+  ]);
+
+  if (signal.aborted) {
+    console.log(`\n[Research] Cancelled: ${projectId}\n`);
+    return;
+  }
+
+  assertWorkerSucceeded('Image', images);
+  assertWorkerSucceeded('Video', videos);
+  assertWorkerSucceeded('News', news);
+
+  await markProjectCompleted(projectId);
+  console.log(`\n[Research] Completed: ${projectId}\n`);
+}, { onFailed: markProjectFailed });
+
+registerJobHandler<SingleSearchJobPayload>('research:videos', async (job, { signal }) => {
+  const { projectId, topic, maxResults } = job.payload;
+  assertWorkerSucceeded('Video', await processVideoResearch(projectId, topic, maxResults, signal));
+  if (!signal.aborted) await markProjectCompleted(projectId);
+}, { onFailed: markProjectFailed });
+
+registerJobHandler<SingleSearchJobPayload>('research:images', async (job, { signal }) => {
+  const { projectId, topic, maxResults } = job.payload;
+  assertWorkerSucceeded('Image', await processImageResearch(projectId, topic, maxResults, signal));
+  if (!signal.aborted) await markProjectCompleted(projectId);
+}, { onFailed: markProjectFailed });
+
+registerJobHandler<SingleSearchJobPayload>('research:news', async (job, { signal }) => {
+  const { projectId, topic, maxResults } = job.payload;
+  assertWorkerSucceeded('News', await processNewsResearch(projectId, topic, maxResults, signal));
+  if (!signal.aborted) await markProjectCompleted(projectId);
+}, { onFailed: markProjectFailed });
+
 // POST /v1/research - Full research
 app.post('/v1/research', async (req, res) => {
   const { topic, options = {} } = req.body;
@@ -62,45 +144,20 @@ app.post('/v1/research', async (req, res) => {
       started_at: new Date().toISOString(),
     });
 
-    // Register job for cancellation tracking
-    activeJobs.set(projectId, { cancelled: false });
+    // Queue all three searches as one durable job
+    const job = await enqueueJob<ResearchJobPayload>('research:full', {
+      projectId,
+      topic,
+      maxImages: options.max_images || 200,
+      maxVideos: options.max_videos || 100,
+      maxNews: options.max_news || 100,
+    }, { projectId });
 
     // Return immediately, process in background
     res.json({
       success: true,
       project: { id: projectId, slug, topic, status: 'processing' },
-    });
-
-    // Process all in parallel (background)
-    const maxImages = options.max_images || 200;
-    const maxVideos = options.max_videos || 100;
-    const maxNews = options.max_news || 100;
-
-    Promise.all([
-      processImageResearch(projectId, topic, maxImages),
-      processVideoResearch(projectId, topic, maxVideos),
-      processNewsResearch(projectId, topic, maxNews),
-    ]).then(async () => {
-      const job = activeJobs.get(projectId);
-      if (job?.cancelled) {
-        console.log(`\n[Research] Cancelled: ${projectId}\n`);
-        return;
-      }
-      await supabase.from('projects').update({
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-      }).eq('id', projectId);
-      console.log(`\n[Research] Completed: ${projectId}\n`);
-    }).catch(async (err) => {
-      const job = activeJobs.get(projectId);
-      if (job?.cancelled) return;
-      await supabase.from('projects').update({
-        status: 'failed',
-        error_message: err.message,
-      }).eq('id', projectId);
-      console.error(`[Research] Failed: ${err.message}`);
-    }).finally(() => {
-      activeJobs.delete(projectId);
+      job: { id: job.id, status: job.status },
     });
 
   } catch (error: any) {
@@ -113,10 +170,9 @@ app.post('/v1/research', async (req, res) => {
 app.delete('/v1/project/:id', async (req, res) => {
   const { id } = req.params;
 
-  // Mark job as cancelled
-  const job = activeJobs.get(id);
-  if (job) {
-    job.cancelled = true;
+  // Cancel queued/running jobs - running handlers see their signal abort
+  const jobsCancelled = await cancelProjectJobs(id).catch(() => 0);
+  if (jobsCancelled > 0) {
     console.log(`[Research] Cancelling job: ${id}`);
   }
 
@@ -126,53 +182,35 @@ app.delete('/v1/project/:id', async (req, res) => {
     error_message: 'Cancelled by user',
   }).eq('id', id);
 
-  res.json({ success: true, message: 'Research cancelled' });
+  res.json({ success: true, message: 'Research cancelled', jobsCancelled });
 });
 
-// POST /v1/videos - Videos only
-app.post('/v1/videos', async (req, res) => {
-  const { topic, max_results = 10 } = req.body;
+// Shared by the single-type endpoints below
+async function startSingleSearch(req: express.Request, res: express.Response, type: 'videos' | 'images' | 'news', slugPrefix: string, defaultMax: number) {
+  const { topic, max_results = defaultMax } = req.body;
   if (!topic) return res.status(400).json({ success: false, error: 'Topic required' });
 
-  const projectId = uuidv4();
-  await supabase.from('projects').insert({ id: projectId, topic, slug: `vid-${projectId.slice(0,8)}`, status: 'processing', started_at: new Date().toISOString() });
-
-  res.json({ success: true, project_id: projectId, status: 'processing' });
-
-  processVideoResearch(projectId, topic, max_results).then(() => {
-    supabase.from('projects').update({ status: 'completed', completed_at: new Date().toISOString() }).eq('id', projectId);
-  });
-});
+  try {
+    const projectId = uuidv4();
+    await supabase.from('projects').insert({ id: projectId, topic, slug: `${slugPrefix}-${projectId.slice(0,8)}`, status: 'processing', started_at: new Date().toISOString() });
 
-// POST /v1/images - Images only
-app.post('/v1/images', async (req, res) => {
-  const { topic, max_results = 30 } = req.body;
-  if (!topic) return res.status(400).json({ success: false, error: 'Topic required' });
+    const job = await enqueueJob<SingleSearchJobPayload>(`research:${type}`, { projectId, topic, maxResults: max_results }, { projectId });
 
-  const projectId = uuidv4();
-  await supabase.from('projects').insert({ id: projectId, topic, slug: `img-${projectId.slice(0,8)}`, status: 'processing', started_at: new Date().toISOString() });
+    res.json({ success: true, project_id: projectId, job_id: job.id, status: 'processing' });
+  } catch (error: any) {
+    console.error(`[Research] Error:`, error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+}
 
-  res.json({ success: true, project_id: projectId, status: 'processing' });
+// POST /v1/videos - Videos only
+app.post('/v1/videos', (req, res) => startSingleSearch(req, res, 'videos', 'vid', 10));
 
-  processImageResearch(projectId, topic, max_results).then(() => {
-    supabase.from('projects').update({ status: 'completed', completed_at: new Date().toISOString() }).eq('id', projectId);
-  });
-});
+// POST /v1/images - Images only
+app.post('/v1/images', (req, res) => startSingleSearch(req, res, 'images', 'img', 30));
 
 // POST /v1/news - News only
-app.post('/v1/news', async (req, res) => {
-  const { topic, max_results = 15 } = req.body;
-  if (!topic) return res.status(400).json({ success: false, error: 'Topic required' });
-
-  const projectId = uuidv4();
-  await supabase.from('projects').insert({ id: projectId, topic, slug: `news-${projectId.slice(0,8)}`, status: 'processing', started_at: new Date().toISOString() });
-
-  res.json({ success: true, project_id: projectId, status: 'processing' });
-
-  processNewsResearch(projectId, topic, max_results).then(() => {
-    supabase.from('projects').update({ status: 'completed', completed_at: new Date().toISOString() }).eq('id', projectId);
-  });
-});
+app.post('/v1/news', (req, res) => startSingleSearch(req, res, 'news', 'news', 15));
 
 // GET /v1/project/:id
 app.get('/v1/project/:id', async (req, res) => {
@@ -181,19 +219,17 @@ app.get('/v1/project/:id', async (req, res) => {
   const { data: project } = await supabase.from('projects').select('*').eq('id', id).single();
   if (!project) return res.status(404).json({ success: false, error: 'Not found' });
 
-  const { data: media } = await supabase.from('media').select('*').eq('project_id', id);
-  const { data: clips } = await supabase.from('clips').select('*').eq('project_id', id);
+  const results = await getProjectResults(id);
+  const jobs = await getProjectJobs(id).catch(() => []);
 
   res.json({
     success: true,
     project,
+    jobs: jobs.map(j => ({ id: j.id, type: j.type, status: j.status, attempts: j.attempts, last_error: j.last_error })),
     results: {
-      images: media?.filter(m => m.type === 'image') || [],
-      videos: (media?.filter(m => m.type === 'video') || []).map(v => ({
-        ...v,
-        clips: clips?.filter(c => c.media_id === v.id) || [],
-      })),
-      news: media?.filter(m => ['newspaper_scan', 'article_screenshot'].includes(m.type)) || [],
+      images: results.images,
+      videos: results.videos,
+      news: results.webContent,
     },
   });
 });
@@ -273,4 +309,6 @@ app.listen(PORT, () => {
   console.log(`  MediaMind Worker v1.0.0`);
   console.log(`  Port: ${PORT}`);
   console.log(`========================================\n`);
+
+  startJobRunner();
 });
@@ -7,13 +7,29 @@ import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
 import Anthropic from '@anthropic-ai/sdk';
-import { checkQwenHealth, checkWhisperHealth } from './services/modal.js';
+import { getProvidersHealth } from './services/providers.js';
+import { Job, JobContext, enqueueJob, registerJobHandler, startJobRunner, getProjectJobs, cancelProjectJobs } from './services/jobs.js';
+import { publishProjectEvent, emitProjectEvent, getProjectEventHistory, subscribeProjectEvents, TERMINAL_PHASES } from './services/project-events.js';
+import { getStorageDriver, STORAGE_LOCAL_DIR } from './services/storage.js';
+import { getProjectResults, getTranscript, SaveReport, emptySaveReport, mergeSaveReports } from './services/media-repository.js';
+import { toSrt, toWebVtt } from './utils/subtitles.js';
+import { notifyProjectWebhook, getProjectWebhookDeliveries, validateCallbackUrl } from './services/webhooks.js';
+import type { ProjectEvent } from './utils/progress.js';
+import type { Project } from './types/models.js';
+import { ResearchOptions, ResearchWorker, parseResearchOptions, workerSearchOptions } from './utils/research-options.js';
+import { getSources, getSource, isConfigSource, validateSourceFields, sourceId, refreshSourceOverrides, SOURCE_WORKERS, NICHE_CATEGORY } from './services/source-registry.js';
+import { getSourceStore } from './services/source-store.js';
+import type { SourceOverride } from './services/source-store.js';
+import { getSourceStats } from './services/source-stats.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 app.use(express.json());
 
+// Serve media written by the local storage driver (offline dev / self-hosting)
+if (getStorageDriver().name === 'local') app.use('/storage', express.static(STORAGE_LOCAL_DIR));
+
 // Initialize clients with error handling
 let supabase: any = null;
 let anthropic: any = null;
@@ -44,6 +60,97 @@ const WORKERS = {
   ffmpeg: process.env.FFMPEG_WORKER_URL || 'http://localhost:3004',
 };
 
+// How long workers get to return partial results after a cancel before we drop the requests
+const CANCEL_GRACE_MS = parseInt(process.env.CANCEL_GRACE_MS || '30000');
+
+// SSE comment sent periodically so proxies don't close idle streams
+const SSE_HEARTBEAT_MS = 15000;
+
+// ============================================
+// CANCELLATION FAN-OUT
+// ============================================
+
+async function cancelWorkers(projectId: string): Promise<Record<string, string>> {
+  const status: Record<string, string> = {};
+
+  await Promise.all(Object.entries(WORKERS).map(async ([name, url]) => {
+    try {
+      const response = await axios.post(`${url}/cancel`, { projectId }, { timeout: 5000 });
+      status[name] = response.data?.cancelled ? 'cancelled' : 'idle';
+    } catch (e: any) {
+      console.log(`[Orchestrator] Cancel ${name} worker failed: ${e.message}`);
+      status[name] = 'unreachable';
+    }
+  }));
+
+  return status;
+}
+
+// ============================================
+// WORKER CALLS
+// ============================================
+
+type WorkerName = keyof typeof WORKERS;
+type WorkerStatus = 'ok' | 'failed' | 'timed_out' | 'skipped' | 'cancelled';
+
+// Persisted per worker on projects.worker_results
+interface WorkerOutcome {
+  worker: WorkerName;
+  status: WorkerStatus;
+  count: number;
+  error: string | null;
+  duration_ms: number;
+  breakdown: Record<string, number> | null;
+  save_report: SaveReport | null;     // rows inserted / duplicates / failed when saving
+}
+
+function skippedOutcome(worker: WorkerName, reason: string): WorkerOutcome {
+  return { worker, status: 'skipped', count: 0, error: reason, duration_ms: 0, breakdown: null, save_report: null };
+}
+
+// Never throws - every failure mode becomes a WorkerOutcome
+async function callWorker(
+  projectId: string,
+  worker: WorkerName,
+  body: Record<string, any>,
+  timeout: number,
+  signal: AbortSignal
+): Promise<WorkerOutcome> {
+  const startedAt = Date.now();
+  let outcome: WorkerOutcome;
+
+  try {
+    const { data } = await axios.post(`${WORKERS[worker]}/search`, body, { timeout, signal });
+    outcome = {
+      worker,
+      status: data?.cancelled ? 'cancelled' : 'ok',
+      count: data?.count || 0,
+      error: null,
+      duration_ms: Date.now() - startedAt,
+      breakdown: data?.breakdown || null,
+      save_report: data?.saveReport || null,
+    };
+  } catch (e: any) {
+    let status: WorkerStatus = 'failed';
+    if (axios.isCancel(e) || signal.aborted) status = 'cancelled';
+    else if (e.code === 'ECONNABORTED' || e.code === 'ETIMEDOUT') status = 'timed_out';
+
+    console.log(`[Orchestrator] ${worker} worker ${status}: ${e.message}`);
+    outcome = {
+      worker,
+      status,
+      count: 0,
+      error: e.response?.data?.error || e.message,
+      duration_ms: Date.now() - startedAt,
+      breakdown: null,
+      save_report: null,
+    };
+  }
+
+  emitProjectEvent(projectId, 'worker_finished', outcome);
+  return outcome;
+}
+
 // ============================================
 // CLAUDE QUERY GENERATOR
 // ============================================
@@ -118,17 +225,199 @@ Return ONLY valid JSON.`
   };
 }
 
+// ============================================
+// RESEARCH JOB (runs on the durable job queue)
+// ============================================
+
+// Final SSE event plus the project's webhook callback (if one was registered)
+async function finishProject(
+  projectId: string,
+  status: 'completed' | 'partial' | 'failed' | 'cancelled',
+  data: Record<string, any>
+): Promise<void> {
+  emitProjectEvent(projectId, `project_${status}`, data);
+  await notifyProjectWebhook(projectId, `project.${status}`);
+}
+
+interface ResearchJobPayload {
+  projectId: string;
+  topic: string;
+  options: ResearchOptions;
+}
+
+async function runResearchJob(job: Job<ResearchJobPayload>, { signal }: JobContext): Promise<void> {
+  const { projectId, topic } = job.payload;
+  // Re-parse so jobs queued before options were validated still get defaults
+  const { options } = parseResearchOptions(job.payload.options);
+
+  emitProjectEvent(projectId, 'job_started', { jobId: job.id, attempt: job.attempts });
+
+  // Step 1: Generate smart search queries using Claude
+  emitProjectEvent(projectId, 'queries_generating', { topic });
+  const queries = await generateSearchQueries(topic);
+  emitProjectEvent(projectId, 'queries_generated', {
+    topicType: queries.topicType,
+    videoQueries: queries.videoQueries,
+    imageQueries: queries.imageQueries,
+  });
+
+  if (signal.aborted) {
+    console.log(`[Orchestrator] Research cancelled before workers started: ${projectId}`);
+    await supabase.from('projects').update({
+      worker_results: {
+        video: skippedOutcome('video', 'Cancelled before workers started'),
+        image: skippedOutcome('image', 'Cancelled before workers started'),
+        webcontent: skippedOutcome('webcontent', 'Cancelled before workers started'),
+      },
+    }).eq('id', projectId);
+    await finishProject(projectId, 'cancelled', { partial: false });
+    return;
+  }
+
+  // Workers stop on POST /cancel and answer with partial results; only drop
+  // the HTTP calls if they have not answered within the grace period
+  const workerController = new AbortController();
+  signal.addEventListener('abort', () => {
+    setTimeout(() => workerController.abort(), CANCEL_GRACE_MS).unref();
+  }, { once: true });
+
+  // Step 2: Call all workers in PARALLEL
+  const limits: Record<ResearchWorker, number> = {
+    video: options.maxVideos,
+    image: options.maxImages,
+    webcontent: options.maxWebContent,
+  };
+
+  // Workers left out of options.workers (or with a limit of 0) are skipped
+  const runWorker = (worker: ResearchWorker, body: Record<string, any>, timeout: number) =>
+    options.workers.includes(worker) && limits[worker] > 0
+      ? callWorker(projectId, worker, { ...body, options: workerSearchOptions(options, limits[worker]) }, timeout, workerController.signal)
+      : Promise.resolve(skippedOutcome(worker, 'Not requested in options'));
+
+  console.log(`[Orchestrator] Starting workers in parallel: ${options.workers.join(', ')}`);
+  emitProjectEvent(projectId, 'workers_started', { workers: options.workers });
+
+  const [video, image, webcontent] = await Promise.all([
+    // Video Worker - uses sentence-based queries
+    runWorker('video', {
+      projectId,
+      topic,
+      queries: queries.videoQueries, // Sentence queries like "2008 financial crisis documentary"
+    }, 300000),
+
+    // Image Worker - uses sentence-based queries
+    runWorker('image', {
+      projectId,
+      topic,
+      queries: queries.imageQueries, // Sentence queries like "2008 recession historical photos"
+      minRelevance: options.minImageRelevance,
+    }, 600000), // longer: images are downloaded and rehosted, not just found
+
+    // Web Content Worker - Tavily handles topic directly (AI-optimized)
+    runWorker('webcontent', {
+      projectId,
+      topic, // Tavily searches this directly - no query expansion needed
+      topicType: queries.topicType,
+      takeScreenshots: options.screenshots,
+    }, 600000),
+  ]);
+
+  const workerResults = { video, image, webcontent };
+  const outcomes = Object.values(workerResults);
+  const totals = {
+    video_count: video.count,
+    image_count: image.count,
+    news_count: webcontent.count,
+    save_report: outcomes.reduce(
+      (total, o) => o.save_report ? mergeSaveReports(total, o.save_report) : total,
+      emptySaveReport()
+    ),
+  };
+
+  console.log(`\n========================================`);
+  console.log(`[Orchestrator] RESULTS SUMMARY`);
+  console.log(`  Videos: ${video.count} (${video.status})`);
+  console.log(`  Images: ${image.count} (${image.status})`);
+  console.log(`  Web Content: ${webcontent.count} (${webcontent.status})`);
+  console.log(`========================================\n`);
+
+  // Cancelled mid-run: keep the partial counts, status stays `cancelled`
+  if (signal.aborted) {
+    await supabase.from('projects').update({
+      status: 'cancelled',
+      error_message: 'Cancelled by user (partial results)',
+      worker_results: workerResults,
+      ...totals,
+    }).eq('id', projectId);
+    console.log(`[Orchestrator] Research cancelled with partial results: ${projectId}`);
+    await finishProject(projectId, 'cancelled', { partial: true, workers: workerResults });
+    return;
+  }
+
+  const attempted = outcomes.filter(o => o.status !== 'skipped');
+  const failed = attempted.filter(o => o.status === 'failed' || o.status === 'timed_out');
+  const failureSummary = failed.map(o => `${o.worker}: ${o.error}`).join('; ');
+
+  // Nothing came back at all - let the job queue retry the whole run
+  if (attempted.length > 0 && failed.length === attempted.length) {
+    await supabase.from('projects').update({ worker_results: workerResults }).eq('id', projectId);
+    throw new Error(`All workers failed (${failureSummary})`);
+  }
+
+  // Some workers failed: keep what the others found, but flag the project
+  const status = failed.length > 0 ? 'partial' : 'completed';
+
+  const { error } = await supabase.from('projects').update({
+    status,
+    completed_at: new Date().toISOString(),
+    error_message: failed.length > 0 ? failureSummary : null,
+    worker_results: workerResults,
+    ...totals,
+  }).eq('id', projectId);
+
+  if (error) throw new Error(`Failed to update project: ${error.message}`);
+
+  console.log(`[Orchestrator] Research ${status}: ${projectId}`);
+  await finishProject(projectId, status, { workers: workerResults });
+}
+
+registerJobHandler<ResearchJobPayload>('research', runResearchJob, {
+  // Called once all attempts are used up (or the last lease expired)
+  onFailed: async (job, error) => {
+    console.error(`[Orchestrator] Research failed for ${job.payload.projectId}: ${error}`);
+    await supabase.from('projects').update({
+      status: 'failed',
+      error_message: error,
+    }).eq('id', job.payload.projectId);
+    await finishProject(job.payload.projectId, 'failed', { error });
+  },
+});
+
 // ============================================
 // MAIN RESEARCH ENDPOINT
 // ============================================
 
 app.post('/v1/research', async (req, res) => {
-  const { topic, options = {} } = req.body;
+  const { topic, callbackUrl, callbackSecret } = req.body;
 
   if (!topic) {
     return res.status(400).json({ success: false, error: 'Topic is required' });
   }
 
+  const { options, errors } = parseResearchOptions(req.body.options);
+  if (errors.length > 0) {
+    return res.status(400).json({ success: false, error: 'Invalid options', details: errors });
+  }
+
+  if (callbackUrl !== undefined) {
+    const callbackError = await validateCallbackUrl(callbackUrl);
+    if (callbackError) return res.status(400).json({ success: false, error: callbackError });
+  }
+
+  if (callbackSecret !== undefined && typeof callbackSecret !== 'string') {
+    return res.status(400).json({ success: false, error: 'callbackSecret must be a string' });
+  }
+
   const projectId = uuidv4();
   const slug = `${topic.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 50)}-${projectId.slice(0, 8)}`;
 
@@ -148,7 +437,9 @@ app.post('/v1/research', async (req, res) => {
       slug,
       status: 'processing',
       started_at: new Date().toISOString(),
-    }).select();
+      callback_url: callbackUrl || null,
+      callback_secret: callbackSecret || null,
+    }).select('id, topic, slug, status, started_at, callback_url');
 
     if (insertError) {
       console.error(`[Orchestrator] Supabase INSERT ERROR: ${JSON.stringify(insertError)}`);
@@ -157,83 +448,17 @@ app.post('/v1/research', async (req, res) => {
 
     console.log(`[Orchestrator] Project created successfully: ${JSON.stringify(insertData)}`);
 
+    // Queue the research run; the job runner picks it up (and resumes it after a restart)
+    const job = await enqueueJob<ResearchJobPayload>('research', { projectId, topic, options }, { projectId });
+
     // Return immediately, process in background
     res.json({
       success: true,
       project: { id: projectId, slug, topic, status: 'processing' },
+      options,
+      job: { id: job.id, status: job.status },
     });
 
-    // Background processing
-    (async () => {
-      try {
-        // Step 1: Generate smart search queries using Claude
-        const queries = await generateSearchQueries(topic);
-
-        // Step 2: Call all workers in PARALLEL
-        console.log(`[Orchestrator] Starting all 4 workers in parallel...`);
-
-        const workerPromises = [
-          // Video Worker - uses sentence-based queries
-          axios.post(`${WORKERS.video}/search`, {
-            projectId,
-            topic,
-            queries: queries.videoQueries, // Sentence queries like "2008 financial crisis documentary"
-          }, { timeout: 300000 }).catch(e => {
-            console.log(`[Orchestrator] Video worker error: ${e.message}`);
-            return { data: { count: 0 } };
-          }),
-
-          // Image Worker - uses sentence-based queries
-          axios.post(`${WORKERS.image}/search`, {
-            projectId,
-            topic,
-            queries: queries.imageQueries, // Sentence queries like "2008 recession historical photos"
-          }, { timeout: 300000 }).catch(e => {
-            console.log(`[Orchestrator] Image worker error: ${e.message}`);
-            return { data: { count: 0 } };
-          }),
-
-          // Web Content Worker - Tavily handles topic directly (AI-optimized)
-          axios.post(`${WORKERS.webcontent}/search`, {
-            projectId,
-            topic, // Tavily searches this directly - no query expansion needed
-            topicType: queries.topicType,
-            takeScreenshots: true,
-          }, { timeout: 600000 }).catch(e => {
-            console.log(`[Orchestrator] WebContent worker error: ${e.message}`);
-            return { data: { count: 0 } };
-          }),
-        ];
-
-        const [videoResult, imageResult, webResult] = await Promise.all(workerPromises);
-
-        console.log(`\n========================================`);
-        console.log(`[Orchestrator] RESULTS SUMMARY`);
-        console.log(`  Videos: ${videoResult.data?.count || 0}`);
-        console.log(`  Images: ${imageResult.data?.count || 0}`);
-        console.log(`  Web Content: ${webResult.data?.count || 0}`);
-        console.log(`========================================\n`);
-
-        // Update project status
-        await supabase.from('projects').update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          video_count: videoResult.data?.count || 0,
-          image_count: imageResult.data?.count || 0,
-          news_count: webResult.data?.count || 0,
-        }).eq('id', projectId);
-
-        console.log(`[Orchestrator] Research completed: ${projectId}`);
-
-      } catch (error: any) {
-        console.error(`[Orchestrator] Background processing error: ${error.message}`);
-        await supabase.from('projects').update({
-          status: 'failed',
-          error_message: error.message,
-        }).eq('id', projectId);
-      }
-    })();
-
   } catch (error: any) {
     console.error(`[Orchestrator] Error:`, error);
     res.status(500).json({ success: false, error: error.message });
@@ -245,23 +470,115 @@ app.post('/v1/research', async (req, res) => {
 // ============================================
 
 app.post('/v1/process-video', async (req, res) => {
-  const { projectId, mediaId, videoUrl, clips } = req.body;
+  const { projectId, mediaId, videoUrl, clips, auto, maxClips, sidecarSubtitles, burnSubtitles, subtitleStyle } = req.body;
+  let { topic } = req.body;
 
   if (!videoUrl) {
     return res.status(400).json({ error: 'videoUrl required' });
   }
 
   try {
+    // Relevance selection scores against the project topic unless one is given
+    if (auto === 'relevant' && !topic && projectId) {
+      const { data: project } = await supabase.from('projects').select('topic').eq('id', projectId).single();
+      topic = project?.topic;
+    }
+
     const result = await axios.post(`${WORKERS.ffmpeg}/process`, {
       projectId,
       mediaId,
       videoUrl,
       clips,
+      auto,
+      topic,
+      maxClips,
+      sidecarSubtitles,
+      burnSubtitles,
+      subtitleStyle,
     }, { timeout: 600000 });
 
     res.json(result.data);
   } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    // Pass worker validation errors (e.g. missing topic) through as-is
+    res.status(error.response?.status || 500).json({ error: error.response?.data?.error || error.message });
+  }
+});
+
+// ============================================
+// VIDEO DUPLICATES
+// ============================================
+
+interface VideoDedupJobPayload {
+  projectId: string;
+  force: boolean;
+}
+
+// Fingerprinting downloads every video, so it runs as a job rather than inside the request
+async function runVideoDedupJob(job: Job<VideoDedupJobPayload>, { signal }: JobContext): Promise<void> {
+  const { projectId, force } = job.payload;
+  emitProjectEvent(projectId, 'video_dedup_started', { jobId: job.id, attempt: job.attempts });
+
+  const { data } = await axios.post(`${WORKERS.ffmpeg}/fingerprint`, { projectId, force }, { timeout: 3600000, signal });
+  if (data?.cancelled) return;
+
+  emitProjectEvent(projectId, 'video_dedup_done', {
+    fingerprinted: data.fingerprinted,
+    failed: data.failed,
+    groups: data.groups,
+  });
+}
+
+registerJobHandler<VideoDedupJobPayload>('video-dedup', runVideoDedupJob);
+
+// Queue a duplicate-footage pass; results land in each video's metadata.duplicate_of
+app.post('/v1/project/:id/video-duplicates', async (req, res) => {
+  const { id } = req.params;
+  const { force = false } = req.body || {};
+
+  const { data: project } = await supabase.from('projects').select('id').eq('id', id).single();
+  if (!project) return res.status(404).json({ success: false, error: 'Not found' });
+
+  try {
+    const job = await enqueueJob<VideoDedupJobPayload>('video-dedup', { projectId: id, force: force === true }, { projectId: id });
+    res.json({ success: true, job: { id: job.id, status: job.status } });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ============================================
+// CANCEL RESEARCH
+// ============================================
+
+app.delete('/v1/project/:id', async (req, res) => {
+  const { id } = req.params;
+
+  const { data: project } = await supabase.from('projects').select('id, status').eq('id', id).single();
+  if (!project) return res.status(404).json({ success: false, error: 'Not found' });
+
+  console.log(`[Orchestrator] Cancelling research: ${id}`);
+
+  try {
+    // A running job reports its own partial results when it winds down
+    const jobRunning = (await getProjectJobs(id).catch(() => [])).some(j => j.status === 'running');
+
+    // Stop queued/running jobs, then tell every worker to abort in-flight work
+    const jobsCancelled = await cancelProjectJobs(id);
+    const workers = await cancelWorkers(id);
+    emitProjectEvent(id, 'cancel_requested', { workers });
+
+    if (['processing', 'queued'].includes(project.status)) {
+      await supabase.from('projects').update({
+        status: 'cancelled',
+        error_message: 'Cancelled by user',
+      }).eq('id', id);
+      if (!jobRunning) await finishProject(id, 'cancelled', { partial: false });
+    }
+
+    res.json({ success: true, message: 'Research cancelled', jobsCancelled, workers });
+  } catch (error: any) {
+    console.error(`[Orchestrator] Cancel error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
   }
 });
 
@@ -272,26 +589,443 @@ app.post('/v1/process-video', async (req, res) => {
 app.get('/v1/project/:id', async (req, res) => {
   const { id } = req.params;
 
-  const { data: project } = await supabase.from('projects').select('*').eq('id', id).single();
+  const { data: project } = await supabase.from('projects').select('*').eq('id', id).single() as { data: Project | null };
   if (!project) return res.status(404).json({ success: false, error: 'Not found' });
 
-  const { data: media } = await supabase.from('media').select('*').eq('project_id', id);
-  const { data: clips } = await supabase.from('clips').select('*').eq('project_id', id);
+  const results = await getProjectResults(id);
+  const jobs = await getProjectJobs(id).catch(() => []);
+
+  // Never hand the webhook secret back out
+  const { callback_secret, ...publicProject } = project;
 
   res.json({
     success: true,
-    project,
-    results: {
-      images: media?.filter((m: any) => m.type === 'image') || [],
-      videos: (media?.filter((m: any) => m.type === 'video') || []).map((v: any) => ({
-        ...v,
-        clips: clips?.filter((c: any) => c.media_id === v.id) || [],
-      })),
-      webContent: media?.filter((m: any) => ['newspaper_scan', 'article_screenshot'].includes(m.type)) || [],
-    },
+    project: { ...publicProject, callback_signed: !!callback_secret },
+    jobs: jobs.map(j => ({
+      id: j.id,
+      type: j.type,
+      status: j.status,
+      attempts: j.attempts,
+      max_attempts: j.max_attempts,
+      last_error: j.last_error,
+      created_at: j.created_at,
+      completed_at: j.completed_at,
+    })),
+    results,
+  });
+});
+
+// ============================================
+// WEBHOOK DELIVERY LOG
+// ============================================
+
+app.get('/v1/project/:id/webhooks', async (req, res) => {
+  const { id } = req.params;
+
+  const { data: project } = await supabase.from('projects').select('id, callback_url').eq('id', id).single();
+  if (!project) return res.status(404).json({ success: false, error: 'Not found' });
+
+  try {
+    const deliveries = await getProjectWebhookDeliveries(id);
+    res.json({ success: true, callbackUrl: project.callback_url, deliveries });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ============================================
+// TRANSCRIPTS
+// ============================================
+
+// ?format=json (default) | srt | vtt - ?q= filters JSON segments by text
+app.get('/v1/media/:id/transcript', async (req, res) => {
+  const { id } = req.params;
+  const format = String(req.query.format || 'json');
+
+  if (!['json', 'srt', 'vtt'].includes(format)) {
+    return res.status(400).json({ success: false, error: 'format must be json, srt or vtt' });
+  }
+
+  try {
+    const transcript = await getTranscript(id);
+    if (!transcript) return res.status(404).json({ success: false, error: 'No transcript for this media' });
+
+    if (format === 'srt') {
+      res.setHeader('Content-Disposition', `inline; filename="${id}.srt"`);
+      return res.type('application/x-subrip').send(toSrt(transcript.segments));
+    }
+    if (format === 'vtt') {
+      res.setHeader('Content-Disposition', `inline; filename="${id}.vtt"`);
+      return res.type('text/vtt').send(toWebVtt(transcript.segments, transcript.language));
+    }
+
+    const query = typeof req.query.q === 'string' ? req.query.q.trim().toLowerCase() : '';
+    const segments = query
+      ? transcript.segments.filter(seg => seg.text.toLowerCase().includes(query))
+      : transcript.segments;
+
+    res.json({
+      success: true,
+      transcript: { ...transcript, segments },
+      ...(query ? { query, matches: segments.length } : {}),
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Transcribe (or re-transcribe with force: true) a collected video
+app.post('/v1/media/:id/transcript', async (req, res) => {
+  const { id } = req.params;
+  const { force = false } = req.body || {};
+
+  try {
+    const result = await axios.post(`${WORKERS.ffmpeg}/transcribe`, { mediaId: id, force }, { timeout: 3600000 });
+    res.json(result.data);
+  } catch (error: any) {
+    res.status(error.response?.status || 500).json({ success: false, error: error.response?.data?.error || error.message });
+  }
+});
+
+// ============================================
+// SOURCE CATALOG (admin)
+// ============================================
+
+// Fields /v1/sources accepts - same names as in sources.json
+const SOURCE_FIELDS = [
+  'name', 'site', 'searchPattern', 'type', 'priority', 'license', 'enabled',
+  'queryTemplates', 'maxQueries', 'maxResults', 'blacklist', 'pageType', 'excludeDomains',
+];
+const SOURCE_CATEGORY_PATTERN = /^[a-z0-9_]+$/;
+const SOURCE_TEST_TIMEOUT_MS = parseInt(process.env.SOURCE_TEST_TIMEOUT_MS || '120000');
+const SOURCE_STATS_MAX_DAYS = 90;
+
+// With ADMIN_API_KEY set, catalog changes need it as X-Admin-Key or a Bearer token
+app.use('/v1/sources', (req, res, next) => {
+  const key = process.env.ADMIN_API_KEY;
+  if (!key) return next();
+
+  const given = req.get('x-admin-key') || req.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (given !== key) return res.status(401).json({ success: false, error: 'Admin key required' });
+  next();
+});
+
+function pickSourceFields(body: any): { fields: Record<string, any>; errors: string[] } {
+  const fields: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(body || {})) {
+    if (['worker', 'category', 'topicType'].includes(key)) continue;
+    if (!SOURCE_FIELDS.includes(key)) errors.push(`Unknown field "${key}"`);
+    else fields[key] = value;
+  }
+  return { fields, errors };
+}
+
+// Workers reload their catalog now instead of at their next poll
+async function reloadWorkerSources(): Promise<Record<string, string>> {
+  const status: Record<string, string> = {};
+
+  await Promise.all(SOURCE_WORKERS.map(async (name) => {
+    try {
+      await axios.post(`${WORKERS[name]}/sources/reload`, {}, { timeout: 5000 });
+      status[name] = 'reloaded';
+    } catch (e: any) {
+      console.log(`[Orchestrator] Source reload on ${name} worker failed: ${e.message}`);
+      status[name] = 'unreachable';
+    }
+  }));
+
+  return status;
+}
+
+// Store the change, then reload here and on the workers
+async function saveSourceOverride(override: Omit<SourceOverride, 'created_at' | 'updated_at'>, existing?: SourceOverride) {
+  const now = new Date().toISOString();
+  await getSourceStore().upsert({ ...override, created_at: existing?.created_at || now, updated_at: now });
+  await refreshSourceOverrides();
+  return reloadWorkerSources();
+}
+
+async function findSourceOverride(id: string): Promise<SourceOverride | undefined> {
+  return (await getSourceStore().list()).find(o => o.id === id);
+}
+
+// ?worker= &category= &enabled=true|false
+app.get('/v1/sources', (req, res) => {
+  const { worker, category, enabled } = req.query;
+
+  if (worker !== undefined && !SOURCE_WORKERS.includes(worker as ResearchWorker)) {
+    return res.status(400).json({ success: false, error: `worker must be one of: ${SOURCE_WORKERS.join(', ')}` });
+  }
+
+  try {
+    const sources = getSources(worker as ResearchWorker | undefined)
+      .filter(s => category === undefined || s.category === category)
+      .filter(s => enabled === undefined || s.enabled === (enabled === 'true'));
+    res.json({ success: true, count: sources.length, sources });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Rolling per-source yield over the last ?days= (default 7, max 90), least
+// productive first. Sources without runs are listed too - never searched in the
+// window usually means disabled or filtered out by topic type.
+app.get('/v1/sources/stats', async (req, res) => {
+  const days = req.query.days === undefined ? 7 : Number(req.query.days);
+  const worker = req.query.worker as ResearchWorker | undefined;
+
+  if (!Number.isFinite(days) || days <= 0 || days > SOURCE_STATS_MAX_DAYS) {
+    return res.status(400).json({ success: false, error: `days must be greater than 0 and at most ${SOURCE_STATS_MAX_DAYS}` });
+  }
+  if (worker !== undefined && !SOURCE_WORKERS.includes(worker)) {
+    return res.status(400).json({ success: false, error: `worker must be one of: ${SOURCE_WORKERS.join(', ')}` });
+  }
+
+  try {
+    const stats = await getSourceStats(days, worker);
+    const byId = new Map(stats.map(s => [s.source_id, s]));
+
+    const rows: any[] = getSources(worker).map(source => ({
+      ...(byId.get(source.id) || { source_id: source.id, worker: source.worker, runs: 0 }),
+      name: source.name,
+      category: source.category,
+      enabled: source.enabled,
+      priority: source.priority,
+    }));
+
+    // Runs recorded for sources that have since been deleted
+    for (const stat of stats) {
+      if (!getSource(stat.source_id)) rows.push({ ...stat, name: null, category: null, enabled: false, priority: null });
+    }
+
+    rows.sort((a, b) =>
+      (b.runs > 0 ? 1 : 0) - (a.runs > 0 ? 1 : 0)
+      || (a.kept_per_query ?? 0) - (b.kept_per_query ?? 0)
+      || (b.error_rate ?? 0) - (a.error_rate ?? 0)
+    );
+
+    res.json({
+      success: true,
+      days,
+      since: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
+      count: rows.length,
+      sources: rows,
+    });
+  } catch (error: any) {
+    console.error(`[Sources] Stats failed: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/v1/sources/:id', (req, res) => {
+  const source = getSource(req.params.id);
+  if (!source) return res.status(404).json({ success: false, error: 'Not found' });
+  res.json({ success: true, source });
+});
+
+// Add a source. Re-adding a deleted sources.json entry restores it.
+app.post('/v1/sources', async (req, res) => {
+  const { worker, category, topicType = null } = req.body || {};
+
+  if (!SOURCE_WORKERS.includes(worker)) {
+    return res.status(400).json({ success: false, error: `worker must be one of: ${SOURCE_WORKERS.join(', ')}` });
+  }
+  if (typeof category !== 'string' || !SOURCE_CATEGORY_PATTERN.test(category)) {
+    return res.status(400).json({ success: false, error: 'category must be lowercase letters, digits and underscores' });
+  }
+  if ((category === NICHE_CATEGORY) !== (typeof topicType === 'string' && topicType.length > 0)) {
+    return res.status(400).json({ success: false, error: `topicType is required for ${NICHE_CATEGORY} sources, and only for them` });
+  }
+
+  const { fields, errors } = pickSourceFields(req.body);
+  if (errors.length > 0) return res.status(400).json({ success: false, error: 'Invalid source', details: errors });
+
+  try {
+    const candidate = validateSourceFields(worker, category, topicType, fields);
+    const id = sourceId(worker, candidate.name, topicType);
+    if (getSource(id)) return res.status(409).json({ success: false, error: `Source ${id} already exists` });
+
+    const existing = await findSourceOverride(id);
+    const workers = await saveSourceOverride({ id, worker, category, topic_type: topicType, fields, deleted: false }, existing);
+
+    console.log(`[Orchestrator] Source ${isConfigSource(id) ? 'restored' : 'added'}: ${id}`);
+    res.status(201).json({ success: true, source: getSource(id), workers });
+  } catch (error: any) {
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
+// Change any of SOURCE_FIELDS, e.g. { "enabled": false } or { "priority": 2 }
+app.patch('/v1/sources/:id', async (req, res) => {
+  const source = getSource(req.params.id);
+  if (!source) return res.status(404).json({ success: false, error: 'Not found' });
+
+  const { fields, errors } = pickSourceFields(req.body);
+  if (errors.length > 0) return res.status(400).json({ success: false, error: 'Invalid source', details: errors });
+  if (Object.keys(fields).length === 0) return res.status(400).json({ success: false, error: 'Nothing to change' });
+
+  try {
+    const current = Object.fromEntries(SOURCE_FIELDS.map(key => [key, (source as any)[key]]));
+    validateSourceFields(source.worker, source.category, source.topicType, { ...current, ...fields });
+  } catch (error: any) {
+    return res.status(400).json({ success: false, error: error.message });
+  }
+
+  try {
+    const existing = await findSourceOverride(source.id);
+    const workers = await saveSourceOverride({
+      id: source.id,
+      worker: source.worker,
+      category: source.category,
+      topic_type: source.topicType,
+      fields: { ...(existing?.fields || {}), ...fields },
+      deleted: false,
+    }, existing);
+
+    console.log(`[Orchestrator] Source updated: ${source.id} ${JSON.stringify(fields)}`);
+    res.json({ success: true, source: getSource(source.id), workers });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Removes an added source, or hides a sources.json entry.
+// ?reset=true instead drops the runtime changes to a sources.json entry.
+app.delete('/v1/sources/:id', async (req, res) => {
+  const { id } = req.params;
+  const reset = req.query.reset === 'true';
+  const fromConfig = isConfigSource(id);
+
+  const existing = await findSourceOverride(id).catch(() => undefined);
+  if (reset ? !fromConfig || !existing : !getSource(id)) {
+    return res.status(404).json({ success: false, error: 'Not found' });
+  }
+
+  try {
+    let workers: Record<string, string>;
+    if (fromConfig && !reset) {
+      const source = getSource(id)!;
+      workers = await saveSourceOverride({
+        id,
+        worker: source.worker,
+        category: source.category,
+        topic_type: source.topicType,
+        fields: existing?.fields || {},
+        deleted: true,
+      }, existing);
+    } else {
+      await getSourceStore().remove(id);
+      await refreshSourceOverrides();
+      workers = await reloadWorkerSources();
+    }
+
+    console.log(`[Orchestrator] Source ${reset ? 'reset' : 'deleted'}: ${id}`);
+    res.json({ success: true, ...(reset ? { source: getSource(id) } : {}), workers });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Dry run through the source's worker: ?topic= (or body.topic), optional body.queries.
+// Returns the source's unfiltered hits and its breaker state; an open breaker is bypassed.
+app.post('/v1/sources/:id/test', async (req, res) => {
+  const source = getSource(req.params.id);
+  if (!source) return res.status(404).json({ success: false, error: 'Not found' });
+
+  const topic = (req.query.topic as string) || req.body?.topic;
+  if (!topic) return res.status(400).json({ success: false, error: 'topic is required' });
+
+  try {
+    const { data } = await axios.post(`${WORKERS[source.worker]}/sources/test`, {
+      sourceId: source.id,
+      topic,
+      queries: req.body?.queries,
+    }, { timeout: SOURCE_TEST_TIMEOUT_MS });
+    res.json(data);
+  } catch (error: any) {
+    res.status(error.response?.status || 502).json({ success: false, error: error.response?.data?.error || error.message });
+  }
+});
+
+// ============================================
+// LIVE PROGRESS (Server-Sent Events)
+// ============================================
+
+function writeSseEvent(res: express.Response, event: ProjectEvent) {
+  res.write(`id: ${event.id}\n`);
+  res.write(`event: ${event.phase}\n`);
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+app.get('/v1/project/:id/events', async (req, res) => {
+  const { id } = req.params;
+
+  const { data: project } = await supabase.from('projects').select('id, status').eq('id', id).single();
+  if (!project) return res.status(404).json({ success: false, error: 'Not found' });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  // Replay what the client missed (everything on first connect)
+  const lastEventId = parseInt((req.headers['last-event-id'] as string) || (req.query.lastEventId as string) || '0') || 0;
+  const missed = getProjectEventHistory(id, lastEventId);
+  missed.forEach(event => writeSseEvent(res, event));
+
+  // Run already over: nothing more will arrive, send the final state and close
+  const alreadyFinished = missed.some(e => TERMINAL_PHASES.includes(e.phase))
+    || (missed.length === 0 && !['processing', 'queued'].includes(project.status));
+  if (alreadyFinished) {
+    res.write(`event: end\ndata: ${JSON.stringify({ status: project.status })}\n\n`);
+    return res.end();
+  }
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+
+  const unsubscribe = subscribeProjectEvents(id, (event) => {
+    writeSseEvent(res, event);
+    if (TERMINAL_PHASES.includes(event.phase)) {
+      res.write(`event: end\ndata: ${JSON.stringify({ status: event.phase.replace('project_', '') })}\n\n`);
+      res.end();
+    }
+  });
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
   });
 });
 
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// Internal routes need INTERNAL_API_TOKEN as X-Internal-Token when it is set,
+// otherwise they only answer callers on loopback
+function requireInternalCaller(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const token = process.env.INTERNAL_API_TOKEN;
+  const allowed = token
+    ? req.get('x-internal-token') === token
+    : LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress || '');
+  if (!allowed) return res.status(403).json({ success: false, error: 'Internal endpoint' });
+  next();
+}
+
+// Workers report their progress here (see utils/progress.ts)
+app.post('/internal/progress', requireInternalCaller, (req, res) => {
+  const { projectId, worker, phase, data, timestamp } = req.body || {};
+
+  if (!projectId || !worker || !phase) {
+    return res.status(400).json({ success: false, error: 'projectId, worker and phase are required' });
+  }
+
+  publishProjectEvent({ projectId, worker, phase, data: data || {}, timestamp: timestamp || new Date().toISOString() });
+  res.json({ success: true });
+});
+
 // ============================================
 // HEALTH CHECK
 // ============================================
@@ -310,20 +1044,20 @@ app.get('/health', async (req, res) => {
     }
   }
 
-  // Check Modal services (Qwen and Whisper)
-  const [qwenHealthy, whisperHealthy] = await Promise.all([
-    checkQwenHealth().catch(() => false),
-    checkWhisperHealth().catch(() => false),
-  ]);
+  // Vision / transcription providers, in fallback order
+  const providers = await getProvidersHealth();
+  const statusOf = (name: string) =>
+    [...providers.vision, ...providers.asr].find(p => p.name === name)?.status || 'not_configured';
 
   res.json({
     status: 'ok',
     service: 'mediamind-orchestrator',
     workers: workerStatus,
     modalServices: {
-      qwenVision: qwenHealthy ? 'ok' : 'offline',
-      whisperTranscribe: whisperHealthy ? 'ok' : 'offline',
+      qwenVision: statusOf('modal-qwen'),
+      whisperTranscribe: statusOf('modal-whisper'),
     },
+    providers,
     details: workerDetails,
   });
 });
@@ -338,4 +1072,7 @@ app.listen(PORT, () => {
   console.log(`    WebContent: ${WORKERS.webcontent}`);
   console.log(`    FFmpeg:     ${WORKERS.ffmpeg}`);
   console.log(`========================================\n`);
+
+  // Picks up queued research and resumes runs interrupted by a restart
+  startJobRunner();
 });
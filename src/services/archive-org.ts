@@ -0,0 +1,341 @@
+// Archive.org Client
+// One typed client for the Internet Archive, used by the video and image
+// workers and the legacy search services:
+//
+//   searchArchive()      item search - advancedsearch (ranked, paged) or the
+//                        scrape API (cursor based, for large pulls)
+//   fetchArchiveItems()  metadata for many items, a few requests at a time
+//   selectArchiveFile()  picks the file to use by format, size and derivative
+//   archiveMediaInfo()   license, date, duration, collection and creator for
+//                        our media metadata
+//
+// Every request goes through the archive.org circuit breaker (and the current
+// source's, see withSourceScope).
+
+import axios from 'axios';
+import { withSearchBreakers, UPSTREAM_BREAKERS, CircuitOpenError } from '../utils/circuit-breaker.js';
+import type { LicenseType } from '../utils/research-options.js';
+
+export type ArchiveMediaType = 'movies' | 'image' | 'texts' | 'audio' | 'software' | 'collection';
+
+export interface ArchiveSearchOptions {
+  mediatype?: ArchiveMediaType;
+  collection?: string;
+  fields?: string[];
+  sort?: string;              // e.g. 'downloads desc'
+  limit?: number;             // total items wanted, fetched page by page
+  api?: 'advancedsearch' | 'scrape';
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+// A search hit. Archive.org returns most fields as a string or an array of strings.
+export interface ArchiveDoc {
+  identifier: string;
+  title: string | null;
+  description: string | null;
+  date: string | null;
+  mediatype: string | null;
+  collection: string[];
+  creator: string[];
+  licenseUrl: string | null;
+  downloads: number | null;
+}
+
+export interface ArchiveFile {
+  name: string;
+  source: string | null;      // 'original', 'derivative' or 'metadata'
+  format: string | null;      // Archive.org format name, e.g. 'h.264', 'JPEG'
+  size: number | null;        // bytes
+  duration: number | null;    // seconds (audio / video)
+  width: number | null;
+  height: number | null;
+}
+
+export interface ArchiveItem extends ArchiveDoc {
+  runtime: number | null;     // seconds, from the item's runtime field
+  files: ArchiveFile[];
+}
+
+export interface ArchiveFileSelection {
+  extensions: string[];       // in order of preference, e.g. ['mp4', 'webm']
+  formats?: string[];         // also accepted by Archive.org format name
+  preferSource?: 'original' | 'derivative';
+  preferSize?: 'smallest' | 'largest';
+  minBytes?: number;
+  maxBytes?: number;
+  exclude?: RegExp;           // file names never picked, e.g. /thumb/i
+}
+
+export interface ArchiveMediaInfo {
+  license: LicenseType | null;
+  licenseUrl: string | null;
+  date: string | null;
+  duration: number | null;
+  creator: string | null;
+  collection: string[];
+}
+
+const ARCHIVE_URL = 'https://archive.org';
+const USER_AGENT = 'MediaMind Research Bot/1.0 (automated research tool)';
+
+const METADATA_CONCURRENCY = parseInt(process.env.ARCHIVE_METADATA_CONCURRENCY || '4');
+const SEARCH_PAGE_SIZE = 100;
+const SCRAPE_PAGE_SIZE = 1000;       // the scrape API wants at least 100
+const MAX_PAGES = 20;
+
+const SEARCH_FIELDS = ['identifier', 'title', 'description', 'date', 'mediatype', 'collection', 'creator', 'licenseurl', 'downloads'];
+
+// ============================================
+// SEARCH
+// ============================================
+
+export async function searchArchive(query: string, options: ArchiveSearchOptions = {}): Promise<ArchiveDoc[]> {
+  const {
+    mediatype,
+    collection,
+    fields = SEARCH_FIELDS,
+    sort = 'downloads desc',
+    limit = 50,
+    api = 'advancedsearch',
+    timeoutMs = 30000,
+    signal,
+  } = options;
+
+  const q = [query, mediatype && `mediatype:${mediatype}`, collection && `collection:${collection}`]
+    .filter(Boolean)
+    .join(' AND ');
+  const fl = fields.includes('identifier') ? fields : ['identifier', ...fields];
+
+  const docs = api === 'scrape'
+    ? await scrapePages(q, fl, limit, timeoutMs, signal)
+    : await advancedSearchPages(q, fl, sort, limit, timeoutMs, signal);
+
+  return docs.slice(0, limit).map(parseDoc);
+}
+
+// Ranked results, `page` by `page`
+async function advancedSearchPages(
+  q: string,
+  fields: string[],
+  sort: string,
+  limit: number,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<any[]> {
+  const rows = Math.min(limit, SEARCH_PAGE_SIZE);
+  const docs: any[] = [];
+
+  for (let page = 1; page <= MAX_PAGES && docs.length < limit; page++) {
+    const data = await archiveGet('/advancedsearch.php', {
+      q,
+      fl: fields,                // axios sends arrays as fl[]=...&fl[]=...
+      sort: [sort],
+      rows,
+      page,
+      output: 'json',
+    }, timeoutMs, signal);
+
+    const pageDocs = data?.response?.docs || [];
+    docs.push(...pageDocs);
+    if (pageDocs.length < rows || docs.length >= (data?.response?.numFound ?? 0)) break;
+  }
+
+  return docs;
+}
+
+// Unranked, cursor based - no 10,000 result ceiling
+async function scrapePages(
+  q: string,
+  fields: string[],
+  limit: number,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<any[]> {
+  const docs: any[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_PAGES && docs.length < limit; page++) {
+    const data = await archiveGet('/services/search/v1/scrape', {
+      q,
+      fields: fields.join(','),
+      count: Math.max(100, Math.min(limit - docs.length, SCRAPE_PAGE_SIZE)),
+      ...(cursor ? { cursor } : {}),
+    }, timeoutMs, signal);
+
+    docs.push(...(data?.items || []));
+    cursor = data?.cursor;
+    if (!cursor) break;
+  }
+
+  return docs;
+}
+
+// ============================================
+// ITEM METADATA
+// ============================================
+
+export async function fetchArchiveItem(identifier: string, options: { timeoutMs?: number; signal?: AbortSignal } = {}): Promise<ArchiveItem | null> {
+  const data = await archiveGet(`/metadata/${encodeURIComponent(identifier)}`, {}, options.timeoutMs ?? 15000, options.signal);
+  // Unknown identifiers answer 200 with an empty object
+  if (!data?.metadata) return null;
+
+  return {
+    ...parseDoc({ identifier, ...data.metadata }),
+    runtime: parseDuration(data.metadata.runtime),
+    files: (data.files || []).map(parseFile),
+  };
+}
+
+// Metadata for each identifier, in order; null where the lookup failed
+export async function fetchArchiveItems(
+  identifiers: string[],
+  options: { concurrency?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<(ArchiveItem | null)[]> {
+  const { concurrency = METADATA_CONCURRENCY, signal } = options;
+  const items: (ArchiveItem | null)[] = new Array(identifiers.length).fill(null);
+  let next = 0;
+  let stopped = false;
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, identifiers.length) }, async () => {
+    while (next < identifiers.length && !stopped && !signal?.aborted) {
+      const index = next++;
+      try {
+        items[index] = await fetchArchiveItem(identifiers[index], options);
+      } catch (error: any) {
+        // The rest would be refused too
+        if (error instanceof CircuitOpenError) stopped = true;
+        else console.log(`[Archive.org] Skipped ${identifiers[index]}: ${error.message}`);
+      }
+    }
+  }));
+
+  return items;
+}
+
+// ============================================
+// FILES AND METADATA
+// ============================================
+
+export function selectArchiveFile(files: ArchiveFile[], selection: ArchiveFileSelection): ArchiveFile | null {
+  const { extensions, formats = [], preferSource, preferSize, minBytes, maxBytes, exclude } = selection;
+  const wanted = extensions.map(ext => ext.toLowerCase());
+  const wantedFormats = formats.map(format => format.toLowerCase());
+  const extensionRank = (file: ArchiveFile) => {
+    const rank = wanted.indexOf(file.name.split('.').pop()!.toLowerCase());
+    return rank === -1 ? wanted.length : rank;
+  };
+
+  const candidates = files.filter(file =>
+    file.source !== 'metadata'
+    && (extensionRank(file) < wanted.length || (!!file.format && wantedFormats.includes(file.format.toLowerCase())))
+    && !(exclude && exclude.test(file.name))
+    && !(minBytes && file.size !== null && file.size < minBytes)
+    && !(maxBytes && file.size !== null && file.size > maxBytes)
+  );
+
+  // Stable sort: ties keep Archive.org's file order
+  candidates.sort((a, b) =>
+    extensionRank(a) - extensionRank(b)
+    || (preferSource ? (a.source === preferSource ? 0 : 1) - (b.source === preferSource ? 0 : 1) : 0)
+    || (preferSize && a.size !== null && b.size !== null
+      ? (preferSize === 'smallest' ? a.size - b.size : b.size - a.size)
+      : 0)
+  );
+
+  return candidates[0] || null;
+}
+
+export function archiveMediaInfo(item: ArchiveItem, file?: ArchiveFile | null): ArchiveMediaInfo {
+  return {
+    license: archiveLicense(item.licenseUrl),
+    licenseUrl: item.licenseUrl,
+    date: item.date,
+    duration: file?.duration ?? item.runtime,
+    creator: item.creator.length > 0 ? item.creator.join(', ') : null,
+    collection: item.collection,
+  };
+}
+
+// Items without a licenseurl are left to the source's default license
+export function archiveLicense(licenseUrl: string | null): LicenseType | null {
+  if (!licenseUrl) return null;
+  if (/publicdomain|\/mark\/|\/zero\//i.test(licenseUrl)) return 'public_domain';
+  if (/creativecommons\.org\/licenses\//i.test(licenseUrl)) return 'creative_commons';
+  return 'unknown';
+}
+
+export function archiveDownloadUrl(identifier: string, fileName: string): string {
+  return `${ARCHIVE_URL}/download/${encodeURIComponent(identifier)}/${fileName.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+export function archiveThumbnailUrl(identifier: string): string {
+  return `${ARCHIVE_URL}/services/img/${encodeURIComponent(identifier)}`;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function archiveGet(pathname: string, params: Record<string, any>, timeoutMs: number, signal?: AbortSignal): Promise<any> {
+  const response = await withSearchBreakers(UPSTREAM_BREAKERS.archiveOrg, () => axios.get(`${ARCHIVE_URL}${pathname}`, {
+    params,
+    headers: { 'User-Agent': USER_AGENT },
+    timeout: timeoutMs,
+    signal,
+  }));
+  return response.data;
+}
+
+function parseDoc(raw: any): ArchiveDoc {
+  const downloads = Number(first(raw.downloads));
+  return {
+    identifier: String(raw.identifier),
+    title: first(raw.title),
+    description: first(raw.description),
+    date: first(raw.date),
+    mediatype: first(raw.mediatype),
+    collection: list(raw.collection),
+    creator: list(raw.creator),
+    licenseUrl: first(raw.licenseurl),
+    downloads: Number.isFinite(downloads) ? downloads : null,
+  };
+}
+
+function parseFile(raw: any): ArchiveFile {
+  return {
+    name: String(raw.name),
+    source: raw.source || null,
+    format: raw.format || null,
+    size: toNumber(raw.size),
+    duration: parseDuration(raw.length),
+    width: toNumber(raw.width),
+    height: toNumber(raw.height),
+  };
+}
+
+function first(value: unknown): string | null {
+  const item = Array.isArray(value) ? value[0] : value;
+  return item === undefined || item === null || item === '' ? null : String(item);
+}
+
+function list(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+// "123.45" (seconds) or "[hh:]mm:ss"
+function parseDuration(value: unknown): number | null {
+  const text = first(value);
+  if (!text) return null;
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(parseFloat(text));
+
+  const match = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:\.\d+)?$/);
+  if (!match) return null;
+  return parseInt(match[1] || '0') * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]);
+}
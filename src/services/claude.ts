@@ -5,15 +5,13 @@ import Anthropic from '@anthropic-ai/sdk';
 import axios from 'axios';
 import fs from 'fs';
 import { analyzeImageWithQwen, analyzeImageBatchWithQwen } from './modal.js';
-
-// Use Qwen for image analysis by default (97% cheaper)
-const USE_QWEN_FOR_IMAGES = process.env.USE_QWEN_FOR_IMAGES !== 'false';
+import { runWithFallback } from './providers.js';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
-interface RelevantSegment {
+export interface RelevantSegment {
   start: number;
   end: number;
   description: string;
@@ -104,14 +102,15 @@ If no relevant segments found, return: { "segments": [] }`;
 
 export async function analyzeFrames(
   topic: string,
-  framePaths: string[]
+  framePaths: string[],
+  secondsPerFrame: number = 5
 ): Promise<RelevantSegment[]> {
   try {
-    // Limit to max 20 frames to control costs
-    const framesToAnalyze = framePaths.slice(0, 20);
+    // Limit to max 20 frames to control costs, spread evenly over the video
     const frameInterval = framePaths.length > 20
-      ? Math.floor(framePaths.length / 20)
+      ? Math.ceil(framePaths.length / 20)
       : 1;
+    const framesToAnalyze = framePaths.filter((_, idx) => idx % frameInterval === 0).slice(0, 20);
 
     console.log(`      Analyzing ${framesToAnalyze.length} frames...`);
 
@@ -181,12 +180,10 @@ If nothing relevant, return: { "ranges": [] }`,
 
     const parsed = JSON.parse(jsonMatch[0]);
 
-    // Convert frame ranges to time ranges
-    // Assuming 5 seconds per frame (based on extraction interval)
-    const SECONDS_PER_FRAME = 5;
+    // Convert frame ranges to time ranges (secondsPerFrame is the extraction interval)
     const segments: RelevantSegment[] = (parsed.ranges || []).map((range: any) => ({
-      start: (range.start_frame - 1) * SECONDS_PER_FRAME * frameInterval,
-      end: range.end_frame * SECONDS_PER_FRAME * frameInterval,
+      start: (range.start_frame - 1) * secondsPerFrame * frameInterval,
+      end: range.end_frame * secondsPerFrame * frameInterval,
       description: range.description,
       relevanceScore: range.relevance_score,
     }));
@@ -203,75 +200,94 @@ If nothing relevant, return: { "ranges": [] }`,
 // VALIDATE IMAGE RELEVANCE
 // ============================================
 
-export async function validateImageRelevance(
-  topic: string,
-  imageUrl: string
-): Promise<{ relevant: boolean; score: number; description: string }> {
-  // Use Qwen by default (97% cheaper: ~$0.0001 vs $0.006 per image)
-  if (USE_QWEN_FOR_IMAGES) {
-    return await validateImageWithQwen(topic, imageUrl);
-  }
-  return await validateImageWithClaude(topic, imageUrl);
+interface ImageVerdict {
+  relevant: boolean;
+  score: number;
+  description: string;
 }
 
-/**
- * Validate image using Qwen2-VL on Modal (97% cheaper)
- */
-async function validateImageWithQwen(
+const NOT_RELEVANT: ImageVerdict = { relevant: false, score: 0, description: '' };
+
+// Canned verdict for the mock provider (dev / tests without API access)
+const MOCK_VERDICT: ImageVerdict = { relevant: true, score: 0.8, description: 'mock provider' };
+
+// Vision providers are tried in VISION_PROVIDERS order (see providers.ts).
+// Qwen on Modal is the default first choice (~$0.0001 vs $0.006 per image with Claude).
+export async function validateImageRelevance(
   topic: string,
   imageUrl: string
-): Promise<{ relevant: boolean; score: number; description: string }> {
+): Promise<ImageVerdict> {
   try {
-    const result = await analyzeImageWithQwen(imageUrl, topic);
-    return {
-      relevant: result.relevant && result.confidence >= 0.5,
-      score: result.confidence,
-      description: result.description,
-    };
+    const { result } = await runWithFallback<ImageVerdict>('vision', {
+      'modal-qwen': async () => {
+        const result = await analyzeImageWithQwen(imageUrl, topic);
+        if (result.error) throw new Error(result.error);
+        return {
+          relevant: result.relevant && result.confidence >= 0.5,
+          score: result.confidence,
+          description: result.description,
+        };
+      },
+      'claude': () => validateImageWithClaude(topic, imageUrl),
+      'mock': async () => MOCK_VERDICT,
+    });
+    return result;
   } catch (error: any) {
-    console.error(`      Qwen image validation failed: ${error.message}`);
-    // Fall back to Claude
-    return await validateImageWithClaude(topic, imageUrl);
+    console.error(`      Image validation failed: ${error.message}`);
+    return NOT_RELEVANT;
   }
 }
 
+// `error` is set on images that could not be scored at all (score 0 is not a verdict then)
+type BatchVerdict = { id: string; error?: string } & ImageVerdict;
+
 /**
- * Validate multiple images in batch using Qwen (more efficient)
+ * Validate multiple images in batch (Qwen takes the whole batch in one call)
  */
 export async function validateImageBatch(
   topic: string,
   imageUrls: Array<{ url: string; id: string }>
-): Promise<Array<{ id: string; relevant: boolean; score: number; description: string }>> {
-  if (USE_QWEN_FOR_IMAGES) {
-    try {
-      const results = await analyzeImageBatchWithQwen(imageUrls, topic);
-      return results.map(r => ({
-        id: r.id,
-        relevant: r.relevant && r.confidence >= 0.5,
-        score: r.confidence,
-        description: r.description,
-      }));
-    } catch (error: any) {
-      console.error(`      Qwen batch validation failed: ${error.message}`);
-    }
-  }
-
-  // Fall back to individual Claude calls
-  const results = [];
-  for (const img of imageUrls) {
-    const result = await validateImageWithClaude(topic, img.url);
-    results.push({ id: img.id, ...result });
+): Promise<BatchVerdict[]> {
+  try {
+    const { result } = await runWithFallback<BatchVerdict[]>('vision', {
+      'modal-qwen': async () => {
+        const results = await analyzeImageBatchWithQwen(imageUrls, topic);
+        // Every image failing means the endpoint itself is down
+        if (results.length > 0 && results.every(r => r.error)) throw new Error(results[0].error);
+        return results.map(r => ({
+          id: r.id,
+          relevant: r.relevant && r.confidence >= 0.5,
+          score: r.confidence,
+          description: r.description,
+          ...(r.error ? { error: r.error } : {}),
+        }));
+      },
+      // No batch API - one call per image
+      'claude': async () => {
+        const results = [];
+        for (const img of imageUrls) {
+          const result: ImageVerdict & { error?: string } = await validateImageWithClaude(topic, img.url)
+            .catch((error: any) => ({ ...NOT_RELEVANT, error: error.message }));
+          results.push({ id: img.id, ...result });
+        }
+        return results;
+      },
+      'mock': async () => imageUrls.map(img => ({ id: img.id, ...MOCK_VERDICT })),
+    });
+    return result;
+  } catch (error: any) {
+    console.error(`      Image batch validation failed: ${error.message}`);
+    return imageUrls.map(img => ({ id: img.id, ...NOT_RELEVANT, error: error.message }));
   }
-  return results;
 }
 
 /**
- * Validate image using Claude (fallback, more expensive)
+ * Validate image using Claude (fallback, more expensive) - throws on failure
  */
 async function validateImageWithClaude(
   topic: string,
   imageUrl: string
-): Promise<{ relevant: boolean; score: number; description: string }> {
+): Promise<ImageVerdict> {
   try {
     // Download image and convert to base64
     const imageResponse = await axios.get(imageUrl, {
@@ -328,11 +344,11 @@ Respond in JSON:
       };
     }
 
-    return { relevant: false, score: 0, description: '' };
+    return NOT_RELEVANT;
 
   } catch (error: any) {
     console.error(`      Claude image validation failed: ${error.message}`);
-    return { relevant: false, score: 0, description: '' };
+    throw error;
   }
 }
 
@@ -0,0 +1,168 @@
+// Clip Selection
+// Finds the parts of a video that are relevant to a topic
+//
+// Transcribes the audio and samples frames, scores both against the topic
+// with Claude, then merges overlapping ranges into a short list of clips.
+
+import fs from 'fs';
+import path from 'path';
+import { analyzeTranscript, analyzeFrames, RelevantSegment } from './claude.js';
+import { transcribeAudio } from './whisper.js';
+import { detectAudio, extractFrames } from './ffmpeg.js';
+import type { TranscriptSegment } from '../types/models.js';
+
+export interface ClipCandidate {
+  start: number;
+  end: number;
+  description: string;
+  relevanceScore: number;
+  sources: ('transcript' | 'frames')[];
+}
+
+export interface ClipSelectionOptions {
+  maxClips?: number;
+  minScore?: number;
+  minDuration?: number;   // seconds - shorter ranges are widened around their centre
+  maxDuration?: number;   // seconds - longer ranges are split
+  padding?: number;       // seconds added on both sides before merging
+  mergeGap?: number;      // ranges closer than this are merged
+  transcript?: TranscriptSegment[];  // reuse an existing transcript instead of transcribing
+  signal?: AbortSignal;
+}
+
+export interface ClipSelection {
+  clips: ClipCandidate[];
+  transcriptSegments: number;
+  frameSegments: number;
+}
+
+const MAX_ANALYZED_FRAMES = 20;
+
+// Both analyses agreeing on a range is a stronger signal than either alone
+const AGREEMENT_BONUS = 0.1;
+
+// ============================================
+// SELECT RELEVANT CLIPS
+// ============================================
+
+export async function selectRelevantClips(
+  videoPath: string,
+  topic: string,
+  workDir: string,
+  duration: number,
+  options: ClipSelectionOptions = {}
+): Promise<ClipSelection> {
+  const { signal } = options;
+  fs.mkdirSync(workDir, { recursive: true });
+
+  // Transcript and frames are independent - run them side by side
+  const [transcriptSegments, frameSegments] = await Promise.all([
+    (async (): Promise<RelevantSegment[]> => {
+      const transcript = options.transcript
+        ?? ((await detectAudio(videoPath)) ? await transcribeAudio(videoPath, path.join(workDir, 'audio.mp3')) : []);
+      if (signal?.aborted || transcript.length === 0) return [];
+      return analyzeTranscript(topic, transcript);
+    })(),
+    (async (): Promise<RelevantSegment[]> => {
+      // Sample at most ~20 frames over the whole video
+      const interval = Math.max(5, Math.ceil(duration / MAX_ANALYZED_FRAMES));
+      const frames = await extractFrames(videoPath, path.join(workDir, 'frames'), interval);
+      if (signal?.aborted || frames.length === 0) return [];
+      return analyzeFrames(topic, frames, interval);
+    })(),
+  ]);
+
+  console.log(`      Relevant ranges: ${transcriptSegments.length} from transcript, ${frameSegments.length} from frames`);
+
+  const candidates = [
+    ...transcriptSegments.map(s => ({ ...s, source: 'transcript' as const })),
+    ...frameSegments.map(s => ({ ...s, source: 'frames' as const })),
+  ];
+
+  return {
+    clips: mergeSegments(candidates, duration, options),
+    transcriptSegments: transcriptSegments.length,
+    frameSegments: frameSegments.length,
+  };
+}
+
+// ============================================
+// MERGE RANGES
+// ============================================
+
+export function mergeSegments(
+  segments: (RelevantSegment & { source: 'transcript' | 'frames' })[],
+  duration: number,
+  options: ClipSelectionOptions = {}
+): ClipCandidate[] {
+  const {
+    maxClips = 10,
+    minScore = 0.6,
+    minDuration = 5,
+    maxDuration = 60,
+    padding = 1,
+    mergeGap = 3,
+  } = options;
+
+  const end = duration > 0 ? duration : Infinity;
+
+  const ranges: ClipCandidate[] = segments
+    .filter(s => Number.isFinite(s.start) && Number.isFinite(s.end) && (s.relevanceScore || 0) >= minScore)
+    .map(s => ({
+      start: Math.max(0, s.start - padding),
+      end: Math.min(end, s.end + padding),
+      description: s.description || '',
+      relevanceScore: s.relevanceScore,
+      sources: [s.source],
+    }))
+    .filter(r => r.end > r.start)
+    .sort((a, b) => a.start - b.start);
+
+  // Sweep: overlapping or nearly touching ranges become one
+  const merged: ClipCandidate[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + mergeGap) {
+      last.end = Math.max(last.end, range.end);
+      last.relevanceScore = Math.max(last.relevanceScore, range.relevanceScore);
+      if (range.description && !last.description.includes(range.description)) {
+        last.description = last.description ? `${last.description}; ${range.description}` : range.description;
+      }
+      for (const source of range.sources) {
+        if (!last.sources.includes(source)) last.sources.push(source);
+      }
+    } else {
+      merged.push({ ...range, sources: [...range.sources] });
+    }
+  }
+
+  const clips: ClipCandidate[] = [];
+  for (const range of merged) {
+    const score = range.sources.length > 1
+      ? Math.min(1, range.relevanceScore + AGREEMENT_BONUS)
+      : range.relevanceScore;
+    const rounded = Math.round(score * 100) / 100;
+
+    // Too short to be useful: widen around the centre
+    if (range.end - range.start < minDuration) {
+      const centre = (range.start + range.end) / 2;
+      const start = Math.max(0, Math.min(centre - minDuration / 2, end - minDuration));
+      clips.push({ ...range, start, end: Math.min(end, start + minDuration), relevanceScore: rounded });
+      continue;
+    }
+
+    // Too long: split into consecutive windows
+    for (let start = range.start; start < range.end; start += maxDuration) {
+      const windowEnd = Math.min(range.end, start + maxDuration);
+      if (windowEnd - start < minDuration && start > range.start) break;
+      clips.push({ ...range, start, end: windowEnd, relevanceScore: rounded });
+    }
+  }
+
+  // Best clips first, then back into timeline order for extraction
+  return clips
+    .sort((a, b) => b.relevanceScore - a.relevanceScore)
+    .slice(0, maxClips)
+    .map(c => ({ ...c, start: Math.round(c.start * 10) / 10, end: Math.round(c.end * 10) / 10 }))
+    .sort((a, b) => a.start - b.start);
+}
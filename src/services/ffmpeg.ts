@@ -1,11 +1,11 @@
 // FFmpeg Service
-// Video download, audio detection, frame extraction, clip extraction
+// Video download, audio detection, frame extraction, pixel decoding, thumbnails, clip extraction
 
 import { exec, spawn } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs';
 import path from 'path';
-import axios from 'axios';
+import { downloadToFile, VIDEO_CONTENT_TYPES } from '../utils/download.js';
 
 const execPromise = promisify(exec);
 
@@ -23,17 +23,11 @@ export async function downloadVideo(url: string, outputPath: string): Promise<bo
     }
 
     // Direct download for other URLs (Archive.org, Pexels, etc.)
-    const response = await axios.get(url, {
-      responseType: 'arraybuffer',
-      timeout: 180000, // 3 minute timeout
-      maxContentLength: 500 * 1024 * 1024, // 500MB max
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
+    await downloadToFile(url, outputPath, {
+      maxBytes: 500 * 1024 * 1024, // 500MB max
+      allowedContentTypes: VIDEO_CONTENT_TYPES,
     });
 
-    fs.writeFileSync(outputPath, response.data);
-
     return fs.existsSync(outputPath);
   } catch (error: any) {
     console.error(`      Download failed: ${error.message}`);
@@ -88,10 +82,11 @@ export async function detectAudio(videoPath: string): Promise<boolean> {
 // EXTRACT AUDIO
 // ============================================
 
-export async function extractAudio(videoPath: string, audioPath: string): Promise<boolean> {
+export async function extractAudio(videoPath: string, audioPath: string, signal?: AbortSignal): Promise<boolean> {
   try {
     await execPromise(
-      `ffmpeg -i "${videoPath}" -vn -acodec libmp3lame -q:a 2 "${audioPath}" -y`
+      `ffmpeg -i "${videoPath}" -vn -acodec libmp3lame -q:a 2 "${audioPath}" -y`,
+      { signal }
     );
     return fs.existsSync(audioPath);
   } catch (error: any) {
@@ -100,6 +95,74 @@ export async function extractAudio(videoPath: string, audioPath: string): Promis
   }
 }
 
+// Cut a range out of an audio file as small mono mp3 (what Whisper APIs want)
+export async function extractAudioSegment(
+  audioPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number,
+  signal?: AbortSignal
+): Promise<boolean> {
+  try {
+    await execPromise(
+      `ffmpeg -ss ${startSeconds} -t ${durationSeconds} -i "${audioPath}" -vn -ac 1 -ar 16000 -b:a 64k "${outputPath}" -y`,
+      { signal }
+    );
+    return fs.existsSync(outputPath);
+  } catch (error: any) {
+    console.error(`      Audio segment extraction failed: ${error.message}`);
+    return false;
+  }
+}
+
+// 16 kHz mono PCM wav - the only input whisper.cpp accepts
+export async function convertAudioToWav(audioPath: string, outputPath: string, signal?: AbortSignal): Promise<boolean> {
+  try {
+    await execPromise(
+      `ffmpeg -i "${audioPath}" -vn -ac 1 -ar 16000 -c:a pcm_s16le "${outputPath}" -y`,
+      { signal }
+    );
+    return fs.existsSync(outputPath);
+  } catch (error: any) {
+    console.error(`      Audio conversion failed: ${error.message}`);
+    return false;
+  }
+}
+
+// ============================================
+// DETECT SILENCE
+// ============================================
+
+export async function detectSilences(
+  audioPath: string,
+  noiseDb: number = -30,
+  minSilenceSeconds: number = 0.5
+): Promise<{ start: number; end: number }[]> {
+  try {
+    // silencedetect reports on stderr
+    const { stderr } = await execPromise(
+      `ffmpeg -hide_banner -nostats -i "${audioPath}" -af silencedetect=noise=${noiseDb}dB:d=${minSilenceSeconds} -f null -`,
+      { maxBuffer: 20 * 1024 * 1024 }
+    );
+
+    const silences: { start: number; end: number }[] = [];
+    let start: number | null = null;
+    for (const line of stderr.split('\n')) {
+      const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+      if (startMatch) start = Math.max(0, parseFloat(startMatch[1]));
+      const endMatch = line.match(/silence_end: ([\d.]+)/);
+      if (endMatch && start !== null) {
+        silences.push({ start, end: parseFloat(endMatch[1]) });
+        start = null;
+      }
+    }
+    return silences;
+  } catch (error: any) {
+    console.error(`      Silence detection failed: ${error.message}`);
+    return [];
+  }
+}
+
 // ============================================
 // EXTRACT FRAMES
 // ============================================
@@ -143,6 +206,76 @@ export async function extractFrames(
   }
 }
 
+// ============================================
+// DECODE PIXELS
+// ============================================
+
+// First frame of an image or video as 8-bit grayscale, scaled to width x height (row-major)
+export async function decodeGrayscale(
+  inputPath: string,
+  width: number,
+  height: number
+): Promise<Uint8Array | null> {
+  try {
+    const { stdout } = await execPromise(
+      `ffmpeg -v error -i "${inputPath}" -frames:v 1 -vf "scale=${width}:${height}:flags=area,format=gray" -f rawvideo -`,
+      { encoding: 'buffer', maxBuffer: width * height + 1024 }
+    );
+
+    if (stdout.length < width * height) return null;
+    return new Uint8Array(stdout.subarray(0, width * height));
+  } catch (error: any) {
+    console.error(`      Decode failed for ${path.basename(inputPath)}: ${error.message}`);
+    return null;
+  }
+}
+
+// About `count` keyframes spread over the video, each as grayscale pixels like decodeGrayscale.
+// Only keyframes are decoded, so this stays fast on long files.
+export async function sampleGrayscaleFrames(
+  videoPath: string,
+  count: number,
+  width: number,
+  height: number,
+  duration: number,
+  signal?: AbortSignal
+): Promise<Uint8Array[]> {
+  try {
+    const fps = count / Math.max(1, duration);
+    const frameSize = width * height;
+    const { stdout } = await execPromise(
+      `ffmpeg -v error -skip_frame nokey -i "${videoPath}" -an -vf "fps=${fps},scale=${width}:${height}:flags=area,format=gray" -frames:v ${count} -f rawvideo -`,
+      { encoding: 'buffer', maxBuffer: frameSize * count + 1024, signal }
+    );
+
+    const frames: Uint8Array[] = [];
+    for (let offset = 0; offset + frameSize <= stdout.length; offset += frameSize) {
+      frames.push(new Uint8Array(stdout.subarray(offset, offset + frameSize)));
+    }
+    return frames;
+  } catch (error: any) {
+    console.error(`      Keyframe sampling failed: ${error.message}`);
+    return [];
+  }
+}
+
+// ============================================
+// THUMBNAILS
+// ============================================
+
+// Scaled-down JPEG copy, never wider or taller than maxSize; returns false if the input won't decode
+export async function createThumbnail(inputPath: string, outputPath: string, maxSize: number = 400): Promise<boolean> {
+  try {
+    await execPromise(
+      `ffmpeg -v error -i "${inputPath}" -frames:v 1 -vf "scale='min(${maxSize},iw)':'min(${maxSize},ih)':force_original_aspect_ratio=decrease" -q:v 4 "${outputPath}" -y`
+    );
+    return fs.existsSync(outputPath) && fs.statSync(outputPath).size > 0;
+  } catch (error: any) {
+    console.error(`      Thumbnail failed for ${path.basename(inputPath)}: ${error.message}`);
+    return false;
+  }
+}
+
 // ============================================
 // EXTRACT CLIP
 // ============================================
@@ -168,7 +301,7 @@ export async function extractClip(
 }
 
 // ============================================
-// GET VIDEO INFO
+// GET VIDEO / IMAGE INFO
 // ============================================
 
 export async function getVideoDuration(videoPath: string): Promise<number | null> {
@@ -183,6 +316,20 @@ export async function getVideoDuration(videoPath: string): Promise<number | null
   }
 }
 
+// Dimensions of a still image (or the first video stream)
+export async function getImageInfo(imagePath: string): Promise<{ width: number; height: number } | null> {
+  try {
+    const { stdout } = await execPromise(
+      `ffprobe -v error -select_streams v:0 -show_entries stream=width,height -of json "${imagePath}"`
+    );
+    const stream = JSON.parse(stdout).streams?.[0];
+    if (!stream?.width || !stream?.height) return null;
+    return { width: stream.width, height: stream.height };
+  } catch (error) {
+    return null;
+  }
+}
+
 export async function getVideoInfo(videoPath: string): Promise<{
   duration: number;
   width: number;
@@ -0,0 +1,181 @@
+// Image Deduplication
+// Collapses the same picture found through different sources (a Wikimedia
+// photo via SearXNG, Flickr and a museum mirror) into one result
+//
+// Downloads each candidate's thumbnail, fingerprints it with perceptual hashes
+// and keeps the best candidates: every other candidate near-identical to a
+// keeper is listed on it as `duplicates` instead of being returned.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { downloadToFile } from '../utils/download.js';
+import { computeHashes, clusterByHash, HASH_INPUT_SIZE } from '../utils/perceptual-hash.js';
+import { decodeGrayscale } from './ffmpeg.js';
+import type { PerceptualHash } from '../utils/perceptual-hash.js';
+import type { MediaDuplicate } from '../types/models.js';
+
+export interface DedupCandidate {
+  url: string;
+  thumbnail?: string | null;
+  source?: string | null;
+  license?: string | null;
+  priority?: number | null;
+  width?: number | null;
+  height?: number | null;
+}
+
+export type Deduped<T> = T & { phash?: string; duplicates?: MediaDuplicate[] };
+
+export interface DedupOptions {
+  maxDistance?: number;   // Hamming distance (of 64 bits) still counted as the same picture
+  maxImages?: number;     // only the first N candidates are hashed, the rest pass through
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (hashed: number, total: number) => void;
+}
+
+export interface DedupReport {
+  hashed: number;
+  unhashed: number;       // thumbnail missing, unreachable or undecodable - kept as is
+  clusters: number;       // groups with more than one member
+  removed: number;
+}
+
+const DEDUP_MAX_DISTANCE = parseInt(process.env.IMAGE_DEDUP_MAX_DISTANCE || '10');
+const DEDUP_MAX_IMAGES = parseInt(process.env.IMAGE_DEDUP_MAX_IMAGES || '300');
+const DEDUP_CONCURRENCY = parseInt(process.env.IMAGE_DEDUP_CONCURRENCY || '8');
+const THUMBNAIL_MAX_BYTES = 5 * 1024 * 1024;
+
+// Lower is better
+const LICENSE_RANK: Record<string, number> = {
+  public_domain: 0,
+  creative_commons: 1,
+  editorial: 2,
+  mixed: 3,
+  commercial: 4,
+  unknown: 5,
+};
+
+// ============================================
+// DEDUPLICATE
+// ============================================
+
+export async function dedupeImages<T extends DedupCandidate>(
+  images: T[],
+  options: DedupOptions = {}
+): Promise<{ images: Deduped<T>[]; report: DedupReport }> {
+  const {
+    maxDistance = DEDUP_MAX_DISTANCE,
+    maxImages = DEDUP_MAX_IMAGES,
+    concurrency = DEDUP_CONCURRENCY,
+    signal,
+    onProgress,
+  } = options;
+
+  const candidates = images.slice(0, maxImages);
+  const passthrough = images.slice(maxImages);
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mediamind-dedup-'));
+
+  const hashes: (PerceptualHash | null)[] = new Array(candidates.length).fill(null);
+  let done = 0;
+  let next = 0;
+
+  try {
+    // Small worker pool - thumbnails are tiny but there can be hundreds
+    await Promise.all(Array.from({ length: Math.min(concurrency, candidates.length) }, async () => {
+      while (next < candidates.length && !signal?.aborted) {
+        const index = next++;
+        hashes[index] = await hashImage(candidates[index], path.join(workDir, `thumb_${index}`), signal);
+        onProgress?.(++done, candidates.length);
+      }
+    }));
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  // Best first, so each cluster's representative is its keeper
+  const hashedIndexes = hashes.flatMap((hash, i) => (hash ? [i] : []))
+    .sort((a, b) => compareCandidates(candidates[a], candidates[b]) || a - b);
+  const clusters = clusterByHash(hashedIndexes.map(i => hashes[i]!), maxDistance)
+    .map(cluster => cluster.map(i => hashedIndexes[i]));
+
+  // Each cluster is represented by its keeper, placed where its first member was
+  const keeperAt = new Map<number, Deduped<T>>();
+  const dropped = new Set<number>();
+  let duplicateClusters = 0;
+
+  for (const cluster of clusters) {
+    const [keeper, ...others] = cluster;
+    keeperAt.set(Math.min(...cluster), {
+      ...candidates[keeper],
+      phash: hashes[keeper]!.phash,
+      ...(others.length > 0 ? { duplicates: others.map(i => toRef(candidates[i])) } : {}),
+    });
+    for (const i of cluster) dropped.add(i);
+    if (others.length > 0) duplicateClusters++;
+  }
+
+  const result: Deduped<T>[] = [];
+  candidates.forEach((image, i) => {
+    if (keeperAt.has(i)) result.push(keeperAt.get(i)!);
+    else if (!dropped.has(i)) result.push(image);
+  });
+  result.push(...passthrough);
+
+  return {
+    images: result,
+    report: {
+      hashed: hashedIndexes.length,
+      unhashed: candidates.length - hashedIndexes.length,
+      clusters: duplicateClusters,
+      removed: images.length - result.length,
+    },
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function hashImage(image: DedupCandidate, filePath: string, signal?: AbortSignal): Promise<PerceptualHash | null> {
+  try {
+    await downloadToFile(image.thumbnail || image.url, filePath, {
+      maxBytes: THUMBNAIL_MAX_BYTES,
+      allowedContentTypes: ['image/', 'application/octet-stream', 'binary/octet-stream'],
+      timeoutMs: 15000,
+      maxResumes: 0,
+      signal,
+    });
+
+    const pixels = await decodeGrayscale(filePath, HASH_INPUT_SIZE, HASH_INPUT_SIZE);
+    return pixels ? computeHashes(pixels) : null;
+  } catch {
+    return null;
+  } finally {
+    fs.rmSync(filePath, { force: true });
+  }
+}
+
+// Highest resolution first (when both sides report one), then license, then source tier
+function compareCandidates(a: DedupCandidate, b: DedupCandidate): number {
+  const areaA = a.width && a.height ? a.width * a.height : null;
+  const areaB = b.width && b.height ? b.width * b.height : null;
+  if (areaA !== null && areaB !== null && areaA !== areaB) return areaB - areaA;
+
+  const licenseA = LICENSE_RANK[a.license || 'unknown'] ?? LICENSE_RANK.unknown;
+  const licenseB = LICENSE_RANK[b.license || 'unknown'] ?? LICENSE_RANK.unknown;
+  if (licenseA !== licenseB) return licenseA - licenseB;
+
+  return (a.priority ?? 99) - (b.priority ?? 99);
+}
+
+function toRef(image: DedupCandidate): MediaDuplicate {
+  return {
+    url: image.url,
+    source: image.source ?? null,
+    license: image.license ?? null,
+    width: image.width ?? null,
+    height: image.height ?? null,
+  };
+}
@@ -0,0 +1,111 @@
+// Image Ingestion
+// Turns a search hit into a stored image: download, check it really is a
+// decodable image of a useful size, read its metadata, then rehost the
+// original and a thumbnail through the storage layer
+//
+// Stored at images/<project>/<id>.<ext> and images/<project>/<id>_thumb.jpg
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { downloadToFile } from '../utils/download.js';
+import { detectImageFormat, readExifDate, IMAGE_EXTENSIONS } from '../utils/image-metadata.js';
+import { getImageInfo, createThumbnail } from './ffmpeg.js';
+import { uploadToStorage } from './storage.js';
+import type { ImageFormat } from '../utils/image-metadata.js';
+
+export interface IngestedImage {
+  hostedUrl: string;
+  storagePath: string;
+  thumbnailUrl: string | null;   // null when the thumbnail upload failed - the original is still stored
+  thumbnailPath: string | null;
+  width: number;
+  height: number;
+  format: ImageFormat;
+  bytes: number;
+  exifDate: string | null;
+}
+
+export type ImageIngestErrorCode = 'download_failed' | 'not_an_image' | 'undecodable' | 'too_small' | 'upload_failed';
+
+export class ImageIngestError extends Error {
+  constructor(public code: ImageIngestErrorCode, message: string) {
+    super(message);
+    this.name = 'ImageIngestError';
+  }
+}
+
+const IMAGE_MAX_BYTES = parseInt(process.env.IMAGE_MAX_BYTES || String(25 * 1024 * 1024));
+const IMAGE_MIN_WIDTH = parseInt(process.env.IMAGE_MIN_WIDTH || '200');
+const IMAGE_MIN_HEIGHT = parseInt(process.env.IMAGE_MIN_HEIGHT || '200');
+const THUMBNAIL_SIZE = parseInt(process.env.IMAGE_THUMBNAIL_SIZE || '400');
+
+// Image hosts and CDNs that serve everything as a generic binary type
+const IMAGE_CONTENT_TYPES = ['image/', 'application/octet-stream', 'binary/octet-stream'];
+
+// ============================================
+// INGEST
+// ============================================
+
+export async function ingestImage(
+  url: string,
+  projectId: string,
+  imageId: string,
+  signal?: AbortSignal
+): Promise<IngestedImage> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mediamind-image-'));
+  const filePath = path.join(workDir, 'original');
+  const thumbPath = path.join(workDir, 'thumb.jpg');
+
+  try {
+    let bytes: number;
+    try {
+      ({ bytes } = await downloadToFile(url, filePath, {
+        maxBytes: IMAGE_MAX_BYTES,
+        allowedContentTypes: IMAGE_CONTENT_TYPES,
+        timeoutMs: 30000,
+        maxResumes: 1,
+        signal,
+      }));
+    } catch (error: any) {
+      throw new ImageIngestError('download_failed', error.message);
+    }
+
+    // Trust the bytes, not the Content-Type header or the URL's extension
+    const data = await fs.promises.readFile(filePath);
+    const format = detectImageFormat(data);
+    if (!format) throw new ImageIngestError('not_an_image', 'Not a recognised image format');
+
+    const info = await getImageInfo(filePath);
+    if (!info) throw new ImageIngestError('undecodable', `Could not read ${format} dimensions`);
+    if (info.width < IMAGE_MIN_WIDTH || info.height < IMAGE_MIN_HEIGHT) {
+      throw new ImageIngestError('too_small', `${info.width}x${info.height} is below ${IMAGE_MIN_WIDTH}x${IMAGE_MIN_HEIGHT}`);
+    }
+
+    // Producing the thumbnail decodes the whole image - truncated files fail here
+    if (!(await createThumbnail(filePath, thumbPath, THUMBNAIL_SIZE))) {
+      throw new ImageIngestError('undecodable', `Could not decode ${format} image`);
+    }
+
+    const storagePath = `images/${projectId}/${imageId}${IMAGE_EXTENSIONS[format]}`;
+    const hostedUrl = await uploadToStorage(filePath, storagePath, `image/${format}`);
+    if (!hostedUrl) throw new ImageIngestError('upload_failed', 'Storage upload failed');
+
+    const thumbnailPath = `images/${projectId}/${imageId}_thumb.jpg`;
+    const thumbnailUrl = await uploadToStorage(thumbPath, thumbnailPath, 'image/jpeg');
+
+    return {
+      hostedUrl,
+      storagePath,
+      thumbnailUrl,
+      thumbnailPath: thumbnailUrl ? thumbnailPath : null,
+      width: info.width,
+      height: info.height,
+      format,
+      bytes,
+      exifDate: readExifDate(data),
+    };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
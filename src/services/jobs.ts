@@ -0,0 +1,545 @@
+// Job Queue Service
+// Durable background jobs with attempts, leases and automatic resumption on boot
+//
+// Backends:
+//   supabase - `jobs` table (default when Supabase credentials are set)
+//   file     - JSON file on local disk (JOB_STORE=file, for dev / offline)
+//
+// `jobs` table columns: id (uuid), type, project_id, payload (jsonb), status,
+// attempts, max_attempts, run_after, lease_owner, lease_expires_at,
+// last_error, created_at, updated_at, completed_at
+
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job<T = any> {
+  id: string;
+  type: string;
+  project_id: string | null;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface JobStore {
+  name: string;
+  insert(job: Job): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  listByProject(projectId: string): Promise<Job[]>;
+  // Queued jobs that are due, plus running jobs whose lease has expired
+  findClaimable(types: string[], now: string, limit: number): Promise<Job[]>;
+  // Optimistic update: only applies if updated_at still matches (when given)
+  update(id: string, patch: Partial<Job>, expectedUpdatedAt?: string): Promise<Job | null>;
+}
+
+export interface JobContext {
+  // Aborted when the job is cancelled (locally or from another process)
+  signal: AbortSignal;
+}
+
+export type JobHandler<T = any> = (job: Job<T>, ctx: JobContext) => Promise<void>;
+
+interface RegisteredHandler {
+  run: JobHandler;
+  onFailed?: (job: Job, error: string) => Promise<void>;
+}
+
+const JOB_LEASE_MS = parseInt(process.env.JOB_LEASE_MS || '60000');
+const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000');
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2');
+const JOB_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3');
+const JOB_RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '5000');
+const FINISH_WRITE_ATTEMPTS = 3;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// ============================================
+// SUPABASE STORE
+// ============================================
+
+function createSupabaseJobStore(): JobStore {
+  const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_KEY!);
+
+  return {
+    name: 'supabase',
+
+    async insert(job) {
+      const { error } = await supabase.from('jobs').insert(job);
+      if (error) throw new Error(`Job insert failed: ${error.message}`);
+    },
+
+    async get(id) {
+      const { data } = await supabase.from('jobs').select('*').eq('id', id).maybeSingle();
+      return data || null;
+    },
+
+    async listByProject(projectId) {
+      const { data } = await supabase.from('jobs').select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+      return data || [];
+    },
+
+    async findClaimable(types, now, limit) {
+      const { data, error } = await supabase.from('jobs').select('*')
+        .in('type', types)
+        .or(`and(status.eq.queued,run_after.lte.${now}),and(status.eq.running,lease_expires_at.lt.${now})`)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+      if (error) throw new Error(`Job poll failed: ${error.message}`);
+      return data || [];
+    },
+
+    async update(id, patch, expectedUpdatedAt) {
+      let query = supabase.from('jobs').update(patch).eq('id', id);
+      if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+      const { data, error } = await query.select();
+      if (error) throw new Error(`Job update failed: ${error.message}`);
+      return data?.[0] || null;
+    },
+  };
+}
+
+// ============================================
+// FILE STORE (local dev / offline)
+// ============================================
+
+// Re-read on every call: the orchestrator and the legacy service share the
+// default path, so neither may keep a copy in memory. Writes hold a lock file
+// across processes and replace the file by rename, so readers never see half a write.
+const LOCK_WAIT_MS = 5000;
+const LOCK_STALE_MS = 10000;    // left behind by a process that died mid-write
+
+function createFileJobStore(filePath: string): JobStore {
+  const lockPath = `${filePath}.lock`;
+
+  const read = (): Record<string, Job> => {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      return {};
+    }
+  };
+
+  const write = (jobs: Record<string, Job>) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(jobs, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  };
+
+  // Synchronous on purpose: a read-modify-write never yields, in or across processes
+  const locked = <T>(change: () => T): T => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, 'wx'));
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+        try {
+          if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) fs.rmSync(lockPath, { force: true });
+        } catch {
+          // released meanwhile
+        }
+        if (Date.now() > deadline) throw new Error(`Job store is locked (${lockPath})`);
+        Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, 10);
+      }
+    }
+
+    try {
+      return change();
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  };
+
+  return {
+    name: 'file',
+
+    async insert(job) {
+      locked(() => {
+        const jobs = read();
+        jobs[job.id] = job;
+        write(jobs);
+      });
+    },
+
+    async get(id) {
+      return read()[id] || null;
+    },
+
+    async listByProject(projectId) {
+      return Object.values(read())
+        .filter(j => j.project_id === projectId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async findClaimable(types, now, limit) {
+      return Object.values(read())
+        .filter(j => types.includes(j.type))
+        .filter(j =>
+          (j.status === 'queued' && j.run_after <= now) ||
+          (j.status === 'running' && !!j.lease_expires_at && j.lease_expires_at < now)
+        )
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .slice(0, limit);
+    },
+
+    async update(id, patch, expectedUpdatedAt) {
+      return locked(() => {
+        const jobs = read();
+        const job = jobs[id];
+        if (!job) return null;
+        if (expectedUpdatedAt && job.updated_at !== expectedUpdatedAt) return null;
+        jobs[id] = { ...job, ...patch };
+        write(jobs);
+        return jobs[id];
+      });
+    },
+  };
+}
+
+// ============================================
+// STORE SELECTION
+// ============================================
+
+let store: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (!store) {
+    const backend = process.env.JOB_STORE
+      || (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY ? 'supabase' : 'file');
+
+    store = backend === 'file'
+      ? createFileJobStore(process.env.JOB_STORE_PATH || '/tmp/mediamind/jobs.json')
+      : createSupabaseJobStore();
+
+    console.log(`[Jobs] Using ${store.name} job store`);
+  }
+  return store;
+}
+
+// Swap the backend (e.g. a custom store for another database)
+export function setJobStore(custom: JobStore): void {
+  store = custom;
+}
+
+// ============================================
+// ENQUEUE / QUERY
+// ============================================
+
+export async function enqueueJob<T>(
+  type: string,
+  payload: T,
+  options: { projectId?: string; maxAttempts?: number; delayMs?: number } = {}
+): Promise<Job<T>> {
+  const now = new Date();
+  const job: Job<T> = {
+    id: uuidv4(),
+    type,
+    project_id: options.projectId || null,
+    payload,
+    status: 'queued',
+    attempts: 0,
+    max_attempts: options.maxAttempts || JOB_MAX_ATTEMPTS,
+    run_after: new Date(now.getTime() + (options.delayMs || 0)).toISOString(),
+    lease_owner: null,
+    lease_expires_at: null,
+    last_error: null,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    completed_at: null,
+  };
+
+  await getJobStore().insert(job);
+  console.log(`[Jobs] Enqueued ${type} job ${job.id}${job.project_id ? ` (project ${job.project_id})` : ''}`);
+  return job;
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  return getJobStore().get(id);
+}
+
+export async function getProjectJobs(projectId: string): Promise<Job[]> {
+  return getJobStore().listByProject(projectId);
+}
+
+// Cancel a queued or running job. A running handler sees its signal abort -
+// immediately in this process, or on its next heartbeat in another one.
+export async function cancelJob(id: string, reason: string = 'Cancelled by user'): Promise<boolean> {
+  const job = await getJobStore().get(id);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) return false;
+
+  const now = new Date().toISOString();
+  const cancelled = await getJobStore().update(id, {
+    status: 'cancelled',
+    last_error: reason,
+    lease_owner: null,
+    lease_expires_at: null,
+    updated_at: now,
+    completed_at: now,
+  }, job.updated_at);
+
+  if (!cancelled) return false;
+
+  jobControllers.get(id)?.abort();
+  console.log(`[Jobs] Cancelled ${job.type} job ${id}`);
+  return true;
+}
+
+export async function cancelProjectJobs(projectId: string, reason?: string): Promise<number> {
+  const jobs = await getJobStore().listByProject(projectId);
+  let cancelled = 0;
+  for (const job of jobs) {
+    if (await cancelJob(job.id, reason)) cancelled++;
+  }
+  return cancelled;
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+const handlers = new Map<string, RegisteredHandler>();
+const runningJobs = new Set<string>();
+const jobControllers = new Map<string, AbortController>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+export function registerJobHandler<T = any>(
+  type: string,
+  run: JobHandler<T>,
+  options: { onFailed?: (job: Job<T>, error: string) => Promise<void> } = {}
+): void {
+  handlers.set(type, { run, onFailed: options.onFailed });
+}
+
+// Start polling for jobs of every registered type. Jobs left `running` by a
+// previous process are picked up again once their lease expires.
+export function startJobRunner(): void {
+  if (pollTimer) return;
+
+  console.log(`[Jobs] Runner ${WORKER_ID} started (types: ${[...handlers.keys()].join(', ')}, concurrency: ${JOB_CONCURRENCY})`);
+
+  pollTimer = setInterval(() => {
+    pollJobs().catch((e: any) => console.error(`[Jobs] Poll error: ${e.message}`));
+  }, JOB_POLL_INTERVAL_MS);
+
+  pollJobs().catch((e: any) => console.error(`[Jobs] Poll error: ${e.message}`));
+}
+
+export function stopJobRunner(): void {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+}
+
+async function pollJobs(): Promise<void> {
+  if (polling) return;
+  const capacity = JOB_CONCURRENCY - runningJobs.size;
+  if (capacity <= 0 || handlers.size === 0) return;
+
+  polling = true;
+  try {
+    const now = new Date().toISOString();
+    const candidates = await getJobStore().findClaimable([...handlers.keys()], now, capacity);
+
+    for (const candidate of candidates) {
+      if (runningJobs.has(candidate.id)) continue;
+      const claimed = await claimJob(candidate);
+      if (claimed) {
+        runningJobs.add(claimed.id);
+        executeJob(claimed)
+          .catch((e: any) => console.error(`[Jobs] ${claimed.type} job ${claimed.id} crashed: ${e.message}`))
+          .finally(() => {
+            runningJobs.delete(claimed.id);
+            jobControllers.delete(claimed.id);
+          });
+      }
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+async function claimJob(job: Job): Promise<Job | null> {
+  const now = new Date();
+
+  // A job whose lease expired on its final attempt is not resumed again
+  if (job.status === 'running' && job.attempts >= job.max_attempts) {
+    const reason = job.last_error || `Lease expired after ${job.attempts} attempt(s) (worker ${job.lease_owner} lost)`;
+    const failed = await getJobStore().update(job.id, {
+      status: 'failed',
+      last_error: reason,
+      lease_owner: null,
+      lease_expires_at: null,
+      updated_at: now.toISOString(),
+      completed_at: now.toISOString(),
+    }, job.updated_at);
+    if (failed) await notifyFailed(failed, reason);
+    return null;
+  }
+
+  if (job.status === 'running') {
+    console.log(`[Jobs] Resuming ${job.type} job ${job.id} (lease held by ${job.lease_owner} expired)`);
+  }
+
+  return getJobStore().update(job.id, {
+    status: 'running',
+    attempts: job.attempts + 1,
+    lease_owner: WORKER_ID,
+    lease_expires_at: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+    updated_at: now.toISOString(),
+  }, job.updated_at);
+}
+
+async function executeJob(job: Job): Promise<void> {
+  const handler = handlers.get(job.type)!;
+  const controller = new AbortController();
+  jobControllers.set(job.id, controller);
+  let current = job;
+  let leaseLost = false;
+  let beat: Promise<void> = Promise.resolve();
+
+  // Keep the lease alive while the handler runs. A failed conditional update
+  // means someone else changed the row: a cancellation aborts the handler, a
+  // new lease owner means this run's result must not be written.
+  const renewLease = async () => {
+    try {
+      const now = new Date();
+      const renewed = await getJobStore().update(current.id, {
+        lease_expires_at: new Date(now.getTime() + JOB_LEASE_MS).toISOString(),
+        updated_at: now.toISOString(),
+      }, current.updated_at);
+      if (renewed) {
+        current = renewed;
+        return;
+      }
+      const latest = await getJobStore().get(current.id);
+      if (latest?.status === 'cancelled') {
+        controller.abort();
+      } else if (!latest || latest.lease_owner !== WORKER_ID) {
+        leaseLost = true;
+        console.warn(`[Jobs] Lost the lease on ${current.id} (now held by ${latest?.lease_owner ?? 'nobody'})`);
+      } else {
+        current = latest;
+      }
+    } catch (e: any) {
+      console.error(`[Jobs] Heartbeat failed for ${current.id}: ${e.message}`);
+    }
+  };
+  const heartbeat = setInterval(() => {
+    if (!leaseLost) beat = beat.then(renewLease);
+  }, Math.floor(JOB_LEASE_MS / 3));
+
+  console.log(`[Jobs] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  let failure: string | null = null;
+  try {
+    await handler.run(job, { signal: controller.signal });
+  } catch (error: any) {
+    failure = error?.message || String(error);
+  } finally {
+    clearInterval(heartbeat);
+    // A renewal still in flight would move updated_at under the final write
+    await beat;
+  }
+
+  // Cancelled jobs keep their `cancelled` status
+  if (controller.signal.aborted || await wasCancelled(job.id)) {
+    console.log(`[Jobs] ${job.type} job ${job.id} stopped after cancellation${failure ? `: ${failure}` : ''}`);
+    return;
+  }
+  if (leaseLost) {
+    console.warn(`[Jobs] ${job.type} job ${job.id} finished after losing its lease - result discarded`);
+    return;
+  }
+
+  const now = new Date();
+
+  if (failure === null) {
+    // The work is done: a failed write is retried, never the handler
+    const completed = await finishJob(current, {
+      status: 'completed',
+      lease_owner: null,
+      lease_expires_at: null,
+      last_error: null,
+      updated_at: now.toISOString(),
+      completed_at: now.toISOString(),
+    });
+    if (completed) console.log(`[Jobs] Completed ${job.type} job ${job.id}`);
+    return;
+  }
+
+  if (job.attempts < job.max_attempts) {
+    const backoffMs = JOB_RETRY_BASE_MS * Math.pow(2, job.attempts - 1);
+    const requeued = await finishJob(current, {
+      status: 'queued',
+      run_after: new Date(now.getTime() + backoffMs).toISOString(),
+      lease_owner: null,
+      lease_expires_at: null,
+      last_error: failure,
+      updated_at: now.toISOString(),
+    });
+    if (requeued) console.warn(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${backoffMs}ms: ${failure}`);
+  } else {
+    const failed = await finishJob(current, {
+      status: 'failed',
+      lease_owner: null,
+      lease_expires_at: null,
+      last_error: failure,
+      updated_at: now.toISOString(),
+      completed_at: now.toISOString(),
+    });
+    console.error(`[Jobs] ${job.type} job ${job.id} failed permanently: ${failure}`);
+    if (failed) await notifyFailed(failed, failure);
+  }
+}
+
+// Writes a job's final state if this runner still holds the row. Store errors
+// are retried a few times; if they persist the lease expires and the job is
+// picked up again. Never throws.
+async function finishJob(current: Job, patch: Partial<Job>): Promise<Job | null> {
+  for (let attempt = 1; attempt <= FINISH_WRITE_ATTEMPTS; attempt++) {
+    try {
+      const updated = await getJobStore().update(current.id, patch, current.updated_at);
+      if (!updated) console.warn(`[Jobs] ${current.type} job ${current.id} changed by another runner - final state not written`);
+      return updated;
+    } catch (e: any) {
+      console.error(`[Jobs] Could not write final state of ${current.id} (attempt ${attempt}/${FINISH_WRITE_ATTEMPTS}): ${e.message}`);
+      if (attempt < FINISH_WRITE_ATTEMPTS) await new Promise(resolve => setTimeout(resolve, JOB_RETRY_BASE_MS * attempt));
+    }
+  }
+  return null;
+}
+
+// Cancellation from another process may land between heartbeats
+async function wasCancelled(id: string): Promise<boolean> {
+  const latest = await getJobStore().get(id).catch(() => null);
+  return latest?.status === 'cancelled';
+}
+
+async function notifyFailed(job: Job, error: string): Promise<void> {
+  const handler = handlers.get(job.type);
+  if (!handler?.onFailed) return;
+  try {
+    await handler.onFailed(job, error);
+  } catch (e: any) {
+    console.error(`[Jobs] onFailed hook error for ${job.id}: ${e.message}`);
+  }
+}
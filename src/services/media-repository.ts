@@ -0,0 +1,333 @@
+// Media Repository
+// Single place that reads and writes `media`, `clips` and `transcripts` rows
+//
+// Writes are batched upserts on (project_id, source_url), which needs a
+// unique constraint on those columns in the `media` table. Existing ids are
+// reused so clips keep pointing at the right media row when a project is re-run.
+
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import type { Clip, MediaItem, MediaMetadata, MediaType, NewMediaItem, ProjectResults, Transcript } from '../types/models.js';
+
+const MEDIA_BATCH_SIZE = parseInt(process.env.MEDIA_BATCH_SIZE || '100');
+
+let supabase: any = null;
+try {
+  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY) {
+    supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
+  }
+} catch (e: any) {
+  console.error('[Media] Supabase init error:', e.message);
+}
+
+function requireClient() {
+  if (!supabase) throw new Error('Supabase credentials missing');
+  return supabase;
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+const EMPTY_METADATA: MediaMetadata = {
+  thumbnail: null,
+  priority: null,
+  license: null,
+  license_url: null,
+  snippet: null,
+  date: null,
+  duration: null,
+  creator: null,
+  collection: null,
+  width: null,
+  height: null,
+  format: null,
+  bytes: null,
+  exif_date: null,
+  page_type: null,
+  needs_download: false,
+  partial: false,
+  relevance_score: null,
+  relevance_description: null,
+  phash: null,
+  duplicates: null,
+  fingerprint: null,
+  duplicate_of: null,
+};
+
+// Also maps the keys older rows were written with
+export function normalizeMetadata(raw: Record<string, any> | null | undefined): MediaMetadata {
+  const metadata: MediaMetadata = { ...EMPTY_METADATA };
+  if (!raw) return metadata;
+
+  for (const key of Object.keys(EMPTY_METADATA) as (keyof MediaMetadata)[]) {
+    if (raw[key] !== undefined && raw[key] !== null) (metadata as any)[key] = raw[key];
+  }
+  if (!metadata.page_type && typeof raw.type === 'string') metadata.page_type = raw.type;
+
+  return metadata;
+}
+
+export function toMediaItem(row: any): MediaItem {
+  return {
+    id: row.id,
+    project_id: row.project_id,
+    type: row.type,
+    title: row.title ?? null,
+    source: row.source ?? null,
+    source_url: row.source_url,
+    hosted_url: row.hosted_url || row.source_url,
+    storage_path: row.storage_path ?? null,
+    metadata: normalizeMetadata(row.metadata),
+    created_at: row.created_at,
+  };
+}
+
+function buildMediaRow(item: NewMediaItem): MediaItem {
+  return {
+    id: item.id || uuidv4(),
+    project_id: item.project_id,
+    type: item.type,
+    title: item.title ?? null,
+    source: item.source ?? null,
+    source_url: item.source_url,
+    hosted_url: item.hosted_url || item.source_url,
+    storage_path: item.storage_path ?? null,
+    metadata: normalizeMetadata(item.metadata),
+  };
+}
+
+// ============================================
+// WRITES
+// ============================================
+
+// Outcome of a save, reported back to the orchestrator per worker
+export interface SaveReport {
+  inserted: number;     // new rows
+  duplicates: number;   // already stored for this project (updated in place) or repeated in the input
+  failed: number;
+  errors: string[];     // first few distinct error messages
+}
+
+export interface SaveResult {
+  saved: MediaItem[];
+  report: SaveReport;
+}
+
+const MAX_REPORTED_ERRORS = 5;
+
+export function emptySaveReport(): SaveReport {
+  return { inserted: 0, duplicates: 0, failed: 0, errors: [] };
+}
+
+export function mergeSaveReports(target: SaveReport, other: SaveReport): SaveReport {
+  target.inserted += other.inserted;
+  target.duplicates += other.duplicates;
+  target.failed += other.failed;
+  for (const error of other.errors) {
+    if (target.errors.length < MAX_REPORTED_ERRORS && !target.errors.includes(error)) target.errors.push(error);
+  }
+  return target;
+}
+
+function recordError(report: SaveReport, message: string) {
+  if (report.errors.length < MAX_REPORTED_ERRORS && !report.errors.includes(message)) report.errors.push(message);
+}
+
+// Chunked upsert. A chunk that fails as a whole is retried row by row so one
+// bad row doesn't cost the other MEDIA_BATCH_SIZE - 1.
+export async function saveMediaItems(items: NewMediaItem[]): Promise<SaveResult> {
+  const client = requireClient();
+  const report = emptySaveReport();
+
+  // Last one wins within a call, same as the upsert would
+  const byKey = new Map<string, MediaItem>();
+  const supplied = new Map<MediaItem, Partial<MediaMetadata>>();
+  for (const item of items) {
+    if (!item.source_url) {
+      report.failed++;
+      recordError(report, 'missing source_url');
+      continue;
+    }
+    const row = buildMediaRow(item);
+    const key = `${row.project_id}|${row.source_url}`;
+    if (byKey.has(key)) report.duplicates++;
+    byKey.set(key, row);
+    supplied.set(row, item.metadata || {});
+  }
+  const rows = [...byKey.values()];
+
+  const saved: MediaItem[] = [];
+  for (let i = 0; i < rows.length; i += MEDIA_BATCH_SIZE) {
+    const chunk = rows.slice(i, i + MEDIA_BATCH_SIZE);
+
+    let existing: Set<string>;
+    try {
+      existing = await reuseExistingRows(chunk, supplied);
+    } catch (error: any) {
+      report.failed += chunk.length;
+      recordError(report, error.message);
+      console.error(`[Media] Chunk of ${chunk.length} failed: ${error.message}`);
+      continue;
+    }
+
+    const count = (written: MediaItem[]) => {
+      for (const row of written) {
+        if (existing.has(row.id)) report.duplicates++;
+        else report.inserted++;
+      }
+      saved.push(...written);
+    };
+
+    const { error } = await client.from('media').upsert(chunk, { onConflict: 'project_id,source_url' });
+    if (!error) {
+      count(chunk);
+      continue;
+    }
+
+    console.error(`[Media] Chunk of ${chunk.length} failed (${error.message}), retrying rows one by one`);
+    for (const row of chunk) {
+      const { error: rowError } = await client.from('media').upsert(row, { onConflict: 'project_id,source_url' });
+      if (rowError) {
+        report.failed++;
+        recordError(report, rowError.message);
+      } else {
+        count([row]);
+      }
+    }
+  }
+
+  return { saved, report };
+}
+
+export async function saveMediaItem(item: NewMediaItem): Promise<SaveResult & { item: MediaItem | null }> {
+  const result = await saveMediaItems([item]);
+  return { ...result, item: result.saved[0] || null };
+}
+
+// Rows already stored for these URLs keep their id, their stored copy and the
+// metadata later passes wrote (fingerprint, phash, relevance, ...) - only keys
+// this save sets replace stored ones. Returns the ids that already existed.
+async function reuseExistingRows(batch: MediaItem[], supplied: Map<MediaItem, Partial<MediaMetadata>>): Promise<Set<string>> {
+  const existingIds = new Set<string>();
+  const projectIds = [...new Set(batch.map(r => r.project_id))];
+
+  for (const projectId of projectIds) {
+    const urls = batch.filter(r => r.project_id === projectId).map(r => r.source_url);
+    const { data, error } = await requireClient()
+      .from('media')
+      .select('id, source_url, hosted_url, storage_path, metadata')
+      .eq('project_id', projectId)
+      .in('source_url', urls);
+
+    if (error) throw new Error(error.message);
+
+    const existing = new Map<string, any>((data || []).map((r: any) => [r.source_url, r]));
+    for (const row of batch) {
+      const stored = row.project_id === projectId ? existing.get(row.source_url) : undefined;
+      if (!stored) continue;
+      row.id = stored.id;
+      row.metadata = mergeMetadata(stored.metadata, supplied.get(row) || {});
+      // A rehosted copy stays until a save brings a new one
+      if (!row.storage_path && stored.storage_path) {
+        row.storage_path = stored.storage_path;
+        row.hosted_url = stored.hosted_url;
+      }
+      existingIds.add(row.id);
+    }
+  }
+
+  return existingIds;
+}
+
+// Unknown (null) values in the new save don't wipe what is stored
+function mergeMetadata(stored: any, patch: Partial<MediaMetadata>): MediaMetadata {
+  const known = Object.fromEntries(Object.entries(patch).filter(([, value]) => value !== undefined && value !== null));
+  return normalizeMetadata({ ...normalizeMetadata(stored), ...known });
+}
+
+export async function saveClip(clip: Omit<Clip, 'id' | 'created_at'> & { id?: string }): Promise<Clip> {
+  const row: Clip = {
+    id: clip.id || uuidv4(),
+    project_id: clip.project_id ?? null,
+    media_id: clip.media_id ?? null,
+    start_time: clip.start_time,
+    end_time: clip.end_time,
+    hosted_url: clip.hosted_url,
+    storage_path: clip.storage_path ?? null,
+    description: clip.description ?? null,
+    relevance_score: clip.relevance_score ?? null,
+  };
+
+  const { error } = await requireClient().from('clips').insert(row);
+  if (error) throw new Error(error.message);
+  return row;
+}
+
+// Merges into the stored metadata; other keys are left as they are
+export async function updateMediaMetadata(id: string, patch: Partial<MediaMetadata>): Promise<MediaItem> {
+  const client = requireClient();
+  const { data: row, error: readError } = await client.from('media').select('metadata').eq('id', id).single();
+  if (readError) throw new Error(readError.message);
+
+  const metadata: MediaMetadata = { ...normalizeMetadata(row.metadata), ...patch };
+  const { data, error } = await client.from('media').update({ metadata }).eq('id', id).select().single();
+  if (error) throw new Error(error.message);
+  return toMediaItem(data);
+}
+
+// ============================================
+// READS
+// ============================================
+
+export async function getProjectResults(projectId: string): Promise<ProjectResults> {
+  const client = requireClient();
+
+  const { data: mediaRows } = await client.from('media').select('*').eq('project_id', projectId);
+  const { data: clipRows } = await client.from('clips').select('*').eq('project_id', projectId);
+
+  const media: MediaItem[] = (mediaRows || []).map(toMediaItem);
+  const clips: Clip[] = clipRows || [];
+
+  return {
+    images: media.filter(m => m.type === 'image'),
+    videos: media.filter(m => m.type === 'video').map(v => ({
+      ...v,
+      clips: clips.filter(c => c.media_id === v.id),
+    })),
+    webContent: media.filter(m => m.type === 'newspaper_scan' || m.type === 'article_screenshot'),
+  };
+}
+
+export async function getMediaItem(id: string): Promise<MediaItem | null> {
+  const { data } = await requireClient().from('media').select('*').eq('id', id).maybeSingle();
+  return data ? toMediaItem(data) : null;
+}
+
+export async function getProjectMedia(projectId: string, type: MediaType): Promise<MediaItem[]> {
+  const { data, error } = await requireClient().from('media').select('*').eq('project_id', projectId).eq('type', type);
+  if (error) throw new Error(error.message);
+  return (data || []).map(toMediaItem);
+}
+
+// ============================================
+// TRANSCRIPTS
+// ============================================
+
+// One transcript per video - re-transcribing replaces the previous one
+export async function saveTranscript(transcript: Omit<Transcript, 'created_at' | 'updated_at'>): Promise<Transcript> {
+  const row = { ...transcript, updated_at: new Date().toISOString() };
+
+  const { data, error } = await requireClient()
+    .from('transcripts')
+    .upsert(row, { onConflict: 'media_id' })
+    .select()
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function getTranscript(mediaId: string): Promise<Transcript | null> {
+  const { data } = await requireClient().from('transcripts').select('*').eq('media_id', mediaId).maybeSingle();
+  return data || null;
+}
@@ -1,11 +1,22 @@
 // Modal Services
 // Connects to Qwen2-VL and Whisper deployed on Modal
+// Endpoints, auth headers and timeouts come from the provider registry (providers.ts)
 
 import axios from 'axios';
+import { getProviderConfig, checkProviderHealth } from './providers.js';
 
-// Modal endpoints
-const QWEN_ENDPOINT = 'https://advancedtechhd-a11y--qwen-vision-analyze.modal.run';
-const WHISPER_ENDPOINT = 'https://advancedtechhd-a11y--whisper-transcribe-transcribe.modal.run';
+// Endpoint, headers and timeout for a Modal app - throws when it isn't configured
+function modalEndpoint(name: 'modal-qwen' | 'modal-whisper') {
+  const provider = getProviderConfig(name);
+  if (!provider.baseUrl) {
+    throw new Error(`${name} is not configured (set ${name === 'modal-qwen' ? 'MODAL_QWEN_URL' : 'MODAL_WHISPER_URL'})`);
+  }
+  return {
+    url: provider.baseUrl,
+    timeout: provider.timeoutMs,
+    headers: { 'Content-Type': 'application/json', ...provider.headers },
+  };
+}
 
 // ============================================
 // QWEN IMAGE ANALYSIS (97% cheaper than Claude)
@@ -35,16 +46,14 @@ export async function analyzeImageWithQwen(
   topic: string
 ): Promise<QwenImageResult> {
   try {
+    const { url, timeout, headers } = modalEndpoint('modal-qwen');
     const response = await axios.post(
-      QWEN_ENDPOINT,
+      url,
       {
         topic,
         image_url: imageUrl,
       },
-      {
-        timeout: 60000, // 60s timeout
-        headers: { 'Content-Type': 'application/json' },
-      }
+      { timeout, headers }
     );
 
     return {
@@ -73,16 +82,14 @@ export async function analyzeImageBatchWithQwen(
   topic: string
 ): Promise<QwenBatchResult[]> {
   try {
+    const { url, timeout, headers } = modalEndpoint('modal-qwen');
     const response = await axios.post(
-      QWEN_ENDPOINT,
+      url,
       {
         topic,
         images: images,
       },
-      {
-        timeout: 300000, // 5 min for batch
-        headers: { 'Content-Type': 'application/json' },
-      }
+      { timeout: timeout * 5, headers } // batches get 5x the single-image timeout
     );
 
     return response.data.results || [];
@@ -128,16 +135,14 @@ export async function transcribeWithModalWhisper(
   language?: string
 ): Promise<WhisperResult> {
   try {
+    const { url, timeout, headers } = modalEndpoint('modal-whisper');
     const response = await axios.post(
-      WHISPER_ENDPOINT,
+      url,
       {
         audio_url: audioUrl,
         language,
       },
-      {
-        timeout: 600000, // 10 min for long videos
-        headers: { 'Content-Type': 'application/json' },
-      }
+      { timeout, headers }
     );
 
     return response.data;
@@ -157,17 +162,15 @@ export async function findRelevantSegmentsWithWhisper(
   language?: string
 ): Promise<WhisperResult> {
   try {
+    const { url, timeout, headers } = modalEndpoint('modal-whisper');
     const response = await axios.post(
-      WHISPER_ENDPOINT,
+      url,
       {
         audio_url: audioUrl,
         topic,
         language,
       },
-      {
-        timeout: 600000, // 10 min
-        headers: { 'Content-Type': 'application/json' },
-      }
+      { timeout, headers }
     );
 
     return response.data;
@@ -182,25 +185,9 @@ export async function findRelevantSegmentsWithWhisper(
 // ============================================
 
 export async function checkQwenHealth(): Promise<boolean> {
-  try {
-    const response = await axios.get(
-      'https://advancedtechhd-a11y--qwen-vision-health.modal.run',
-      { timeout: 10000 }
-    );
-    return response.data.status === 'ok';
-  } catch {
-    return false;
-  }
+  return (await checkProviderHealth(getProviderConfig('modal-qwen'))) === 'ok';
 }
 
 export async function checkWhisperHealth(): Promise<boolean> {
-  try {
-    const response = await axios.get(
-      'https://advancedtechhd-a11y--whisper-transcribe-health.modal.run',
-      { timeout: 10000 }
-    );
-    return response.data.status === 'ok';
-  } catch {
-    return false;
-  }
+  return (await checkProviderHealth(getProviderConfig('modal-whisper'))) === 'ok';
 }
@@ -2,6 +2,7 @@
 // Searches Library of Congress, Archive.org, and Europeana for newspaper scans
 
 import axios from 'axios';
+import { searchArchive, fetchArchiveItems, selectArchiveFile, archiveDownloadUrl } from './archive-org.js';
 
 interface NewspaperResult {
   url: string;
@@ -87,38 +88,22 @@ async function searchArchiveNewspapers(
   maxResults: number = 5
 ): Promise<NewspaperResult[]> {
   try {
-    const searchUrl = `https://archive.org/advancedsearch.php?q=${encodeURIComponent(topic)}+collection:newspapers&fl=identifier,title,date,description&rows=${maxResults}&output=json`;
-
-    const response = await axios.get(searchUrl, { timeout: 15000 });
-    const items = response.data?.response?.docs || [];
+    const docs = await searchArchive(topic, { collection: 'newspapers', limit: maxResults, timeoutMs: 15000 });
+    const items = await fetchArchiveItems(docs.map(doc => doc.identifier), { timeoutMs: 10000 });
 
     const results: NewspaperResult[] = [];
 
-    for (const item of items) {
-      try {
-        // Get metadata to find image files
-        const metaResponse = await axios.get(
-          `https://archive.org/metadata/${item.identifier}`,
-          { timeout: 10000 }
-        );
-
-        const files = metaResponse.data?.files || [];
-        const imageFile = files.find((f: any) =>
-          f.name?.match(/\.(jpg|jpeg|png|gif)$/i) && !f.name?.includes('thumb')
-        );
-
-        if (imageFile) {
-          results.push({
-            url: `https://archive.org/download/${item.identifier}/${imageFile.name}`,
-            title: item.title || 'Historical Newspaper',
-            source: 'Archive.org',
-            date: item.date,
-          });
-        }
-      } catch (e) {
-        // Skip items with errors
-      }
-    }
+    items.forEach((item, i) => {
+      const imageFile = item && selectArchiveFile(item.files, { extensions: ['jpg', 'jpeg', 'png', 'gif'], exclude: /thumb/i });
+      if (!item || !imageFile) return;
+
+      results.push({
+        url: archiveDownloadUrl(item.identifier, imageFile.name),
+        title: item.title || docs[i].title || 'Historical Newspaper',
+        source: 'Archive.org',
+        date: item.date || docs[i].date || undefined,
+      });
+    });
 
     console.log(`   [Archive.org] Found ${results.length} newspaper scans`);
     return results;
@@ -0,0 +1,90 @@
+// Project Events Service
+// In-memory event bus behind the orchestrator's SSE stream
+//
+// Keeps a short history per project so clients that connect late (or
+// reconnect with Last-Event-ID) can replay what they missed. History goes some
+// time after the run ends, or after IDLE_TTL_MS without events for runs that
+// never finished (crashed orchestrator step, dead worker).
+
+import { EventEmitter } from 'events';
+import type { ProjectEvent, ProgressSource } from '../utils/progress.js';
+
+const MAX_EVENTS_PER_PROJECT = parseInt(process.env.PROJECT_EVENTS_HISTORY || '500');
+const HISTORY_TTL_MS = 30 * 60 * 1000; // keep finished projects' history for 30 minutes
+const IDLE_TTL_MS = parseInt(process.env.PROJECT_EVENTS_IDLE_TTL_MS || String(6 * 60 * 60 * 1000));
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Phases that end a research run - subscribers can close their stream
+export const TERMINAL_PHASES = ['project_completed', 'project_partial', 'project_failed', 'project_cancelled'];
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const history = new Map<string, ProjectEvent[]>();
+const expiryTimers = new Map<string, NodeJS.Timeout>();
+const lastEventAt = new Map<string, number>();
+let nextEventId = 1;
+
+setInterval(sweepIdleHistory, SWEEP_INTERVAL_MS).unref();
+
+// ============================================
+// PUBLISH
+// ============================================
+
+export function publishProjectEvent(event: ProjectEvent): ProjectEvent {
+  const stored: ProjectEvent = { ...event, id: nextEventId++ };
+
+  const events = history.get(event.projectId) || [];
+  events.push(stored);
+  if (events.length > MAX_EVENTS_PER_PROJECT) events.shift();
+  history.set(event.projectId, events);
+  lastEventAt.set(event.projectId, Date.now());
+
+  // Drop history some time after the run ends; a later event (the project is
+  // researched again) keeps it, until the idle sweep
+  clearTimeout(expiryTimers.get(event.projectId));
+  expiryTimers.delete(event.projectId);
+  if (TERMINAL_PHASES.includes(event.phase)) {
+    expiryTimers.set(event.projectId, setTimeout(() => dropHistory(event.projectId), HISTORY_TTL_MS).unref());
+  }
+
+  emitter.emit(event.projectId, stored);
+  return stored;
+}
+
+function dropHistory(projectId: string): void {
+  clearTimeout(expiryTimers.get(projectId));
+  expiryTimers.delete(projectId);
+  history.delete(projectId);
+  lastEventAt.delete(projectId);
+}
+
+function sweepIdleHistory(): void {
+  const cutoff = Date.now() - IDLE_TTL_MS;
+  for (const [projectId, at] of lastEventAt) {
+    if (at < cutoff) dropHistory(projectId);
+  }
+}
+
+// Convenience wrapper for events raised inside the orchestrator itself
+export function emitProjectEvent(
+  projectId: string,
+  phase: string,
+  data: Record<string, any> = {},
+  worker: ProgressSource = 'orchestrator'
+): void {
+  publishProjectEvent({ projectId, worker, phase, data, timestamp: new Date().toISOString() });
+}
+
+// ============================================
+// SUBSCRIBE
+// ============================================
+
+export function getProjectEventHistory(projectId: string, afterId: number = 0): ProjectEvent[] {
+  return (history.get(projectId) || []).filter(e => (e.id || 0) > afterId);
+}
+
+export function subscribeProjectEvents(projectId: string, listener: (event: ProjectEvent) => void): () => void {
+  emitter.on(projectId, listener);
+  return () => emitter.off(projectId, listener);
+}
@@ -0,0 +1,249 @@
+// Provider Registry
+// Which backends handle image relevance (vision) and URL transcription (asr),
+// how to reach them, and the order they are tried in.
+//
+// Fallback order (first configured provider that succeeds wins):
+//   VISION_PROVIDERS  default modal-qwen,claude  (claude only when USE_QWEN_FOR_IMAGES=false)
+//   ASR_PROVIDERS     default modal-whisper,openai-whisper,local-whisper  (no modal-whisper when USE_MODAL_WHISPER=false)
+//
+// ASR providers serve transcribeFromUrl. Local files (e.g. in the ffmpeg worker)
+// go through WHISPER_BACKEND in whisper.ts instead.
+//
+// Per-provider settings:
+//   modal-qwen        MODAL_QWEN_URL, MODAL_QWEN_HEALTH_URL, MODAL_QWEN_TIMEOUT_MS
+//   modal-whisper     MODAL_WHISPER_URL, MODAL_WHISPER_HEALTH_URL, MODAL_WHISPER_TIMEOUT_MS
+//   Modal proxy auth  MODAL_KEY / MODAL_SECRET (sent as Modal-Key / Modal-Secret)
+//   claude            ANTHROPIC_API_KEY
+//   openai-whisper    OPENAI_API_KEY
+//   local-whisper     see WHISPER_LOCAL_ENGINE in whisper.ts
+//   mock              canned results, for dev and tests
+//
+// PROVIDERS_CONFIG may point at a JSON file that overrides any of the above:
+//   { "vision": ["claude"], "providers": { "modal-qwen": { "baseUrl": "...", "headers": {...}, "timeoutMs": 30000 } } }
+
+import axios from 'axios';
+import fs from 'fs';
+
+export type ProviderKind = 'vision' | 'asr';
+
+export type ProviderName =
+  | 'modal-qwen'
+  | 'claude'
+  | 'modal-whisper'
+  | 'openai-whisper'
+  | 'local-whisper'
+  | 'mock';
+
+export interface ProviderConfig {
+  name: ProviderName;
+  kinds: ProviderKind[];
+  baseUrl: string | null;
+  healthUrl: string | null;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  // Credentials / URLs present - unconfigured providers are skipped
+  configured: boolean;
+}
+
+export type ProviderStatus = 'ok' | 'offline' | 'configured' | 'not_configured';
+
+interface ProvidersFile {
+  vision?: string[];
+  asr?: string[];
+  providers?: Record<string, Partial<Pick<ProviderConfig, 'baseUrl' | 'healthUrl' | 'headers' | 'timeoutMs'>>>;
+}
+
+const PROVIDER_KINDS: Record<ProviderName, ProviderKind[]> = {
+  'modal-qwen': ['vision'],
+  'claude': ['vision'],
+  'modal-whisper': ['asr'],
+  'openai-whisper': ['asr'],
+  'local-whisper': ['asr'],
+  'mock': ['vision', 'asr'],
+};
+
+let registry: { providers: Map<ProviderName, ProviderConfig>; order: Record<ProviderKind, ProviderName[]> } | null = null;
+
+// ============================================
+// CONFIG LOADING
+// ============================================
+
+function readProvidersFile(): ProvidersFile {
+  const file = process.env.PROVIDERS_CONFIG;
+  if (!file) return {};
+
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    console.error(`[Providers] Could not read ${file}: ${error.message}`);
+    return {};
+  }
+}
+
+function modalHeaders(): Record<string, string> {
+  if (!process.env.MODAL_KEY || !process.env.MODAL_SECRET) return {};
+  return { 'Modal-Key': process.env.MODAL_KEY, 'Modal-Secret': process.env.MODAL_SECRET };
+}
+
+function envProviders(): ProviderConfig[] {
+  const env = process.env;
+  const base = (name: ProviderName, fields: Partial<ProviderConfig>): ProviderConfig => ({
+    name,
+    kinds: PROVIDER_KINDS[name],
+    baseUrl: null,
+    healthUrl: null,
+    headers: {},
+    timeoutMs: 60000,
+    configured: true,
+    ...fields,
+  });
+
+  return [
+    base('modal-qwen', {
+      baseUrl: env.MODAL_QWEN_URL || null,
+      healthUrl: env.MODAL_QWEN_HEALTH_URL || null,
+      headers: modalHeaders(),
+      timeoutMs: parseInt(env.MODAL_QWEN_TIMEOUT_MS || '60000'),
+    }),
+    base('claude', { configured: !!env.ANTHROPIC_API_KEY }),
+    base('modal-whisper', {
+      baseUrl: env.MODAL_WHISPER_URL || null,
+      healthUrl: env.MODAL_WHISPER_HEALTH_URL || null,
+      headers: modalHeaders(),
+      timeoutMs: parseInt(env.MODAL_WHISPER_TIMEOUT_MS || '600000'), // 10 min for long videos
+    }),
+    base('openai-whisper', { configured: !!env.OPENAI_API_KEY }),
+    base('local-whisper', { timeoutMs: parseInt(env.WHISPER_LOCAL_TIMEOUT_MS || String(60 * 60 * 1000)) }),
+    base('mock', {}),
+  ];
+}
+
+function parseOrder(kind: ProviderKind, value: string[] | string | undefined, fallback: ProviderName[]): ProviderName[] {
+  const names = Array.isArray(value) ? value : value ? value.split(',') : fallback;
+  const order: ProviderName[] = [];
+
+  for (const raw of names) {
+    const name = raw.trim() as ProviderName;
+    if (!name) continue;
+    if (!PROVIDER_KINDS[name]?.includes(kind)) {
+      console.error(`[Providers] Ignoring unknown ${kind} provider "${name}"`);
+      continue;
+    }
+    if (!order.includes(name)) order.push(name);
+  }
+  return order;
+}
+
+function loadRegistry() {
+  const file = readProvidersFile();
+  const providers = new Map<ProviderName, ProviderConfig>();
+
+  for (const provider of envProviders()) {
+    const override = file.providers?.[provider.name] || {};
+    const merged: ProviderConfig = {
+      ...provider,
+      ...override,
+      headers: { ...provider.headers, ...(override.headers || {}) },
+    };
+
+    // HTTP providers need somewhere to send requests
+    if (merged.name === 'modal-qwen' || merged.name === 'modal-whisper') {
+      merged.configured = !!merged.baseUrl;
+    }
+    providers.set(merged.name, merged);
+  }
+
+  const defaultVision: ProviderName[] = process.env.USE_QWEN_FOR_IMAGES === 'false' ? ['claude'] : ['modal-qwen', 'claude'];
+  const defaultAsr: ProviderName[] = process.env.USE_MODAL_WHISPER === 'false'
+    ? ['openai-whisper', 'local-whisper']
+    : ['modal-whisper', 'openai-whisper', 'local-whisper'];
+
+  const order: Record<ProviderKind, ProviderName[]> = {
+    vision: parseOrder('vision', file.vision ?? process.env.VISION_PROVIDERS, defaultVision),
+    asr: parseOrder('asr', file.asr ?? process.env.ASR_PROVIDERS, defaultAsr),
+  };
+
+  for (const kind of ['vision', 'asr'] as ProviderKind[]) {
+    const active = order[kind].filter(name => providers.get(name)?.configured);
+    console.log(`[Providers] ${kind}: ${active.length > 0 ? active.join(' -> ') : 'none configured'}`);
+  }
+
+  return { providers, order };
+}
+
+function getRegistry() {
+  if (!registry) registry = loadRegistry();
+  return registry;
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+export function getProviderConfig(name: ProviderName): ProviderConfig {
+  return getRegistry().providers.get(name)!;
+}
+
+// Configured providers of a kind, in fallback order
+export function getProviderChain(kind: ProviderKind): ProviderConfig[] {
+  const { providers, order } = getRegistry();
+  return order[kind]
+    .map(name => providers.get(name)!)
+    .filter(provider => provider.configured);
+}
+
+// ============================================
+// FALLBACK
+// ============================================
+
+// Try each configured provider in order until one returns. A handler throws
+// to hand over to the next provider. Kinds with no handler for a provider skip it.
+export async function runWithFallback<T>(
+  kind: ProviderKind,
+  handlers: Partial<Record<ProviderName, (provider: ProviderConfig) => Promise<T>>>
+): Promise<{ result: T; provider: ProviderName }> {
+  const chain = getProviderChain(kind).filter(provider => handlers[provider.name]);
+  if (chain.length === 0) throw new Error(`No ${kind} provider configured`);
+
+  let lastError: any = null;
+  for (const provider of chain) {
+    try {
+      const result = await handlers[provider.name]!(provider);
+      return { result, provider: provider.name };
+    } catch (error: any) {
+      lastError = error;
+      console.error(`      ${provider.name} failed: ${error.message}`);
+    }
+  }
+
+  throw new Error(`All ${kind} providers failed (last: ${lastError?.message})`);
+}
+
+// ============================================
+// HEALTH
+// ============================================
+
+export async function checkProviderHealth(provider: ProviderConfig): Promise<ProviderStatus> {
+  if (!provider.configured) return 'not_configured';
+  if (provider.name === 'mock') return 'ok';
+  // SDK-backed providers have no cheap health endpoint
+  if (!provider.healthUrl) return 'configured';
+
+  try {
+    const response = await axios.get(provider.healthUrl, { headers: provider.headers, timeout: 10000 });
+    return response.data?.status === 'ok' ? 'ok' : 'offline';
+  } catch {
+    return 'offline';
+  }
+}
+
+export async function getProvidersHealth(): Promise<Record<ProviderKind, { name: ProviderName; status: ProviderStatus }[]>> {
+  const { providers, order } = getRegistry();
+
+  const check = (kind: ProviderKind) => Promise.all(
+    order[kind].map(async name => ({ name, status: await checkProviderHealth(providers.get(name)!) }))
+  );
+
+  const [vision, asr] = await Promise.all([check('vision'), check('asr')]);
+  return { vision, asr };
+}
@@ -0,0 +1,347 @@
+// Source Registry
+// Builds each research worker's search plan from src/config/sources.json (or
+// the file in SOURCES_CONFIG): which sources are searched, in what order, with
+// which queries and limits. The file is watched and reloaded when it changes,
+// so adding an archive is a config edit.
+//
+// Runtime changes made through /v1/sources (see source-store.ts) are layered on
+// top. Every process polls them; the orchestrator also pings the workers after
+// each change so they reload straight away.
+//
+// File layout:
+//   defaults                         fields applied to every source
+//   categories.<worker>.<category>   fields applied to every source in that category
+//   <worker>.<category>              [source, ...] - categories are searched in parallel
+//   webcontent.niche_specific.<topicType>  [source, ...] - only for that topic type
+//
+// Source fields (later levels override earlier ones):
+//   name, site, searchPattern   searchPattern defaults to "site:<site>"
+//   type           search (site search), api (built-in client, e.g. Archive.org),
+//                  category (SearXNG video/image category), web (open web search),
+//                  tavily_news / tavily_search
+//   priority, license, enabled
+//   queryTemplates "{query}" = research query, "{topic}" = project topic
+//   maxQueries     research queries used per template (0 = all)
+//   maxResults     per query
+//   blacklist      (video) drop titles matching the off-topic blacklist
+//   pageType       (webcontent) page type stored on results
+//   excludeDomains (web) domains never returned
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getSourceStore } from './source-store.js';
+import type { SourceOverride } from './source-store.js';
+import { LICENSE_TYPES } from '../utils/research-options.js';
+import type { ResearchWorker, LicenseType } from '../utils/research-options.js';
+
+export type SourceType = 'search' | 'api' | 'category' | 'web' | 'tavily_news' | 'tavily_search';
+
+export interface SourceDefinition {
+  id: string;                 // "<worker>:<slug of name>", niche sources "<worker>:<topicType>-<slug>"
+  worker: ResearchWorker;
+  category: string;
+  name: string;
+  site: string | null;
+  searchPattern: string | null;
+  type: SourceType;
+  priority: number;
+  license: LicenseType;
+  enabled: boolean;
+  queryTemplates: string[];
+  maxQueries: number;
+  maxResults: number;
+  blacklist: boolean;
+  pageType: string | null;
+  excludeDomains: string[];
+  topicType: string | null;   // niche sources: only searched for this topic type
+  origin: 'config' | 'admin'; // sources.json entry, or added through /v1/sources
+  overridden: boolean;        // sources.json entry changed through /v1/sources
+}
+
+export interface SearchPlanCategory {
+  category: string;
+  sources: SourceDefinition[];
+}
+
+// A sources.json entry with defaults and category defaults already merged in
+interface ConfigEntry {
+  id: string;
+  worker: ResearchWorker;
+  category: string;
+  topicType: string | null;
+  fields: Record<string, any>;
+}
+
+interface LoadedConfig {
+  raw: any;
+  entries: ConfigEntry[];
+}
+
+export const SOURCE_WORKERS: ResearchWorker[] = ['video', 'image', 'webcontent'];
+export const SOURCE_TYPES: SourceType[] = ['search', 'api', 'category', 'web', 'tavily_news', 'tavily_search'];
+export const NICHE_CATEGORY = 'niche_specific';
+
+const WATCH_INTERVAL_MS = parseInt(process.env.SOURCES_WATCH_INTERVAL_MS || '2000');
+const OVERRIDES_REFRESH_MS = parseInt(process.env.SOURCE_OVERRIDES_REFRESH_MS || '60000');
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CONFIG_PATH = process.env.SOURCES_CONFIG || path.join(__dirname, '../config/sources.json');
+
+let config: LoadedConfig | null = null;
+let overrides: SourceOverride[] = [];
+let sources: SourceDefinition[] | null = null;
+let watching = false;
+
+// ============================================
+// LOADING
+// ============================================
+
+function loadConfig(): LoadedConfig {
+  const raw = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+  const entries: ConfigEntry[] = [];
+  const ids = new Set<string>();
+
+  for (const worker of SOURCE_WORKERS) {
+    for (const [category, list] of Object.entries<any>(raw[worker] || {})) {
+      // Niche sites are grouped by topic type one level further down
+      const groups: [string | null, any[]][] = category === NICHE_CATEGORY && !Array.isArray(list)
+        ? Object.entries<any[]>(list)
+        : [[null, list]];
+
+      for (const [topicType, group] of groups) {
+        if (!Array.isArray(group)) throw new Error(`${worker}.${category} must be an array of sources`);
+
+        for (const entry of group) {
+          const fields = withDefaults(raw, worker, category, entry);
+          // Validates the entry - a bad one rejects the whole file
+          const id = normalizeSource(worker, category, topicType, fields, '').id;
+          if (ids.has(id)) throw new Error(`Duplicate source id "${id}"`);
+          ids.add(id);
+          entries.push({ id, worker, category, topicType, fields });
+        }
+      }
+    }
+  }
+
+  return { raw, entries };
+}
+
+// sources.json entries, with the stored overrides applied
+function buildSources(): SourceDefinition[] {
+  const { raw, entries } = config!;
+  const byId = new Map(overrides.map(o => [o.id, o]));
+  const result: SourceDefinition[] = [];
+
+  for (const entry of entries) {
+    const override = byId.get(entry.id);
+    byId.delete(entry.id);
+    if (override?.deleted) continue;
+
+    try {
+      result.push({
+        ...normalizeSource(entry.worker, entry.category, entry.topicType, { ...entry.fields, ...(override?.fields || {}) }, entry.id),
+        overridden: !!override,
+      });
+    } catch (error: any) {
+      console.error(`[Sources] Ignoring override for ${entry.id}: ${error.message}`);
+      result.push(normalizeSource(entry.worker, entry.category, entry.topicType, entry.fields, entry.id));
+    }
+  }
+
+  // Whatever is left matches no sources.json entry: sources added at runtime
+  for (const override of byId.values()) {
+    if (override.deleted) continue;
+    try {
+      const fields = withDefaults(raw, override.worker, override.category, override.fields);
+      result.push({
+        ...normalizeSource(override.worker, override.category, override.topic_type, fields, override.id),
+        origin: 'admin',
+      });
+    } catch (error: any) {
+      console.error(`[Sources] Ignoring added source ${override.id}: ${error.message}`);
+    }
+  }
+
+  return result;
+}
+
+function withDefaults(raw: any, worker: ResearchWorker, category: string, entry: any): Record<string, any> {
+  return { ...(raw.defaults || {}), ...(raw.categories?.[worker]?.[category] || {}), ...entry };
+}
+
+function normalizeSource(
+  worker: ResearchWorker,
+  category: string,
+  topicType: string | null,
+  entry: any,
+  id: string
+): SourceDefinition {
+  const where = `${worker}.${category}${topicType ? `.${topicType}` : ''}`;
+  if (!entry.name || typeof entry.name !== 'string') throw new Error(`Source in ${where} has no name`);
+
+  const type: SourceType = entry.type || 'search';
+  if (!SOURCE_TYPES.includes(type)) throw new Error(`${entry.name}: unknown type "${type}"`);
+  if (type === 'search' && !entry.site && !entry.searchPattern) {
+    throw new Error(`${entry.name}: search sources need a site or searchPattern`);
+  }
+  if (entry.license !== undefined && !LICENSE_TYPES.includes(entry.license)) {
+    throw new Error(`${entry.name}: unknown license "${entry.license}" (${LICENSE_TYPES.join(', ')})`);
+  }
+  if (entry.queryTemplates !== undefined && !(Array.isArray(entry.queryTemplates) && entry.queryTemplates.every((t: any) => typeof t === 'string'))) {
+    throw new Error(`${entry.name}: queryTemplates must be an array of strings`);
+  }
+  if (entry.excludeDomains !== undefined && !Array.isArray(entry.excludeDomains)) {
+    throw new Error(`${entry.name}: excludeDomains must be an array`);
+  }
+
+  const templates = entry.queryTemplates?.length > 0 ? entry.queryTemplates : ['{query}'];
+
+  return {
+    id: id || sourceId(worker, entry.name, topicType),
+    worker,
+    category,
+    name: entry.name,
+    site: entry.site || null,
+    searchPattern: entry.searchPattern || null,
+    type,
+    priority: typeof entry.priority === 'number' ? entry.priority : 99,
+    license: entry.license || 'unknown',
+    enabled: entry.enabled !== false,
+    queryTemplates: templates,
+    maxQueries: Math.max(0, parseInt(entry.maxQueries ?? 0) || 0),
+    maxResults: Math.max(1, parseInt(entry.maxResults ?? 15) || 15),
+    blacklist: entry.blacklist === true,
+    pageType: entry.pageType || null,
+    excludeDomains: entry.excludeDomains || [],
+    topicType,
+    origin: 'config',
+    overridden: false,
+  };
+}
+
+// Loads on first use, then keeps the last good config if an edit breaks the file
+function ensureLoaded(): SourceDefinition[] {
+  if (!config) {
+    config = loadConfig();
+    console.log(`[Sources] Loaded ${config.entries.length} sources from ${CONFIG_PATH}`);
+  }
+
+  if (!watching) {
+    watching = true;
+    fs.watchFile(CONFIG_PATH, { interval: WATCH_INTERVAL_MS, persistent: false }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      try {
+        config = loadConfig();
+        sources = null;
+        console.log(`[Sources] Reloaded ${config.entries.length} sources`);
+      } catch (error: any) {
+        console.error(`[Sources] Keeping previous config - ${CONFIG_PATH} is invalid: ${error.message}`);
+      }
+    });
+
+    refreshSourceOverrides().catch(() => {});
+    setInterval(() => refreshSourceOverrides().catch(() => {}), OVERRIDES_REFRESH_MS).unref();
+  }
+
+  if (!sources) sources = buildSources();
+  return sources;
+}
+
+// Re-reads the runtime overrides; on a store error the previous ones stay in effect
+export async function refreshSourceOverrides(): Promise<number> {
+  try {
+    overrides = await getSourceStore().list();
+    sources = null;
+    return overrides.length;
+  } catch (error: any) {
+    console.error(`[Sources] Could not load overrides: ${error.message}`);
+    throw error;
+  }
+}
+
+// ============================================
+// CATALOG
+// ============================================
+
+export function sourceId(worker: ResearchWorker, name: string, topicType?: string | null): string {
+  return `${worker}:${slugify(topicType ? `${topicType} ${name}` : name)}`;
+}
+
+// Every configured source, disabled ones included
+export function getSources(worker?: ResearchWorker): SourceDefinition[] {
+  const all = ensureLoaded();
+  return worker ? all.filter(s => s.worker === worker) : all;
+}
+
+export function getSource(id: string): SourceDefinition | null {
+  return ensureLoaded().find(s => s.id === id) || null;
+}
+
+// Whether the id belongs to a sources.json entry (deleted ones included)
+export function isConfigSource(id: string): boolean {
+  ensureLoaded();
+  return config!.entries.some(e => e.id === id);
+}
+
+// Checks raw fields the way they would be loaded, with the file's defaults applied
+export function validateSourceFields(
+  worker: ResearchWorker,
+  category: string,
+  topicType: string | null,
+  fields: Record<string, any>
+): SourceDefinition {
+  ensureLoaded();
+  return normalizeSource(worker, category, topicType, withDefaults(config!.raw, worker, category, fields), '');
+}
+
+// ============================================
+// SEARCH PLANS
+// ============================================
+
+// Enabled sources grouped by category, in config order. Niche sources are only
+// included for their own topic type.
+export function getSearchPlan(worker: ResearchWorker, topicType?: string | null): SearchPlanCategory[] {
+  const plan: SearchPlanCategory[] = [];
+
+  for (const source of getSources(worker)) {
+    if (!source.enabled) continue;
+    if (source.topicType && source.topicType !== topicType) continue;
+
+    let entry = plan.find(c => c.category === source.category);
+    if (!entry) {
+      entry = { category: source.category, sources: [] };
+      plan.push(entry);
+    }
+    entry.sources.push(source);
+  }
+
+  return plan;
+}
+
+// The queries a source runs: each template applied to its share of the research queries
+export function buildSourceQueries(source: SourceDefinition, queries: string[], topic: string): string[] {
+  const used = source.maxQueries > 0 ? queries.slice(0, source.maxQueries) : queries;
+  const built = used.flatMap(query =>
+    source.queryTemplates.map(template => template.replace(/\{query\}/g, query).replace(/\{topic\}/g, topic).trim())
+  );
+  return [...new Set(built)].filter(Boolean);
+}
+
+// "site:" restriction for search-type sources
+export function sitePattern(source: SourceDefinition): string {
+  return source.searchPattern || `site:${source.site}`;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
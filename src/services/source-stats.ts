@@ -0,0 +1,231 @@
+// Source Statistics
+// One row per source per search run, so dead or noisy sources show up in data
+// instead of only in worker logs. GET /v1/sources/stats rolls them up.
+//
+// Backends (SOURCE_STORE, same as the override store):
+//   supabase - `source_runs` table (default when Supabase credentials are set)
+//   file     - JSON lines on local disk, appended to by every worker process
+//
+// `source_runs` table columns: id (uuid), source_id, worker, project_id,
+// queries, hits, kept, errors, last_error, latency_ms, created_at
+
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
+import path from 'path';
+import { isCancellationError } from '../utils/cancellation.js';
+import { CircuitOpenError } from '../utils/circuit-breaker.js';
+import type { ResearchWorker } from '../utils/research-options.js';
+import type { SourceDefinition } from './source-registry.js';
+
+export interface SourceRun {
+  id: string;
+  source_id: string;
+  worker: ResearchWorker;
+  project_id: string | null;
+  queries: number;        // searches issued
+  hits: number;           // results the searches returned
+  kept: number;           // left after the worker's checks (video URL, blacklist, image URL...)
+  errors: number;         // failed searches
+  last_error: string | null;
+  latency_ms: number;
+  created_at: string;
+}
+
+export interface SourceStats {
+  source_id: string;
+  worker: ResearchWorker;
+  runs: number;
+  queries: number;
+  hits: number;
+  kept: number;
+  errors: number;
+  error_rate: number;         // errors / queries
+  kept_per_query: number;
+  keep_rate: number;          // kept / hits
+  zero_kept_runs: number;
+  avg_latency_ms: number;
+  last_error: string | null;
+  last_run_at: string | null;
+}
+
+interface SourceRunStore {
+  name: string;
+  insert(runs: SourceRun[]): Promise<void>;
+  listSince(since: string, worker?: ResearchWorker): Promise<SourceRun[]>;
+}
+
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 50;
+
+// ============================================
+// SUPABASE STORE
+// ============================================
+
+function createSupabaseRunStore(): SourceRunStore {
+  const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_KEY!);
+
+  return {
+    name: 'supabase',
+
+    async insert(runs) {
+      const { error } = await supabase.from('source_runs').insert(runs);
+      if (error) throw new Error(`Source run insert failed: ${error.message}`);
+    },
+
+    // PostgREST caps each response, so page through the window
+    async listSince(since, worker) {
+      const runs: SourceRun[] = [];
+      for (let page = 0; page < MAX_PAGES; page++) {
+        let query = supabase.from('source_runs').select('*').gte('created_at', since);
+        if (worker) query = query.eq('worker', worker);
+        const { data, error } = await query
+          .order('created_at', { ascending: true })
+          .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+        if (error) throw new Error(`Source run fetch failed: ${error.message}`);
+
+        runs.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      return runs;
+    },
+  };
+}
+
+// ============================================
+// FILE STORE (local dev / offline)
+// ============================================
+
+// Appends are line-sized, so the worker processes can share the file
+function createFileRunStore(filePath: string): SourceRunStore {
+  return {
+    name: 'file',
+
+    async insert(runs) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.appendFileSync(filePath, runs.map(run => JSON.stringify(run) + '\n').join(''));
+    },
+
+    async listSince(since, worker) {
+      let lines: string[];
+      try {
+        lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+      } catch {
+        return [];
+      }
+
+      const runs: SourceRun[] = [];
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const run: SourceRun = JSON.parse(line);
+          if (run.created_at >= since && (!worker || run.worker === worker)) runs.push(run);
+        } catch {
+          // A torn last line from a crashed writer
+        }
+      }
+      return runs;
+    },
+  };
+}
+
+let store: SourceRunStore | null = null;
+
+function getRunStore(): SourceRunStore {
+  if (!store) {
+    const backend = process.env.SOURCE_STORE
+      || (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY ? 'supabase' : 'file');
+
+    store = backend === 'file'
+      ? createFileRunStore(process.env.SOURCE_STATS_PATH || '/tmp/mediamind/source-runs.jsonl')
+      : createSupabaseRunStore();
+  }
+  return store;
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+// Counters a worker fills in while it searches one source
+export function startSourceRun(source: SourceDefinition): SourceRun {
+  return {
+    id: uuidv4(),
+    source_id: source.id,
+    worker: source.worker,
+    project_id: null,
+    queries: 0,
+    hits: 0,
+    kept: 0,
+    errors: 0,
+    last_error: null,
+    latency_ms: 0,
+    created_at: new Date().toISOString(),
+  };
+}
+
+// Cancelled runs and calls skipped by an open circuit breaker are not failures
+export function recordSearchError(run: SourceRun, error: any): void {
+  if (isCancellationError(error) || error instanceof CircuitOpenError) return;
+  run.errors++;
+  run.last_error = error?.message || String(error);
+}
+
+// Never throws - statistics must not fail a search
+export async function saveSourceRuns(runs: SourceRun[]): Promise<void> {
+  const finished = runs.filter(run => run.queries > 0);
+  if (finished.length === 0) return;
+
+  try {
+    await getRunStore().insert(finished);
+  } catch (error: any) {
+    console.error(`[Sources] Could not save run statistics: ${error.message}`);
+  }
+}
+
+// ============================================
+// AGGREGATES
+// ============================================
+
+export async function getSourceStats(days: number, worker?: ResearchWorker): Promise<SourceStats[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const runs = await getRunStore().listSince(since, worker);
+
+  const bySource = new Map<string, SourceRun[]>();
+  for (const run of runs) {
+    const group = bySource.get(run.source_id);
+    if (group) group.push(run);
+    else bySource.set(run.source_id, [run]);
+  }
+
+  return [...bySource.values()].map(aggregate);
+}
+
+function aggregate(runs: SourceRun[]): SourceStats {
+  const sum = (key: 'queries' | 'hits' | 'kept' | 'errors' | 'latency_ms') => runs.reduce((total, run) => total + (run[key] || 0), 0);
+  const ratio = (a: number, b: number) => (b > 0 ? Math.round((a / b) * 1000) / 1000 : 0);
+
+  const queries = sum('queries');
+  const hits = sum('hits');
+  const kept = sum('kept');
+  const errors = sum('errors');
+  const latest = runs.reduce((a, b) => (a.created_at >= b.created_at ? a : b));
+  const lastFailed = runs.filter(run => run.last_error).sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+  return {
+    source_id: latest.source_id,
+    worker: latest.worker,
+    runs: runs.length,
+    queries,
+    hits,
+    kept,
+    errors,
+    error_rate: ratio(errors, queries),
+    kept_per_query: ratio(kept, queries),
+    keep_rate: ratio(kept, hits),
+    zero_kept_runs: runs.filter(run => run.kept === 0).length,
+    avg_latency_ms: Math.round(sum('latency_ms') / runs.length),
+    last_error: lastFailed?.last_error || null,
+    last_run_at: latest.created_at,
+  };
+}
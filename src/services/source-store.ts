@@ -0,0 +1,126 @@
+// Source Override Store
+// Runtime changes to the source catalog made through /v1/sources, layered on
+// top of sources.json by the source registry
+//
+// Backends:
+//   supabase - `source_overrides` table (default when Supabase credentials are set)
+//   file     - JSON file on local disk (SOURCE_STORE=file, for dev / offline)
+//
+// `source_overrides` table columns: id (text, "<worker>:<slug>"), worker,
+// category, topic_type, fields (jsonb), deleted (bool), created_at, updated_at
+//
+// An override either patches a sources.json entry with the same id, hides it
+// (deleted), or - when no entry matches - adds a new source.
+
+import { createClient } from '@supabase/supabase-js';
+import fs from 'fs';
+import path from 'path';
+import type { ResearchWorker } from '../utils/research-options.js';
+
+export interface SourceOverride {
+  id: string;
+  worker: ResearchWorker;
+  category: string;
+  topic_type: string | null;
+  fields: Record<string, any>;   // raw sources.json fields
+  deleted: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SourceStore {
+  name: string;
+  list(): Promise<SourceOverride[]>;
+  upsert(override: SourceOverride): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// ============================================
+// SUPABASE STORE
+// ============================================
+
+function createSupabaseSourceStore(): SourceStore {
+  const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_KEY!);
+
+  return {
+    name: 'supabase',
+
+    async list() {
+      const { data, error } = await supabase.from('source_overrides').select('*').order('created_at', { ascending: true });
+      if (error) throw new Error(`Source override fetch failed: ${error.message}`);
+      return data || [];
+    },
+
+    async upsert(override) {
+      const { error } = await supabase.from('source_overrides').upsert(override);
+      if (error) throw new Error(`Source override save failed: ${error.message}`);
+    },
+
+    async remove(id) {
+      const { error } = await supabase.from('source_overrides').delete().eq('id', id);
+      if (error) throw new Error(`Source override delete failed: ${error.message}`);
+    },
+  };
+}
+
+// ============================================
+// FILE STORE (local dev / offline)
+// ============================================
+
+// Re-read on every call: the orchestrator writes, the worker processes read
+function createFileSourceStore(filePath: string): SourceStore {
+  const read = (): Record<string, SourceOverride> => {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+      return {};
+    }
+  };
+
+  const write = (overrides: Record<string, SourceOverride>) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(overrides, null, 2));
+    fs.renameSync(tmpPath, filePath);
+  };
+
+  return {
+    name: 'file',
+
+    async list() {
+      return Object.values(read()).sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    async upsert(override) {
+      const overrides = read();
+      overrides[override.id] = override;
+      write(overrides);
+    },
+
+    async remove(id) {
+      const overrides = read();
+      delete overrides[id];
+      write(overrides);
+    },
+  };
+}
+
+// ============================================
+// STORE SELECTION
+// ============================================
+
+let store: SourceStore | null = null;
+
+export function getSourceStore(): SourceStore {
+  if (!store) {
+    const backend = process.env.SOURCE_STORE
+      || (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY ? 'supabase' : 'file');
+
+    store = backend === 'file'
+      ? createFileSourceStore(process.env.SOURCE_STORE_PATH || '/tmp/mediamind/source-overrides.json')
+      : createSupabaseSourceStore();
+
+    console.log(`[Sources] Using ${store.name} override store`);
+  }
+  return store;
+}
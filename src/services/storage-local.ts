@@ -0,0 +1,67 @@
+// Local Disk Storage Driver
+// Keeps media under STORAGE_LOCAL_DIR for offline dev / CI and self-hosting.
+// The orchestrator serves that directory at /storage (see STORAGE_PUBLIC_URL).
+
+import fs from 'fs';
+import path from 'path';
+import type { StorageDriver } from './storage.js';
+
+export function createLocalDriver(rootDir: string, publicBaseUrl: string): StorageDriver {
+  const root = path.resolve(rootDir);
+  fs.mkdirSync(root, { recursive: true });
+
+  // Keys are relative paths - never let one escape the storage root
+  const resolveKey = (key: string) => {
+    const fullPath = path.resolve(root, key);
+    if (fullPath !== root && !fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  };
+
+  const publicUrl = (key: string) =>
+    `${publicBaseUrl.replace(/\/$/, '')}/${key.split('/').map(encodeURIComponent).join('/')}`;
+
+  return {
+    name: 'local',
+
+    async put(key, body) {
+      const fullPath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.promises.writeFile(fullPath, body);
+    },
+
+    async get(key) {
+      try {
+        return await fs.promises.readFile(resolveKey(key));
+      } catch {
+        return null;
+      }
+    },
+
+    async delete(key) {
+      try {
+        await fs.promises.unlink(resolveKey(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async list(prefix) {
+      try {
+        const entries = await fs.promises.readdir(resolveKey(prefix), { withFileTypes: true });
+        return entries.filter(e => e.isFile()).map(e => `${prefix}/${e.name}`);
+      } catch {
+        return [];
+      }
+    },
+
+    publicUrl,
+
+    // Files are served without auth, so a "signed" URL is just the public one
+    async signedUrl(key) {
+      return publicUrl(key);
+    },
+  };
+}
@@ -0,0 +1,235 @@
+// S3-Compatible Storage Driver
+// Works with AWS S3, MinIO, Cloudflare R2, Backblaze B2 etc.
+// Requests are signed with AWS Signature V4 (no SDK dependency).
+//
+// Config:
+//   S3_ENDPOINT           e.g. https://s3.eu-central-1.amazonaws.com or http://localhost:9000
+//   S3_REGION             default us-east-1 (R2 uses "auto")
+//   S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY
+//   S3_FORCE_PATH_STYLE   "true" for MinIO and most self-hosted setups
+//   S3_PUBLIC_URL         optional public base URL (CDN / public bucket domain)
+
+import axios from 'axios';
+import crypto from 'crypto';
+import type { StorageDriver } from './storage.js';
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucket: string;
+  forcePathStyle: boolean;
+  publicUrl?: string;
+}
+
+const EMPTY_SHA256 = crypto.createHash('sha256').update('').digest('hex');
+
+// ============================================
+// SIGNATURE V4
+// ============================================
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding as S3 expects it
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map(k => `${encodeRfc3986(k)}=${encodeRfc3986(query[k])}`)
+    .join('&');
+}
+
+function amzDates(now: Date) {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  return { amzDate, dateStamp: amzDate.slice(0, 8) };
+}
+
+function signingKey(secret: string, dateStamp: string, region: string): Buffer {
+  const kDate = hmac(`AWS4${secret}`, dateStamp);
+  const kRegion = hmac(kDate, region);
+  const kService = hmac(kRegion, 's3');
+  return hmac(kService, 'aws4_request');
+}
+
+// ============================================
+// DRIVER
+// ============================================
+
+export function createS3Driver(config: S3Config): StorageDriver {
+  if (!config.endpoint || !config.accessKeyId || !config.secretAccessKey) {
+    throw new Error('S3 storage needs S3_ENDPOINT, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const endpoint = new URL(config.endpoint);
+
+  // Path style: https://host/bucket/key - virtual host style: https://bucket.host/key
+  const target = (key: string) => {
+    const host = config.forcePathStyle ? endpoint.host : `${config.bucket}.${endpoint.host}`;
+    const basePath = config.forcePathStyle ? `/${config.bucket}` : '';
+    return { host, path: `${basePath}/${encodeKey(key)}` };
+  };
+
+  const credentialScope = (dateStamp: string) => `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  async function request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    options: { query?: Record<string, string>; body?: Buffer; contentType?: string } = {}
+  ) {
+    const { host, path } = target(key);
+    const query = options.query || {};
+    const payloadHash = options.body ? sha256Hex(options.body) : EMPTY_SHA256;
+    const { amzDate, dateStamp } = amzDates(new Date());
+
+    const headers: Record<string, string> = {
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (options.contentType) headers['content-type'] = options.contentType;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      canonicalQuery(query),
+      signedHeaders.map(h => `${h}:${headers[h].trim()}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      credentialScope(dateStamp),
+      sha256Hex(canonicalRequest),
+    ].join('\n');
+
+    const signature = crypto
+      .createHmac('sha256', signingKey(config.secretAccessKey, dateStamp, config.region))
+      .update(stringToSign)
+      .digest('hex');
+
+    const { host: _host, ...sendHeaders } = headers;
+    const queryString = canonicalQuery(query);
+
+    return axios.request({
+      method,
+      url: `${endpoint.protocol}//${host}${path}${queryString ? `?${queryString}` : ''}`,
+      data: options.body,
+      headers: {
+        ...sendHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${credentialScope(dateStamp)}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+      },
+      responseType: 'arraybuffer',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      timeout: 120000,
+      validateStatus: () => true,
+    });
+  }
+
+  const errorText = (response: { status: number; data: any }) => {
+    const body = Buffer.from(response.data || '').toString('utf8');
+    const code = body.match(/<Code>(.*?)<\/Code>/)?.[1];
+    return `S3 ${response.status}${code ? ` ${code}` : ''}`;
+  };
+
+  const publicUrl = (key: string) => {
+    if (config.publicUrl) return `${config.publicUrl.replace(/\/$/, '')}/${encodeKey(key)}`;
+    const { host, path } = target(key);
+    return `${endpoint.protocol}//${host}${path}`;
+  };
+
+  return {
+    name: 's3',
+
+    async put(key, body, contentType) {
+      const response = await request('PUT', key, { body, contentType });
+      if (response.status >= 300) throw new Error(errorText(response));
+    },
+
+    async get(key) {
+      const response = await request('GET', key);
+      if (response.status === 404) return null;
+      if (response.status >= 300) throw new Error(errorText(response));
+      return Buffer.from(response.data);
+    },
+
+    async delete(key) {
+      const response = await request('DELETE', key);
+      return response.status < 300;
+    },
+
+    // Direct children of a "folder", like the Supabase list
+    async list(prefix) {
+      const keys: string[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const query: Record<string, string> = { 'list-type': '2', prefix: `${prefix}/`, delimiter: '/' };
+        if (continuationToken) query['continuation-token'] = continuationToken;
+
+        const response = await request('GET', '', { query });
+        if (response.status >= 300) throw new Error(errorText(response));
+
+        const xml = Buffer.from(response.data).toString('utf8');
+        for (const match of xml.matchAll(/<Key>(.*?)<\/Key>/g)) keys.push(decodeXml(match[1]));
+
+        continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+          ? decodeXml(xml.match(/<NextContinuationToken>(.*?)<\/NextContinuationToken>/)?.[1] || '')
+          : undefined;
+      } while (continuationToken);
+
+      return keys;
+    },
+
+    publicUrl,
+
+    // Presigned GET (query string auth)
+    async signedUrl(key, expiresInSeconds) {
+      const { host, path } = target(key);
+      const { amzDate, dateStamp } = amzDates(new Date());
+
+      const query: Record<string, string> = {
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${config.accessKeyId}/${credentialScope(dateStamp)}`,
+        'X-Amz-Date': amzDate,
+        'X-Amz-Expires': String(Math.min(expiresInSeconds, 604800)),
+        'X-Amz-SignedHeaders': 'host',
+      };
+
+      const canonicalRequest = ['GET', path, canonicalQuery(query), `host:${host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+      const stringToSign = ['AWS4-HMAC-SHA256', amzDate, credentialScope(dateStamp), sha256Hex(canonicalRequest)].join('\n');
+      const signature = crypto
+        .createHmac('sha256', signingKey(config.secretAccessKey, dateStamp, config.region))
+        .update(stringToSign)
+        .digest('hex');
+
+      return `${endpoint.protocol}//${host}${path}?${canonicalQuery(query)}&X-Amz-Signature=${signature}`;
+    },
+  };
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
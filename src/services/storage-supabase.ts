@@ -0,0 +1,50 @@
+// Supabase Storage Driver
+// Default backend when Supabase credentials are set
+
+import { createClient } from '@supabase/supabase-js';
+import type { StorageDriver } from './storage.js';
+
+export function createSupabaseDriver(bucket: string): StorageDriver {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+    throw new Error('Supabase storage needs SUPABASE_URL and SUPABASE_SERVICE_KEY');
+  }
+
+  const supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
+  const files = () => supabase.storage.from(bucket);
+
+  return {
+    name: 'supabase',
+
+    async put(key, body, contentType) {
+      const { error } = await files().upload(key, body, { contentType, upsert: true });
+      if (error) throw new Error(error.message);
+    },
+
+    async get(key) {
+      const { data, error } = await files().download(key);
+      if (error || !data) return null;
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async delete(key) {
+      const { error } = await files().remove([key]);
+      return !error;
+    },
+
+    async list(prefix) {
+      const { data, error } = await files().list(prefix);
+      if (error) throw new Error(error.message);
+      return (data || []).map(file => `${prefix}/${file.name}`);
+    },
+
+    publicUrl(key) {
+      return files().getPublicUrl(key).data.publicUrl;
+    },
+
+    async signedUrl(key, expiresInSeconds) {
+      const { data, error } = await files().createSignedUrl(key, expiresInSeconds);
+      if (error || !data) throw new Error(error?.message || 'Could not sign URL');
+      return data.signedUrl;
+    },
+  };
+}
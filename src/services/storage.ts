@@ -1,96 +1,135 @@
 // Storage Service
-// Uploads media to Supabase Storage
-
-import { createClient } from '@supabase/supabase-js';
+// Uploads media through a pluggable storage driver
+//
+// Drivers (STORAGE_DRIVER):
+//   supabase - Supabase Storage bucket (default when Supabase credentials are set)
+//   local    - files on local disk under STORAGE_LOCAL_DIR (default otherwise)
+//   s3       - any S3-compatible service (see storage-s3.ts for config)
+//
+// STORAGE_BUCKET names the Supabase / S3 bucket (default mediamind)
+
+import crypto from 'crypto';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_KEY!
-);
+import { downloadToFile } from '../utils/download.js';
+import { createSupabaseDriver } from './storage-supabase.js';
+import { createLocalDriver } from './storage-local.js';
+import { createS3Driver } from './storage-s3.js';
+
+export interface StorageDriver {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<boolean>;
+  // Files directly under a folder, as full keys
+  list(prefix: string): Promise<string[]>;
+  publicUrl(key: string): string;
+  signedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
 
 const BUCKET_NAME = process.env.STORAGE_BUCKET || 'mediamind';
+export const STORAGE_LOCAL_DIR = process.env.STORAGE_LOCAL_DIR || '/tmp/mediamind/storage';
+const STORAGE_PUBLIC_URL = process.env.STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}/storage`;
+
+let driver: StorageDriver | null = null;
 
 // ============================================
-// UPLOAD FILE TO STORAGE
+// DRIVER SELECTION
 // ============================================
 
-export async function uploadToStorage(
-  filePath: string,
-  storagePath: string
-): Promise<string | null> {
-  try {
-    const fileBuffer = fs.readFileSync(filePath);
-    const contentType = getContentType(filePath);
-
-    const { error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .upload(storagePath, fileBuffer, {
-        contentType,
-        upsert: true,
+export function getStorageDriver(): StorageDriver {
+  if (driver) return driver;
+
+  const hasSupabase = !!(process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY);
+  const name = process.env.STORAGE_DRIVER || (hasSupabase ? 'supabase' : 'local');
+
+  switch (name) {
+    case 'supabase':
+      driver = createSupabaseDriver(BUCKET_NAME);
+      break;
+    case 'local':
+      driver = createLocalDriver(STORAGE_LOCAL_DIR, STORAGE_PUBLIC_URL);
+      break;
+    case 's3':
+      driver = createS3Driver({
+        endpoint: process.env.S3_ENDPOINT || '',
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+        bucket: BUCKET_NAME,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        publicUrl: process.env.S3_PUBLIC_URL,
       });
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${name}" (expected supabase, local or s3)`);
+  }
 
-    if (error) {
-      console.error(`      Storage upload failed:`, error.message);
-      return null;
-    }
+  console.log(`[Storage] Using ${driver.name} driver`);
+  return driver;
+}
 
-    // Get public URL
-    const { data } = supabase.storage
-      .from(BUCKET_NAME)
-      .getPublicUrl(storagePath);
+// For tests and embedding - swap the driver at runtime
+export function setStorageDriver(custom: StorageDriver): void {
+  driver = custom;
+}
 
-    return data.publicUrl;
+// ============================================
+// UPLOAD FILE TO STORAGE
+// ============================================
 
+export async function uploadToStorage(
+  filePath: string,
+  storagePath: string,
+  contentType: string = getContentType(filePath)
+): Promise<string | null> {
+  try {
+    const fileBuffer = await fs.promises.readFile(filePath);
+    return await uploadBuffer(fileBuffer, storagePath, contentType);
   } catch (error: any) {
     console.error(`      Storage upload error:`, error.message);
     return null;
   }
 }
 
+export async function uploadBuffer(
+  body: Buffer,
+  storagePath: string,
+  contentType: string
+): Promise<string | null> {
+  try {
+    const storage = getStorageDriver();
+    await storage.put(storagePath, body, contentType);
+    return storage.publicUrl(storagePath);
+  } catch (error: any) {
+    console.error(`      Storage upload failed:`, error.message);
+    return null;
+  }
+}
+
 // ============================================
 // UPLOAD FROM URL (Download then upload)
 // ============================================
 
 export async function uploadFromUrl(
   sourceUrl: string,
-  storagePath: string
+  storagePath: string,
+  maxBytes?: number
 ): Promise<string | null> {
-  try {
-    const axios = (await import('axios')).default;
-
-    const response = await axios.get(sourceUrl, {
-      responseType: 'arraybuffer',
-      timeout: 60000,
-      headers: {
-        'User-Agent': 'Mozilla/5.0',
-      },
-    });
-
-    const contentType = response.headers['content-type'] || 'application/octet-stream';
-
-    const { error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .upload(storagePath, response.data, {
-        contentType,
-        upsert: true,
-      });
-
-    if (error) {
-      console.error(`      Storage upload failed:`, error.message);
-      return null;
-    }
+  const tempPath = path.join(os.tmpdir(), 'mediamind', 'uploads', `${crypto.randomUUID()}${path.extname(storagePath)}`);
 
-    const { data } = supabase.storage
-      .from(BUCKET_NAME)
-      .getPublicUrl(storagePath);
+  try {
+    const result = await downloadToFile(sourceUrl, tempPath, { maxBytes, timeoutMs: 60000 });
+    const contentType = result.contentType || getContentType(storagePath);
 
-    return data.publicUrl;
+    return await uploadToStorage(tempPath, storagePath, contentType);
 
   } catch (error: any) {
     console.error(`      Upload from URL failed:`, error.message);
     return null;
+  } finally {
+    fs.rmSync(tempPath, { force: true });
   }
 }
 
@@ -100,11 +139,7 @@ export async function uploadFromUrl(
 
 export async function deleteFromStorage(storagePath: string): Promise<boolean> {
   try {
-    const { error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .remove([storagePath]);
-
-    return !error;
+    return await getStorageDriver().delete(storagePath);
   } catch (error) {
     return false;
   }
@@ -116,23 +151,30 @@ export async function deleteFromStorage(storagePath: string): Promise<boolean> {
 
 export async function listFiles(folderPath: string): Promise<string[]> {
   try {
-    const { data, error } = await supabase.storage
-      .from(BUCKET_NAME)
-      .list(folderPath);
-
-    if (error) return [];
-
-    return data.map(file => `${folderPath}/${file.name}`);
+    return await getStorageDriver().list(folderPath);
   } catch (error) {
     return [];
   }
 }
 
+// ============================================
+// SIGNED URL
+// ============================================
+
+export async function getSignedUrl(storagePath: string, expiresInSeconds: number = 3600): Promise<string | null> {
+  try {
+    return await getStorageDriver().signedUrl(storagePath, expiresInSeconds);
+  } catch (error: any) {
+    console.error(`      Signed URL failed:`, error.message);
+    return null;
+  }
+}
+
 // ============================================
 // HELPERS
 // ============================================
 
-function getContentType(filePath: string): string {
+export function getContentType(filePath: string): string {
   const ext = path.extname(filePath).toLowerCase();
 
   const mimeTypes: Record<string, string> = {
@@ -145,9 +187,15 @@ function getContentType(filePath: string): string {
     '.png': 'image/png',
     '.gif': 'image/gif',
     '.webp': 'image/webp',
+    '.tif': 'image/tiff',
+    '.bmp': 'image/bmp',
+    '.avif': 'image/avif',
+    '.heic': 'image/heic',
     '.mp3': 'audio/mpeg',
     '.wav': 'audio/wav',
     '.pdf': 'application/pdf',
+    '.vtt': 'text/vtt',
+    '.srt': 'application/x-subrip',
   };
 
   return mimeTypes[ext] || 'application/octet-stream';
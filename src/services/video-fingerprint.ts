@@ -0,0 +1,97 @@
+// Video Fingerprinting
+// Recognises the same footage hosted in several places (an Archive.org
+// newsreel, a Pathé mirror, a stock-site copy) that URL dedup can't catch
+//
+// A fingerprint is the perceptual hashes of keyframes sampled evenly across the
+// video. Two videos match when most of the shorter one's frames have a
+// near-identical frame in the other - so trimmed or re-encoded copies still match.
+
+import { sampleGrayscaleFrames } from './ffmpeg.js';
+import { computeHashes, clusterIndexes, isNearDuplicate, HASH_INPUT_SIZE } from '../utils/perceptual-hash.js';
+import type { PerceptualHash } from '../utils/perceptual-hash.js';
+
+export interface FingerprintedVideo {
+  id: string;
+  fingerprint: PerceptualHash[];
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+}
+
+export interface DuplicateGroup {
+  canonical: string;      // best copy: highest resolution, then longest
+  duplicates: string[];
+}
+
+const FINGERPRINT_FRAMES = parseInt(process.env.VIDEO_FINGERPRINT_FRAMES || '24');
+const FRAME_MAX_DISTANCE = parseInt(process.env.VIDEO_DEDUP_FRAME_DISTANCE || '10');
+const MIN_MATCH_RATIO = parseFloat(process.env.VIDEO_DEDUP_MIN_MATCH || '0.6');
+
+// Too few usable frames to say anything about a video
+const MIN_FINGERPRINT_FRAMES = 3;
+// Black, white or faded frames (pixel std dev below this) match everything
+const MIN_FRAME_CONTRAST = 8;
+
+// ============================================
+// FINGERPRINT
+// ============================================
+
+// Aborting the signal kills the ffmpeg sampling process
+export async function fingerprintVideo(videoPath: string, duration: number, signal?: AbortSignal): Promise<PerceptualHash[]> {
+  const frames = await sampleGrayscaleFrames(videoPath, FINGERPRINT_FRAMES, HASH_INPUT_SIZE, HASH_INPUT_SIZE, duration, signal);
+
+  return frames
+    .filter(pixels => contrast(pixels) >= MIN_FRAME_CONTRAST)
+    .map(pixels => computeHashes(pixels));
+}
+
+// ============================================
+// COMPARE
+// ============================================
+
+// Share of the shorter fingerprint's frames that appear in the other one (0-1)
+export function matchRatio(a: PerceptualHash[], b: PerceptualHash[], maxDistance: number = FRAME_MAX_DISTANCE): number {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length === 0) return 0;
+
+  const matched = shorter.filter(frame => longer.some(other => isNearDuplicate(frame, other, maxDistance))).length;
+  return matched / shorter.length;
+}
+
+export function groupDuplicateVideos(
+  videos: FingerprintedVideo[],
+  minMatch: number = MIN_MATCH_RATIO
+): DuplicateGroup[] {
+  // Best copy first, so each cluster's representative is its canonical copy
+  const usable = videos
+    .filter(v => v.fingerprint.length >= MIN_FINGERPRINT_FRAMES)
+    .sort((a, b) => compareCopies(a, b));
+
+  return clusterIndexes(usable.length, (i, j) => matchRatio(usable[i].fingerprint, usable[j].fingerprint) >= minMatch)
+    .filter(cluster => cluster.length > 1)
+    .map(([canonical, ...duplicates]) => ({
+      canonical: usable[canonical].id,
+      duplicates: duplicates.map(i => usable[i].id),
+    }));
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function compareCopies(a: FingerprintedVideo, b: FingerprintedVideo): number {
+  const area = (v: FingerprintedVideo) => (v.width || 0) * (v.height || 0);
+  if (area(a) !== area(b)) return area(b) - area(a);
+  return (b.duration || 0) - (a.duration || 0);
+}
+
+function contrast(pixels: Uint8Array): number {
+  let sum = 0;
+  let sumSquares = 0;
+  for (const value of pixels) {
+    sum += value;
+    sumSquares += value * value;
+  }
+  const mean = sum / pixels.length;
+  return Math.sqrt(Math.max(0, sumSquares / pixels.length - mean * mean));
+}
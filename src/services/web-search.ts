@@ -4,15 +4,13 @@
 // 3. No limits - fetch everything found
 
 import axios from 'axios';
+import { searchArchive, fetchArchiveItems, selectArchiveFile, archiveMediaInfo, archiveDownloadUrl, archiveThumbnailUrl } from './archive-org.js';
 
 const SERPER_API_KEY = process.env.SERPER_API_KEY;
 
 // Delay helper to avoid rate limiting
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// User agent for Archive.org (be a good citizen)
-const ARCHIVE_USER_AGENT = 'MediaMind Research Bot/1.0 (automated research tool)';
-
 // Sites to EXCLUDE (can't download from these)
 const EXCLUDED_SITES = [
   'youtube.com',
@@ -72,63 +70,26 @@ async function searchArchiveOrgVideos(topic: string): Promise<VideoSearchResult[
   const results: VideoSearchResult[] = [];
 
   try {
-    // Search for movies/videos (mediatype goes IN the query, not as separate param)
-    const searchUrl = `https://archive.org/advancedsearch.php?q=${encodeURIComponent(topic)}+AND+mediatype:movies&fl[]=identifier,title,description,mediatype&sort[]=downloads+desc&rows=100&output=json`;
-
-    const response = await axios.get(searchUrl, {
-      headers: { 'User-Agent': ARCHIVE_USER_AGENT },
-      timeout: 30000,
-    });
-
-    const docs = response.data?.response?.docs || [];
+    const docs = await searchArchive(topic, { mediatype: 'movies', limit: 50 });
     console.log(`[Archive.org] Found ${docs.length} video items`);
 
-    // Process results (limit to first 50 to avoid timeout)
-    const maxToProcess = Math.min(docs.length, 50);
-    for (let i = 0; i < maxToProcess; i++) {
-      const doc = docs[i];
-
-      // Add small delay to be nice to Archive.org
-      await delay(200);
-
-      try {
-        // Get metadata to find actual video file
-        const metaResponse = await axios.get(
-          `https://archive.org/metadata/${doc.identifier}`,
-          {
-            headers: { 'User-Agent': ARCHIVE_USER_AGENT },
-            timeout: 15000,
-          }
-        );
-
-        const files = metaResponse.data?.files || [];
-        const metadata = metaResponse.data?.metadata || {};
-
-        // Find MP4 file (prefer derivative/smaller files)
-        const videoFile = files.find((f: any) =>
-          f.name?.endsWith('.mp4') && f.source === 'derivative'
-        ) || files.find((f: any) => f.name?.endsWith('.mp4'));
-
-        if (videoFile) {
-          results.push({
-            url: `https://archive.org/download/${doc.identifier}/${videoFile.name}`,
-            title: metadata.title || doc.title || doc.identifier,
-            source: 'archive.org',
-            thumbnail: `https://archive.org/services/img/${doc.identifier}`,
-            snippet: typeof metadata.description === 'string'
-              ? metadata.description.slice(0, 200)
-              : Array.isArray(metadata.description)
-                ? metadata.description[0]?.slice(0, 200)
-                : undefined,
-            identifier: doc.identifier,
-          });
-          console.log(`[Archive.org] Added video: ${doc.title?.slice(0, 50)}...`);
-        }
-      } catch (e: any) {
-        // Skip items with errors, continue with others
-        console.log(`[Archive.org] Skipped ${doc.identifier}: ${e.message}`);
-      }
-    }
+    const items = await fetchArchiveItems(docs.map(doc => doc.identifier));
+    items.forEach((item, i) => {
+      // Find MP4 file (prefer derivative/smaller files)
+      const videoFile = item && selectArchiveFile(item.files, { extensions: ['mp4'], preferSource: 'derivative', preferSize: 'smallest' });
+      if (!item || !videoFile) return;
+
+      results.push({
+        url: archiveDownloadUrl(item.identifier, videoFile.name),
+        title: item.title || docs[i].title || item.identifier,
+        source: 'archive.org',
+        duration: archiveMediaInfo(item, videoFile).duration ?? undefined,
+        thumbnail: archiveThumbnailUrl(item.identifier),
+        snippet: item.description?.slice(0, 200),
+        identifier: item.identifier,
+      });
+      console.log(`[Archive.org] Added video: ${item.title?.slice(0, 50)}...`);
+    });
 
   } catch (error: any) {
     console.error(`[Archive.org] Video search failed:`, error.message);
@@ -145,53 +106,23 @@ async function searchArchiveOrgImages(topic: string): Promise<ImageSearchResult[
   const results: ImageSearchResult[] = [];
 
   try {
-    // Search for images (mediatype goes IN the query, not as separate param)
-    const searchUrl = `https://archive.org/advancedsearch.php?q=${encodeURIComponent(topic)}+AND+mediatype:image&fl[]=identifier,title,mediatype&sort[]=downloads+desc&rows=50&output=json`;
-
-    const response = await axios.get(searchUrl, {
-      headers: { 'User-Agent': ARCHIVE_USER_AGENT },
-      timeout: 30000,
-    });
-
-    const docs = response.data?.response?.docs || [];
+    const docs = await searchArchive(topic, { mediatype: 'image', limit: 50 });
     console.log(`[Archive.org] Found ${docs.length} image items`);
 
-    for (const doc of docs) {
-      if (doc.mediatype !== 'image') continue;
-
-      await delay(300);
-
-      try {
-        const metaResponse = await axios.get(
-          `https://archive.org/metadata/${doc.identifier}`,
-          {
-            headers: { 'User-Agent': ARCHIVE_USER_AGENT },
-            timeout: 10000,
-          }
-        );
-
-        const files = metaResponse.data?.files || [];
-        const metadata = metaResponse.data?.metadata || {};
-
-        // Find image file
-        const imageFile = files.find((f: any) =>
-          /\.(jpg|jpeg|png|gif)$/i.test(f.name) &&
-          f.source !== 'metadata' &&
-          !f.name?.includes('thumb')
-        );
-
-        if (imageFile) {
-          results.push({
-            url: `https://archive.org/download/${doc.identifier}/${imageFile.name}`,
-            title: metadata.title || doc.title || doc.identifier,
-            source: 'archive.org',
-            thumbnail: `https://archive.org/services/img/${doc.identifier}`,
-          });
-        }
-      } catch (e) {
-        // Skip errors
-      }
-    }
+    const items = await fetchArchiveItems(docs.map(doc => doc.identifier));
+    items.forEach((item, i) => {
+      const imageFile = item && selectArchiveFile(item.files, { extensions: ['jpg', 'jpeg', 'png', 'gif'], exclude: /thumb/i });
+      if (!item || !imageFile) return;
+
+      results.push({
+        url: archiveDownloadUrl(item.identifier, imageFile.name),
+        title: item.title || docs[i].title || item.identifier,
+        source: 'archive.org',
+        width: imageFile.width ?? undefined,
+        height: imageFile.height ?? undefined,
+        thumbnail: archiveThumbnailUrl(item.identifier),
+      });
+    });
 
   } catch (error: any) {
     console.error(`[Archive.org] Image search failed:`, error.message);
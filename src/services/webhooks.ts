@@ -0,0 +1,273 @@
+// Webhook Service
+// Signed POST callbacks when a research project completes, fails or is cancelled
+//
+// Deliveries run on the job queue, so failed attempts are retried with the
+// queue's exponential backoff and survive restarts.
+//
+// `webhook_deliveries` table columns: id (uuid), project_id, job_id, event,
+// url, status (pending | delivered | failed), attempts, response_status,
+// response_body, last_error, created_at, delivered_at
+//
+// Signature: X-MediaMind-Signature = "sha256=" + hex HMAC-SHA256(secret,
+// `${X-MediaMind-Timestamp}.${raw body}`) - only sent when a secret was given
+//
+// Callback hosts must resolve to public addresses, checked again on every
+// delivery, so a callback can never reach the worker network. Internal
+// receivers can be allowed by name in WEBHOOK_ALLOWED_HOSTS.
+
+import { createClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import axios from 'axios';
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { Job, enqueueJob, registerJobHandler } from './jobs.js';
+
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6');
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+const PUBLIC_URL = process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}`;
+const WEBHOOK_ALLOWED_HOSTS = (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+let supabase: any = null;
+if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY) {
+  supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
+}
+
+export type WebhookEvent = 'project.completed' | 'project.partial' | 'project.failed' | 'project.cancelled';
+
+interface WebhookJobPayload {
+  deliveryId: string;
+  projectId: string;
+  url: string;
+  event: WebhookEvent;
+  body: Record<string, any>;
+}
+
+// ============================================
+// VALIDATION / SIGNING
+// ============================================
+
+// Returns why the URL can't be used as a callback, or null if it can
+export async function validateCallbackUrl(url: unknown): Promise<string | null> {
+  if (typeof url !== 'string') return 'callbackUrl must be an http(s) URL';
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'callbackUrl must be an http(s) URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'callbackUrl must be an http(s) URL';
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isAllowedHost(host)) return null;
+  if (WEBHOOK_ALLOWED_HOSTS.length > 0) return `callbackUrl host ${host} is not in WEBHOOK_ALLOWED_HOSTS`;
+
+  try {
+    const addresses = net.isIP(host) ? [{ address: host }] : await dns.promises.lookup(host, { all: true });
+    const blocked = addresses.find(a => isBlockedAddress(a.address));
+    if (blocked) return `callbackUrl resolves to a private address (${blocked.address})`;
+  } catch (error: any) {
+    return `callbackUrl host ${host} does not resolve: ${error.code || error.message}`;
+  }
+  return null;
+}
+
+function isAllowedHost(host: string): boolean {
+  return WEBHOOK_ALLOWED_HOSTS.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  return BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+// Resolves at connect time and refuses private addresses, so a host can't pass
+// validation and then be re-pointed (DNS rebinding) at the worker network
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address.map(a => a.address) : [address];
+    const blocked = isAllowedHost(hostname.toLowerCase()) ? undefined : addresses.find(isBlockedAddress);
+    if (blocked) return callback(new Error(`Callback host ${hostname} resolves to a private address (${blocked})`), address, family);
+    callback(null, address, family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+export function signPayload(secret: string, timestamp: string, rawBody: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+// ============================================
+// NOTIFY
+// ============================================
+
+// Queue a callback for a finished project. No-op if the project has no callback_url.
+export async function notifyProjectWebhook(projectId: string, event: WebhookEvent): Promise<string | null> {
+  if (!supabase) return null;
+
+  try {
+    const { data: project } = await supabase.from('projects').select('*').eq('id', projectId).single();
+    if (!project?.callback_url) return null;
+
+    const deliveryId = uuidv4();
+    const body = {
+      id: deliveryId,
+      event,
+      timestamp: new Date().toISOString(),
+      project: {
+        id: project.id,
+        topic: project.topic,
+        slug: project.slug,
+        status: project.status,
+        error_message: project.error_message || null,
+        started_at: project.started_at,
+        completed_at: project.completed_at || null,
+        url: `${PUBLIC_URL}/v1/project/${project.id}`,
+      },
+      counts: {
+        videos: project.video_count || 0,
+        images: project.image_count || 0,
+        webContent: project.news_count || 0,
+      },
+      workers: project.worker_results || null,
+    };
+
+    const { error } = await supabase.from('webhook_deliveries').insert({
+      id: deliveryId,
+      project_id: projectId,
+      event,
+      url: project.callback_url,
+      status: 'pending',
+      attempts: 0,
+      created_at: body.timestamp,
+    });
+    if (error) throw new Error(error.message);
+
+    // Not tied to the project's jobs: cancelling a project must not drop its own callback
+    const job = await enqueueJob<WebhookJobPayload>('webhook', {
+      deliveryId,
+      projectId,
+      url: project.callback_url,
+      event,
+      body,
+    }, { maxAttempts: WEBHOOK_MAX_ATTEMPTS });
+
+    await supabase.from('webhook_deliveries').update({ job_id: job.id }).eq('id', deliveryId);
+
+    console.log(`[Webhooks] Queued ${event} for ${projectId} -> ${project.callback_url}`);
+    return deliveryId;
+  } catch (error: any) {
+    console.error(`[Webhooks] Failed to queue ${event} for ${projectId}: ${error.message}`);
+    return null;
+  }
+}
+
+export async function getProjectWebhookDeliveries(projectId: string): Promise<any[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// ============================================
+// DELIVERY JOB
+// ============================================
+
+async function deliverWebhook(job: Job<WebhookJobPayload>): Promise<void> {
+  const { deliveryId, projectId, url, event, body } = job.payload;
+
+  // The secret stays on the project row rather than in the job payload
+  const { data: project } = await supabase.from('projects').select('callback_secret').eq('id', projectId).single();
+
+  const rawBody = JSON.stringify(body);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'MediaMind-Webhooks/1.0',
+    'X-MediaMind-Event': event,
+    'X-MediaMind-Delivery': deliveryId,
+    'X-MediaMind-Timestamp': timestamp,
+  };
+  if (project?.callback_secret) {
+    headers['X-MediaMind-Signature'] = signPayload(project.callback_secret, timestamp, rawBody);
+  }
+
+  let response;
+  try {
+    response = await axios.post(url, rawBody, {
+      headers,
+      timeout: WEBHOOK_TIMEOUT_MS,
+      maxRedirects: 0,
+      httpAgent,
+      httpsAgent,
+      transformRequest: [(data) => data], // send the exact bytes that were signed
+      validateStatus: () => true,
+    });
+  } catch (error: any) {
+    await supabase.from('webhook_deliveries').update({
+      attempts: job.attempts,
+      last_error: error.message,
+    }).eq('id', deliveryId);
+    console.log(`[Webhooks] Delivery ${deliveryId} attempt ${job.attempts} failed: ${error.message}`);
+    throw error;
+  }
+
+  const delivered = response.status >= 200 && response.status < 300;
+  const responseBody = typeof response.data === 'string' ? response.data : JSON.stringify(response.data ?? '');
+
+  await supabase.from('webhook_deliveries').update({
+    status: delivered ? 'delivered' : 'pending',
+    attempts: job.attempts,
+    response_status: response.status,
+    response_body: responseBody.slice(0, 1000),
+    last_error: delivered ? null : `HTTP ${response.status}`,
+    delivered_at: delivered ? new Date().toISOString() : null,
+  }).eq('id', deliveryId);
+
+  if (!delivered) {
+    console.log(`[Webhooks] Delivery ${deliveryId} attempt ${job.attempts} got HTTP ${response.status}`);
+    throw new Error(`Callback responded with HTTP ${response.status}`);
+  }
+
+  console.log(`[Webhooks] Delivered ${event} for ${projectId} (attempt ${job.attempts})`);
+}
+
+registerJobHandler<WebhookJobPayload>('webhook', deliverWebhook, {
+  onFailed: async (job, error) => {
+    console.error(`[Webhooks] Giving up on delivery ${job.payload.deliveryId}: ${error}`);
+    await supabase.from('webhook_deliveries').update({
+      status: 'failed',
+      attempts: job.attempts,
+      last_error: error,
+    }).eq('id', job.payload.deliveryId);
+  },
+});
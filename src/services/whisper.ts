@@ -1,125 +1,198 @@
 // Whisper Service
-// Transcribes audio using Modal Whisper (GPU) or OpenAI Whisper API as fallback
+// Transcribes audio using Modal Whisper (GPU), the OpenAI Whisper API,
+// or a local CPU build (whisper.cpp / faster-whisper) - see WHISPER_BACKEND
 
 import OpenAI from 'openai';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import fs from 'fs';
-import { extractAudio } from './ffmpeg.js';
+import os from 'os';
+import path from 'path';
+import { extractAudio, extractAudioSegment, detectSilences, getVideoDuration, convertAudioToWav } from './ffmpeg.js';
 import { transcribeWithModalWhisper, findRelevantSegmentsWithWhisper } from './modal.js';
+import { runWithFallback } from './providers.js';
+import { downloadToFile, VIDEO_CONTENT_TYPES } from '../utils/download.js';
+import type { TranscriptEngine, TranscriptSegment } from '../types/models.js';
+
+// Optional - the client throws without a key, and workers that only import
+// this module for Modal transcription must still start
+let openai: OpenAI | null = null;
+try {
+  openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+} catch (e: any) {
+  console.error('[Whisper] OpenAI init error:', e.message);
+}
+
+const execFilePromise = promisify(execFile);
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Backend for local files: openai (API) or local (whisper.cpp / faster-whisper on CPU)
+// Defaults to local when there is no OpenAI key, e.g. dev boxes and air-gapped installs
+const WHISPER_BACKEND = process.env.WHISPER_BACKEND || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
 
-// Use Modal Whisper by default (much cheaper)
-const USE_MODAL_WHISPER = process.env.USE_MODAL_WHISPER !== 'false';
+// OpenAI rejects uploads above 25MB
+const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
 
-export interface TranscriptSegment {
-  start: number;  // seconds
-  end: number;    // seconds
-  text: string;
+export type { TranscriptSegment };
+
+// Segments plus what produced them - stored per media row (see saveTranscript)
+export interface Transcription {
+  segments: TranscriptSegment[];
+  language: string | null;
+  engine: TranscriptEngine;
 }
 
 // ============================================
-// TRANSCRIBE AUDIO (MODAL OR OPENAI)
+// TRANSCRIBE AUDIO (MODAL, OPENAI OR LOCAL)
 // ============================================
 
 export async function transcribeAudio(
   videoPath: string,
   audioPath: string
 ): Promise<TranscriptSegment[]> {
+  return (await transcribe(videoPath, audioPath)).segments;
+}
+
+// Same as transcribeAudio, but also reports the detected language and engine.
+// Aborting the signal stops ffmpeg, the local binary or the API request.
+export async function transcribe(
+  videoPath: string,
+  audioPath: string,
+  signal?: AbortSignal
+): Promise<Transcription> {
+  const failed: Transcription = {
+    segments: [],
+    language: null,
+    engine: WHISPER_BACKEND === 'local' ? LOCAL_ENGINE : 'openai',
+  };
+
   try {
     // Extract audio from video
     console.log(`      Extracting audio...`);
-    const audioExtracted = await extractAudio(videoPath, audioPath);
+    const audioExtracted = await extractAudio(videoPath, audioPath, signal);
 
     if (!audioExtracted || !fs.existsSync(audioPath)) {
       console.error(`      Failed to extract audio`);
-      return [];
+      return failed;
     }
 
     const audioSize = fs.statSync(audioPath).size;
     console.log(`      Audio extracted: ${(audioSize / 1024 / 1024).toFixed(2)}MB`);
 
-    // For Modal Whisper, we need to upload the audio or provide a URL
-    // For now, fall back to OpenAI for local files
-    if (USE_MODAL_WHISPER && audioSize <= 25 * 1024 * 1024) {
-      console.log(`      Using Modal Whisper (cheaper)...`);
-      // Note: Modal expects a URL, not a local file
-      // For local files, we'll use OpenAI API
+    if (WHISPER_BACKEND === 'local') {
+      return await transcribeLocally(audioPath, signal);
     }
 
-    // Use OpenAI API for local files
-    return await transcribeWithOpenAI(audioPath);
+    // Modal Whisper only takes URLs (see transcribeFromUrl) - use OpenAI API for local files
+    return await transcribeWithOpenAI(audioPath, signal);
 
   } catch (error: any) {
     console.error(`      Transcription failed: ${error.message}`);
-    return [];
+    return failed;
   }
 }
 
 // ============================================
-// TRANSCRIBE FROM URL (MODAL WHISPER)
+// TRANSCRIBE FROM URL (ASR PROVIDERS)
 // ============================================
 
+// Providers are tried in ASR_PROVIDERS order (see providers.ts). With a topic,
+// only the segments that mention it are returned (all segments if none do).
 export async function transcribeFromUrl(
   audioUrl: string,
   topic?: string,
   language?: string
 ): Promise<TranscriptSegment[]> {
   try {
-    console.log(`      Using Modal Whisper for URL transcription...`);
+    const { result, provider } = await runWithFallback<TranscriptSegment[]>('asr', {
+      'modal-whisper': () => transcribeUrlWithModal(audioUrl, topic, language),
+      'openai-whisper': () => transcribeDownloaded(audioUrl, topic, transcribeWithOpenAI),
+      'local-whisper': () => transcribeDownloaded(audioUrl, topic, transcribeLocally),
+      'mock': async () => [{ start: 0, end: 5, text: topic ? `Mock transcript about ${topic}` : 'Mock transcript' }],
+    });
 
-    let result;
-    if (topic) {
-      // Find relevant segments matching topic
-      result = await findRelevantSegmentsWithWhisper(audioUrl, topic, language);
+    console.log(`      Transcribed ${result.length} segments with ${provider}`);
+    return result;
 
-      if (result.error) {
-        console.error(`      Modal Whisper error: ${result.error}`);
-        return [];
-      }
+  } catch (error: any) {
+    console.error(`      URL transcription failed: ${error.message}`);
+    return [];
+  }
+}
 
-      // Return relevant segments if found
-      if (result.relevant_segments && result.relevant_segments.length > 0) {
-        return result.relevant_segments.map(seg => ({
-          start: seg.start,
-          end: seg.end,
-          text: seg.text,
-        }));
-      }
+async function transcribeUrlWithModal(
+  audioUrl: string,
+  topic?: string,
+  language?: string
+): Promise<TranscriptSegment[]> {
+  console.log(`      Using Modal Whisper for URL transcription...`);
 
-      // Fall back to all segments
-      if (result.segments) {
-        return result.segments;
-      }
-    } else {
-      // Full transcription
-      result = await transcribeWithModalWhisper(audioUrl, language);
+  let result;
+  if (topic) {
+    // Find relevant segments matching topic
+    result = await findRelevantSegmentsWithWhisper(audioUrl, topic, language);
 
-      if (result.error) {
-        console.error(`      Modal Whisper error: ${result.error}`);
-        return [];
-      }
+    // Thrown so the next provider gets a go
+    if (result.error) throw new Error(`Modal Whisper error: ${result.error}`);
 
-      if (result.segments) {
-        return result.segments;
-      }
+    // Return relevant segments if found
+    if (result.relevant_segments && result.relevant_segments.length > 0) {
+      return result.relevant_segments.map(seg => ({
+        start: seg.start,
+        end: seg.end,
+        text: seg.text,
+      }));
     }
 
-    // If we only got full text without segments
-    if (result.text || result.full_transcript) {
-      return [{
-        start: 0,
-        end: 0,
-        text: result.text || result.full_transcript || '',
-      }];
+    // Fall back to all segments
+    if (result.segments) {
+      return result.segments;
     }
+  } else {
+    // Full transcription
+    result = await transcribeWithModalWhisper(audioUrl, language);
 
-    return [];
+    if (result.error) throw new Error(`Modal Whisper error: ${result.error}`);
 
-  } catch (error: any) {
-    console.error(`      URL transcription failed: ${error.message}`);
-    return [];
+    if (result.segments) {
+      return result.segments;
+    }
+  }
+
+  // If we only got full text without segments
+  if (result.text || result.full_transcript) {
+    return [{
+      start: 0,
+      end: 0,
+      text: result.text || result.full_transcript || '',
+    }];
+  }
+
+  return [];
+}
+
+// Providers that only take local files: download first, then transcribe
+async function transcribeDownloaded(
+  audioUrl: string,
+  topic: string | undefined,
+  run: (audioPath: string) => Promise<Transcription>
+): Promise<TranscriptSegment[]> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mediamind-asr-'));
+  const extension = path.extname(new URL(audioUrl).pathname).slice(0, 6) || '.mp3';
+
+  try {
+    const { path: audioPath } = await downloadToFile(audioUrl, path.join(workDir, `source${extension}`), {
+      allowedContentTypes: ['audio/', ...VIDEO_CONTENT_TYPES],
+    });
+
+    const { segments } = await run(audioPath);
+    if (!topic) return segments;
+
+    // Same idea as the keyword matching Modal does server-side
+    const keywords = topic.toLowerCase().split(/\s+/).filter(word => word.length >= 4);
+    const relevant = segments.filter(seg => keywords.some(word => seg.text.toLowerCase().includes(word)));
+    return relevant.length > 0 ? relevant : segments;
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
   }
 }
 
@@ -127,15 +200,31 @@ export async function transcribeFromUrl(
 // TRANSCRIBE WITH OPENAI (FALLBACK)
 // ============================================
 
-async function transcribeWithOpenAI(audioPath: string): Promise<TranscriptSegment[]> {
+async function transcribeWithOpenAI(audioPath: string, signal?: AbortSignal): Promise<Transcription> {
+  if (!openai) {
+    console.error(`      OpenAI Whisper unavailable (OPENAI_API_KEY missing)`);
+    return { segments: [], language: null, engine: 'openai' };
+  }
+
   const audioSize = fs.statSync(audioPath).size;
 
   // Check file size (Whisper max is 25MB)
-  if (audioSize > 25 * 1024 * 1024) {
+  if (audioSize > WHISPER_MAX_BYTES) {
     console.log(`      Audio too large for OpenAI, will process in chunks`);
-    return await transcribeInChunks(audioPath);
+    return await transcribeInChunks(audioPath, signal);
   }
 
+  const { segments, language } = await transcribeFileWithOpenAI(audioPath, signal);
+  console.log(`      Transcribed ${segments.length} segments`);
+  return { segments, language, engine: 'openai' };
+}
+
+async function transcribeFileWithOpenAI(
+  audioPath: string,
+  signal?: AbortSignal
+): Promise<{ segments: TranscriptSegment[]; language: string | null }> {
+  if (!openai) return { segments: [], language: null };
+
   // Transcribe with Whisper (with retry)
   console.log(`      Sending to OpenAI Whisper API...`);
   let response;
@@ -148,11 +237,11 @@ async function transcribeWithOpenAI(audioPath: string): Promise<TranscriptSegmen
         model: 'whisper-1',
         response_format: 'verbose_json',
         timestamp_granularities: ['segment'],
-      });
+      }, { signal });
       break; // Success
     } catch (err: any) {
       retries--;
-      if (retries === 0) throw err;
+      if (retries === 0 || signal?.aborted) throw err;
       console.log(`      Whisper retry (${3 - retries}/3)...`);
       await new Promise(r => setTimeout(r, 2000)); // Wait 2s before retry
     }
@@ -160,7 +249,7 @@ async function transcribeWithOpenAI(audioPath: string): Promise<TranscriptSegmen
 
   if (!response) {
     console.error(`      Whisper failed after retries`);
-    return [];
+    return { segments: [], language: null };
   }
 
   // Extract segments with timestamps
@@ -183,29 +272,279 @@ async function transcribeWithOpenAI(audioPath: string): Promise<TranscriptSegmen
     });
   }
 
-  console.log(`      Transcribed ${segments.length} segments`);
-  return segments;
+  return { segments, language: toLanguageCode(response.language) };
+}
+
+// Whisper's language names (what verbose_json reports) by ISO 639-1 code
+const WHISPER_LANGUAGE_NAMES: Record<string, string> = {
+  en: 'english', zh: 'chinese', de: 'german', es: 'spanish', ru: 'russian', ko: 'korean',
+  fr: 'french', ja: 'japanese', pt: 'portuguese', tr: 'turkish', pl: 'polish', ca: 'catalan',
+  nl: 'dutch', ar: 'arabic', sv: 'swedish', it: 'italian', id: 'indonesian', hi: 'hindi',
+  fi: 'finnish', vi: 'vietnamese', he: 'hebrew', uk: 'ukrainian', el: 'greek', ms: 'malay',
+  cs: 'czech', ro: 'romanian', da: 'danish', hu: 'hungarian', ta: 'tamil', no: 'norwegian',
+  th: 'thai', ur: 'urdu', hr: 'croatian', bg: 'bulgarian', lt: 'lithuanian', la: 'latin',
+  mi: 'maori', ml: 'malayalam', cy: 'welsh', sk: 'slovak', te: 'telugu', fa: 'persian',
+  lv: 'latvian', bn: 'bengali', sr: 'serbian', az: 'azerbaijani', sl: 'slovenian', kn: 'kannada',
+  et: 'estonian', mk: 'macedonian', br: 'breton', eu: 'basque', is: 'icelandic', hy: 'armenian',
+  ne: 'nepali', mn: 'mongolian', bs: 'bosnian', kk: 'kazakh', sq: 'albanian', sw: 'swahili',
+  gl: 'galician', mr: 'marathi', pa: 'punjabi', si: 'sinhala', km: 'khmer', sn: 'shona',
+  yo: 'yoruba', so: 'somali', af: 'afrikaans', oc: 'occitan', ka: 'georgian', be: 'belarusian',
+  tg: 'tajik', sd: 'sindhi', gu: 'gujarati', am: 'amharic', yi: 'yiddish', lo: 'lao',
+  uz: 'uzbek', fo: 'faroese', ht: 'haitian creole', ps: 'pashto', tk: 'turkmen', nn: 'nynorsk',
+  mt: 'maltese', sa: 'sanskrit', lb: 'luxembourgish', my: 'myanmar', bo: 'tibetan', tl: 'tagalog',
+  mg: 'malagasy', as: 'assamese', tt: 'tatar', ln: 'lingala', ha: 'hausa', ba: 'bashkir',
+  jv: 'javanese', su: 'sundanese',
+};
+
+const CODE_BY_NAME = new Map(Object.entries(WHISPER_LANGUAGE_NAMES).map(([code, name]) => [name, code]));
+const LANGUAGE_CODES = new Set(Object.keys(WHISPER_LANGUAGE_NAMES));
+
+// The OpenAI API names the language ("english"); transcripts and WebVTT want the
+// ISO 639-1 code. Languages without one (hawaiian, cantonese) are left unknown.
+function toLanguageCode(language: string | undefined | null): string | null {
+  if (!language) return null;
+  const value = language.trim().toLowerCase();
+  if (LANGUAGE_CODES.has(value)) return value;
+  return CODE_BY_NAME.get(value) || null;
 }
 
 // ============================================
 // TRANSCRIBE LARGE FILES IN CHUNKS
 // ============================================
 
-async function transcribeInChunks(audioPath: string): Promise<TranscriptSegment[]> {
-  // For now, just transcribe what we can
-  // TODO: Implement proper chunking with ffmpeg
-  console.log(`      Large file transcription not yet implemented, skipping`);
-  return [];
+// Chunks are re-encoded as 64 kbps mono (~0.5 MB/min), so 10 minutes stays far below the API limit.
+// A chunk must be longer than its two overlaps, or the next one would not start any later.
+const CHUNK_OVERLAP_SECONDS = 5;
+const CHUNK_SECONDS = Math.max(
+  CHUNK_OVERLAP_SECONDS * 2 + 1,
+  parseInt(process.env.WHISPER_CHUNK_SECONDS || '600') || 600
+);
+// How far back from the target cut we look for a pause to cut on
+const SILENCE_SEARCH_SECONDS = 30;
+
+async function transcribeInChunks(audioPath: string, signal?: AbortSignal): Promise<Transcription> {
+  const duration = await getVideoDuration(audioPath);
+  if (!duration) {
+    console.error(`      Could not read audio duration, skipping`);
+    return { segments: [], language: null, engine: 'openai' };
+  }
+
+  const silences = await detectSilences(audioPath);
+  const chunks = planChunks(duration, silences);
+  console.log(`      Splitting ${Math.round(duration)}s of audio into ${chunks.length} chunks (${silences.length} pauses found)`);
+
+  const chunkDir = fs.mkdtempSync(path.join(path.dirname(audioPath), 'chunks-'));
+  const transcripts: { chunk: AudioChunk; segments: TranscriptSegment[] }[] = [];
+  let language: string | null = null;
+
+  try {
+    for (let i = 0; i < chunks.length && !signal?.aborted; i++) {
+      const chunk = chunks[i];
+      const chunkPath = path.join(chunkDir, `chunk_${i}.mp3`);
+
+      if (!(await extractAudioSegment(audioPath, chunkPath, chunk.start, chunk.end - chunk.start, signal))) {
+        console.error(`      Chunk ${i + 1}/${chunks.length} could not be cut, skipping`);
+        continue;
+      }
+
+      try {
+        const { segments, language: chunkLanguage } = await transcribeFileWithOpenAI(chunkPath, signal);
+        language = language || chunkLanguage;
+        // Chunk timestamps start at 0 - shift them back onto the full timeline
+        transcripts.push({
+          chunk,
+          segments: segments.map(seg => ({ start: seg.start + chunk.start, end: seg.end + chunk.start, text: seg.text })),
+        });
+        console.log(`      Chunk ${i + 1}/${chunks.length}: ${segments.length} segments`);
+      } catch (error: any) {
+        console.error(`      Chunk ${i + 1}/${chunks.length} failed: ${error.message}`);
+      }
+    }
+  } finally {
+    fs.rmSync(chunkDir, { recursive: true, force: true });
+  }
+
+  const segments = stitchChunks(transcripts);
+  console.log(`      Transcribed ${segments.length} segments from ${transcripts.length}/${chunks.length} chunks`);
+  return { segments, language, engine: 'openai' };
+}
+
+interface AudioChunk {
+  start: number;
+  end: number;
+}
+
+// Cut roughly every CHUNK_SECONDS, preferring the middle of a pause near the target
+// so words are not split. Neighbouring chunks overlap so nothing falls in the gap.
+function planChunks(
+  duration: number,
+  silences: { start: number; end: number }[],
+  chunkSeconds: number = CHUNK_SECONDS,
+  overlapSeconds: number = CHUNK_OVERLAP_SECONDS
+): AudioChunk[] {
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (start < duration) {
+    const target = start + chunkSeconds;
+    if (target >= duration) {
+      chunks.push({ start, end: duration });
+      break;
+    }
+
+    // Latest pause that ends up in (target - search window, target]
+    const pause = silences
+      .map(s => (s.start + s.end) / 2)
+      .filter(mid => mid <= target && mid > Math.max(start + overlapSeconds * 2, target - SILENCE_SEARCH_SECONDS))
+      .pop();
+    const cut = pause ?? target;
+
+    chunks.push({ start, end: Math.min(duration, cut + overlapSeconds) });
+    // Always move on, whatever the chunk and overlap lengths passed in
+    start = Math.max(start + 1, cut - overlapSeconds);
+  }
+
+  return chunks;
+}
+
+// Join chunk transcripts, keeping one copy of whatever was said in each overlap.
+// Inside an overlap the earlier chunk wins up to the midpoint and the later one after it.
+function stitchChunks(
+  transcripts: { chunk: AudioChunk; segments: TranscriptSegment[] }[]
+): TranscriptSegment[] {
+  const result: TranscriptSegment[] = [];
+
+  for (let i = 0; i < transcripts.length; i++) {
+    const { chunk, segments } = transcripts[i];
+    const prev = transcripts[i - 1]?.chunk;
+    const next = transcripts[i + 1]?.chunk;
+
+    const from = prev && prev.end > chunk.start ? (chunk.start + prev.end) / 2 : -Infinity;
+    const until = next && chunk.end > next.start ? (next.start + chunk.end) / 2 : Infinity;
+
+    for (const seg of segments) {
+      if (seg.start < from || seg.start >= until) continue;
+
+      // Same sentence transcribed twice around the boundary
+      const last = result[result.length - 1];
+      if (last && normalizeText(last.text) === normalizeText(seg.text) && seg.start < last.end + 1) continue;
+
+      result.push(seg);
+    }
+  }
+
+  return result;
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
 }
 
 // ============================================
-// TRANSCRIBE WITH LOCAL WHISPER (Optional)
+// TRANSCRIBE WITH LOCAL WHISPER (CPU)
 // ============================================
 
+const LOCAL_ENGINE: TranscriptEngine = process.env.WHISPER_LOCAL_ENGINE === 'faster-whisper' ? 'faster-whisper' : 'whisper.cpp';
+const WHISPER_CPP_BIN = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+const WHISPER_CPP_MODEL = process.env.WHISPER_CPP_MODEL || 'models/ggml-base.bin';
+const FASTER_WHISPER_BIN = process.env.FASTER_WHISPER_BIN || 'whisper-ctranslate2';
+const FASTER_WHISPER_MODEL = process.env.FASTER_WHISPER_MODEL || 'base';
+const LOCAL_LANGUAGE = process.env.WHISPER_LANGUAGE || 'auto';
+const LOCAL_THREADS = parseInt(process.env.WHISPER_THREADS || String(Math.max(1, os.cpus().length)));
+const LOCAL_TIMEOUT_MS = parseInt(process.env.WHISPER_LOCAL_TIMEOUT_MS || String(60 * 60 * 1000)); // 1 hour
+
 export async function transcribeWithLocalWhisper(
   audioPath: string
 ): Promise<TranscriptSegment[]> {
-  // This would use a local Whisper model via whisper.cpp or faster-whisper
-  // For now, we use Modal or OpenAI API
-  return [];
+  return (await transcribeLocally(audioPath)).segments;
+}
+
+async function transcribeLocally(audioPath: string, signal?: AbortSignal): Promise<Transcription> {
+  // Scratch dir next to the audio - output files are written there, then removed
+  const workDir = fs.mkdtempSync(path.join(path.dirname(audioPath), 'whisper-'));
+
+  try {
+    console.log(`      Transcribing locally with ${LOCAL_ENGINE}...`);
+    const started = Date.now();
+
+    const { segments, language } = LOCAL_ENGINE === 'faster-whisper'
+      ? await runFasterWhisper(audioPath, workDir, signal)
+      : await runWhisperCpp(audioPath, workDir, signal);
+
+    console.log(`      Transcribed ${segments.length} segments in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+    return { segments, language, engine: LOCAL_ENGINE };
+  } catch (error: any) {
+    // ENOENT here means the binary is not installed / not on PATH
+    const reason = error.code === 'ENOENT' ? `${error.path || 'binary'} not found` : error.message;
+    console.error(`      Local Whisper failed: ${reason}`);
+    return { segments: [], language: null, engine: LOCAL_ENGINE };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// whisper.cpp: `whisper-cli -m model.bin -f audio.wav -oj` writes <prefix>.json
+async function runWhisperCpp(
+  audioPath: string,
+  workDir: string,
+  signal?: AbortSignal
+): Promise<{ segments: TranscriptSegment[]; language: string | null }> {
+  const wavPath = path.join(workDir, 'audio.wav');
+  if (!(await convertAudioToWav(audioPath, wavPath, signal))) return { segments: [], language: null };
+
+  const outputPrefix = path.join(workDir, 'transcript');
+  await execFilePromise(WHISPER_CPP_BIN, [
+    '-m', WHISPER_CPP_MODEL,
+    '-f', wavPath,
+    '-l', LOCAL_LANGUAGE,
+    '-t', String(LOCAL_THREADS),
+    '-oj',
+    '-of', outputPrefix,
+  ], { timeout: LOCAL_TIMEOUT_MS, maxBuffer: 50 * 1024 * 1024, signal });
+
+  const output = JSON.parse(fs.readFileSync(`${outputPrefix}.json`, 'utf8'));
+
+  // Offsets are in milliseconds
+  const segments = (output.transcription || [])
+    .map((seg: any) => ({
+      start: (seg.offsets?.from || 0) / 1000,
+      end: (seg.offsets?.to || 0) / 1000,
+      text: String(seg.text || '').trim(),
+    }))
+    .filter((seg: TranscriptSegment) => seg.text.length > 0);
+
+  return { segments, language: output.result?.language || null };
+}
+
+// faster-whisper via its openai-whisper compatible CLI (whisper-ctranslate2)
+async function runFasterWhisper(
+  audioPath: string,
+  workDir: string,
+  signal?: AbortSignal
+): Promise<{ segments: TranscriptSegment[]; language: string | null }> {
+  await execFilePromise(FASTER_WHISPER_BIN, [
+    audioPath,
+    '--model', FASTER_WHISPER_MODEL,
+    '--device', 'cpu',
+    '--compute_type', 'int8',
+    '--threads', String(LOCAL_THREADS),
+    '--output_format', 'json',
+    '--output_dir', workDir,
+    ...(LOCAL_LANGUAGE !== 'auto' ? ['--language', LOCAL_LANGUAGE] : []),
+  ], { timeout: LOCAL_TIMEOUT_MS, maxBuffer: 50 * 1024 * 1024, signal });
+
+  const jsonFile = fs.readdirSync(workDir).find(f => f.endsWith('.json'));
+  if (!jsonFile) throw new Error('faster-whisper produced no output');
+
+  const output = JSON.parse(fs.readFileSync(path.join(workDir, jsonFile), 'utf8'));
+
+  const segments = (output.segments || [])
+    .map((seg: any) => ({
+      start: seg.start || 0,
+      end: seg.end || 0,
+      text: String(seg.text || '').trim(),
+    }))
+    .filter((seg: TranscriptSegment) => seg.text.length > 0);
+
+  return { segments, language: output.language || null };
 }
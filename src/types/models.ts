@@ -0,0 +1,144 @@
+// Shared data model
+// Row shapes for the `projects`, `media` and `clips` tables, used by the
+// orchestrator, the legacy service and every worker
+
+import type { LicenseType } from '../utils/research-options.js';
+import type { PerceptualHash } from '../utils/perceptual-hash.js';
+
+// ============================================
+// MEDIA
+// ============================================
+
+export type MediaType = 'video' | 'image' | 'newspaper_scan' | 'article_screenshot';
+
+// Every item carries the same keys; null means the source didn't tell us
+export interface MediaMetadata {
+  thumbnail: string | null;
+  priority: number | null;        // source tier, lower is better
+  license: LicenseType | null;
+  license_url: string | null;     // license link as published by the source (Archive.org licenseurl)
+  snippet: string | null;         // text excerpt (web content)
+  date: string | null;            // publication / capture date as reported by the source
+  duration: number | null;        // seconds (video)
+  creator: string | null;         // author / producer as reported by the source
+  collection: string[] | null;    // Archive.org collections the item belongs to
+  width: number | null;
+  height: number | null;
+  format: string | null;          // file format as detected from the bytes, e.g. 'jpeg' (images)
+  bytes: number | null;           // stored file size
+  exif_date: string | null;       // capture date from EXIF, local time without zone (images)
+  page_type: string | null;       // web content page kind, e.g. 'newspaper', 'article'
+  needs_download: boolean;        // only a source reference so far, not yet rehosted
+  partial: boolean;               // saved by a run that was cancelled
+  relevance_score: number | null; // vision provider score for the topic, 0-1 (images)
+  relevance_description: string | null;
+  phash: string | null;           // perceptual hash of the thumbnail (images)
+  duplicates: MediaDuplicate[] | null; // same picture found at other sources, not saved separately
+  fingerprint: PerceptualHash[] | null; // keyframe hashes (videos)
+  duplicate_of: string | null;    // media id of the preferred copy of the same footage (videos)
+}
+
+export interface MediaDuplicate {
+  url: string;
+  source: string | null;
+  license: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface MediaItem {
+  id: string;
+  project_id: string;
+  type: MediaType;
+  title: string | null;
+  source: string | null;
+  source_url: string;
+  hosted_url: string;
+  storage_path: string | null;
+  metadata: MediaMetadata;
+  created_at?: string;
+}
+
+// What workers hand to the repository - ids, defaults and metadata are filled in
+export interface NewMediaItem {
+  id?: string;
+  project_id: string;
+  type: MediaType;
+  title?: string | null;
+  source?: string | null;
+  source_url: string;
+  hosted_url?: string | null;
+  storage_path?: string | null;
+  metadata?: Partial<MediaMetadata>;
+}
+
+// ============================================
+// CLIPS
+// ============================================
+
+export interface Clip {
+  id: string;
+  project_id: string | null;
+  media_id: string | null;
+  start_time: number;
+  end_time: number;
+  hosted_url: string;
+  storage_path: string | null;
+  // Set for clips picked by relevance analysis (auto: 'relevant')
+  description?: string | null;
+  relevance_score?: number | null;
+  created_at?: string;
+}
+
+// ============================================
+// TRANSCRIPTS
+// ============================================
+
+export interface TranscriptSegment {
+  start: number;  // seconds
+  end: number;    // seconds
+  text: string;
+}
+
+export type TranscriptEngine = 'openai' | 'whisper.cpp' | 'faster-whisper';
+
+// One row per video in `transcripts`, keyed by media id
+export interface Transcript {
+  media_id: string;
+  project_id: string | null;
+  segments: TranscriptSegment[];
+  language: string | null;
+  engine: TranscriptEngine;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// ============================================
+// PROJECTS
+// ============================================
+
+export type ProjectStatus = 'queued' | 'processing' | 'completed' | 'partial' | 'failed' | 'cancelled';
+
+export interface Project {
+  id: string;
+  topic: string;
+  slug: string;
+  status: ProjectStatus;
+  error_message: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  video_count: number | null;
+  image_count: number | null;
+  news_count: number | null;
+  worker_results: Record<string, any> | null;
+  save_report: { inserted: number; duplicates: number; failed: number; errors: string[] } | null;
+  callback_url: string | null;
+  callback_secret?: string | null;
+}
+
+// Shape of `results` in GET /v1/project/:id
+export interface ProjectResults {
+  images: MediaItem[];
+  videos: (MediaItem & { clips: Clip[] })[];
+  webContent: MediaItem[];
+}
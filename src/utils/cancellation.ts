@@ -0,0 +1,89 @@
+// Cancellation Utility
+// Per-project AbortSignal registry shared by the worker services
+//
+// A worker calls beginRun(projectId) when it starts work for a project and
+// finishRun(handle) when done. POST /cancel (fanned out by the
+// orchestrator) calls cancelRun(projectId), which aborts every in-flight
+// search loop, HTTP request and child process holding that signal.
+//
+// A request started after a cancel gets a new run under the same project id;
+// the cancelled request's finishRun only releases the run it joined.
+
+interface ProjectRun {
+  controller: AbortController;
+  refs: number;
+}
+
+export interface RunHandle {
+  signal: AbortSignal;
+  release(): void;      // idempotent - see finishRun
+}
+
+const runs = new Map<string, ProjectRun>();
+
+export class CancelledError extends Error {
+  constructor(message: string = 'Cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+// Start (or join) the run for a project. Without a project id the handle has a
+// signal of its own that nothing else can cancel.
+export function beginRun(projectId?: string | null): RunHandle {
+  if (!projectId) return { signal: new AbortController().signal, release: () => {} };
+
+  let run = runs.get(projectId);
+  if (!run || run.controller.signal.aborted) {
+    run = { controller: new AbortController(), refs: 0 };
+    runs.set(projectId, run);
+  }
+  run.refs++;
+
+  const joined = run;
+  let released = false;
+  return {
+    signal: joined.controller.signal,
+    release: () => {
+      if (released) return;
+      released = true;
+      joined.refs--;
+      if (joined.refs <= 0 && runs.get(projectId) === joined) runs.delete(projectId);
+    },
+  };
+}
+
+export function finishRun(handle: RunHandle): void {
+  handle.release();
+}
+
+// Abort every in-flight operation for a project. Returns false if nothing was running.
+export function cancelRun(projectId: string, reason: string = 'Cancelled by user'): boolean {
+  const run = runs.get(projectId);
+  if (!run) return false;
+  if (!run.controller.signal.aborted) {
+    run.controller.abort(new CancelledError(reason));
+  }
+  return true;
+}
+
+export function isRunActive(projectId: string): boolean {
+  return runs.has(projectId);
+}
+
+export function isCancelled(signal?: AbortSignal): boolean {
+  return !!signal?.aborted;
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new CancelledError();
+}
+
+// True for errors caused by an aborted signal (axios, child_process, fetch)
+export function isCancellationError(error: any): boolean {
+  return error instanceof CancelledError
+    || error?.name === 'AbortError'
+    || error?.name === 'CanceledError'
+    || error?.code === 'ERR_CANCELED'
+    || error?.code === 'ABORT_ERR';
+}
@@ -0,0 +1,217 @@
+// Circuit Breaker Utility
+// Stops a run from hammering an upstream (the SearXNG instance, Tavily,
+// Archive.org) or a single source that keeps failing.
+//
+//   closed     calls go through; consecutive failures are counted
+//   open       calls fail fast with CircuitOpenError until the backoff expires.
+//              Each trip in a row doubles the backoff, up to BREAKER_MAX_BACKOFF_MS
+//   half_open  one probe call is let through: success closes the breaker,
+//              failure opens it again with the next backoff
+//
+// Failures are network errors, timeouts, 429s and 5xx responses. Other 4xx
+// answers (a missing Archive.org item) and cancelled runs do not count.
+// State is per process; each worker reports its own in /health.
+//
+// Search calls go through withSearchBreakers: the upstream's breaker, plus the
+// breaker of the source being searched (see withSourceScope). An upstream
+// outage only counts against the upstream; a source is charged for a failure
+// only when other calls to the same upstream were answered meanwhile.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { isCancellationError } from './cancellation.js';
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface BreakerStatus {
+  name: string;
+  state: BreakerState;
+  consecutive_failures: number;
+  trips: number;              // times opened since the process started
+  last_error: string | null;
+  opened_at: string | null;
+  retry_at: string | null;
+}
+
+interface Breaker {
+  name: string;
+  state: BreakerState;
+  failures: number;
+  level: number;              // trips in a row without a successful call
+  trips: number;
+  probing: boolean;
+  lastError: string | null;
+  openedAt: number | null;
+  retryAt: number | null;
+  answeredAt: number | null;  // last call the upstream answered
+}
+
+// The source a worker is searching, set around its search functions
+export interface SourceScope {
+  breaker?: string;                  // per-source circuit breaker
+  onError?: (error: any) => void;    // failed searches, see reportSearchError
+}
+
+export const UPSTREAM_BREAKERS = {
+  searxng: 'searxng',
+  tavily: 'tavily',
+  archiveOrg: 'archive.org',
+} as const;
+
+const FAILURE_THRESHOLD = parseInt(process.env.BREAKER_FAILURE_THRESHOLD || '5');
+const BASE_BACKOFF_MS = parseInt(process.env.BREAKER_BASE_BACKOFF_MS || '30000');
+const MAX_BACKOFF_MS = parseInt(process.env.BREAKER_MAX_BACKOFF_MS || '900000');
+
+const breakers = new Map<string, Breaker>();
+const sourceScope = new AsyncLocalStorage<SourceScope>();
+
+export class CircuitOpenError extends Error {
+  constructor(public breaker: string, public retryAt: number) {
+    super(`Circuit open for ${breaker} until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// ============================================
+// CALLS
+// ============================================
+
+export async function withCircuitBreaker<T>(
+  name: string,
+  call: () => Promise<T>,
+  countsAsFailure: (error: any) => boolean = isBreakerFailure
+): Promise<T> {
+  const breaker = getBreaker(name);
+  acquire(breaker);
+
+  try {
+    const result = await call();
+    recordSuccess(breaker);
+    return result;
+  } catch (error: any) {
+    if (countsAsFailure(error)) recordFailure(breaker, error);
+    else if (!isBreakerFailure(error) && typeof httpStatus(error) === 'number') recordSuccess(breaker);   // it answered
+    else breaker.probing = false;
+    throw error;
+  }
+}
+
+// Runs a source's searches with its breaker and error callback. The search
+// functions log failures and return [] so one dead engine never fails a run;
+// onError lets callers count them (per-source statistics).
+export function withSourceScope<T>(source: SourceScope, run: () => Promise<T>): Promise<T> {
+  return sourceScope.run(source, run);
+}
+
+// An upstream call behind the upstream's circuit breaker and the current source's
+export function withSearchBreakers<T>(upstream: string, call: () => Promise<T>): Promise<T> {
+  const upstreamCall = () => withCircuitBreaker(upstream, call);
+  const source = sourceScope.getStore()?.breaker;
+  if (!source) return upstreamCall();
+
+  const startedAt = Date.now();
+  return withCircuitBreaker(source, upstreamCall, error =>
+    isBreakerFailure(error) && (breakers.get(upstream)?.answeredAt ?? 0) >= startedAt
+  );
+}
+
+export function reportSearchError(error: any): void {
+  sourceScope.getStore()?.onError?.(error);
+}
+
+// Whether a call would be rejected right now (without claiming the half-open probe)
+export function isCircuitOpen(name: string): boolean {
+  const breaker = breakers.get(name);
+  if (!breaker || breaker.state === 'closed') return false;
+  if (breaker.state === 'open') return Date.now() < breaker.retryAt!;
+  return breaker.probing;
+}
+
+export function isBreakerFailure(error: any): boolean {
+  if (error instanceof CircuitOpenError || isCancellationError(error)) return false;
+
+  const status = httpStatus(error);
+  if (typeof status !== 'number') return true;   // network error or timeout
+  return status === 429 || status >= 500;
+}
+
+function httpStatus(error: any): number | undefined {
+  return error?.response?.status ?? error?.status;
+}
+
+// ============================================
+// STATE
+// ============================================
+
+function getBreaker(name: string): Breaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = {
+      name,
+      state: 'closed',
+      failures: 0,
+      level: 0,
+      trips: 0,
+      probing: false,
+      lastError: null,
+      openedAt: null,
+      retryAt: null,
+      answeredAt: null,
+    };
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+function acquire(breaker: Breaker): void {
+  if (breaker.state === 'open') {
+    if (Date.now() < breaker.retryAt!) throw new CircuitOpenError(breaker.name, breaker.retryAt!);
+    breaker.state = 'half_open';
+    console.log(`[Breaker] ${breaker.name} half-open, probing`);
+  }
+
+  if (breaker.state === 'half_open') {
+    if (breaker.probing) throw new CircuitOpenError(breaker.name, breaker.retryAt!);
+    breaker.probing = true;
+  }
+}
+
+function recordSuccess(breaker: Breaker): void {
+  if (breaker.state !== 'closed') console.log(`[Breaker] ${breaker.name} closed`);
+  breaker.state = 'closed';
+  breaker.failures = 0;
+  breaker.level = 0;
+  breaker.probing = false;
+  breaker.openedAt = null;
+  breaker.retryAt = null;
+  breaker.answeredAt = Date.now();
+}
+
+function recordFailure(breaker: Breaker, error: any): void {
+  breaker.failures++;
+  breaker.lastError = error?.message || String(error);
+
+  if (breaker.state === 'half_open' || breaker.failures >= FAILURE_THRESHOLD) {
+    const backoff = Math.min(BASE_BACKOFF_MS * 2 ** breaker.level, MAX_BACKOFF_MS);
+    breaker.state = 'open';
+    breaker.level++;
+    breaker.trips++;
+    breaker.probing = false;
+    breaker.openedAt = Date.now();
+    breaker.retryAt = breaker.openedAt + backoff;
+    console.log(`[Breaker] ${breaker.name} open for ${Math.round(backoff / 1000)}s after ${breaker.failures} failures: ${breaker.lastError}`);
+  }
+}
+
+// For /health: every breaker this process has used (or just the named ones)
+export function getBreakerStatus(names?: string[]): BreakerStatus[] {
+  return [...breakers.values()].filter(breaker => !names || names.includes(breaker.name)).map(breaker => ({
+    name: breaker.name,
+    // An expired backoff is only moved to half_open by the next call
+    state: breaker.state === 'open' && Date.now() >= breaker.retryAt! ? 'half_open' : breaker.state,
+    consecutive_failures: breaker.failures,
+    trips: breaker.trips,
+    last_error: breaker.lastError,
+    opened_at: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : null,
+    retry_at: breaker.retryAt ? new Date(breaker.retryAt).toISOString() : null,
+  }));
+}
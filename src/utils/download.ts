@@ -0,0 +1,204 @@
+// Streaming Download Utility
+// Writes HTTP downloads straight to disk instead of buffering them in memory
+//
+// - resumes with a Range request when the connection drops mid-transfer
+// - enforces a size limit from Content-Length up front and by counting bytes
+// - rejects unexpected content types before writing anything
+// - reports progress (throttled) for long downloads
+
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+const DOWNLOAD_MAX_BYTES = parseInt(process.env.DOWNLOAD_MAX_BYTES || String(1024 * 1024 * 1024)); // 1GB
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+// CDNs and Archive.org often serve video as a generic binary type
+export const VIDEO_CONTENT_TYPES = ['video/', 'application/octet-stream', 'binary/octet-stream'];
+
+export interface DownloadProgress {
+  bytes: number;
+  total: number | null;
+  percent: number | null;
+}
+
+export interface DownloadOptions {
+  maxBytes?: number;
+  // Accepted Content-Type prefixes, e.g. ['video/', 'application/octet-stream']
+  allowedContentTypes?: string[];
+  timeoutMs?: number;            // per request, until headers arrive
+  maxResumes?: number;           // Range retries after a dropped connection
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  onProgress?: (progress: DownloadProgress) => void;
+  progressIntervalMs?: number;
+}
+
+export interface DownloadResult {
+  path: string;
+  bytes: number;
+  contentType: string | null;
+  resumes: number;
+}
+
+export type DownloadErrorCode = 'too_large' | 'bad_content_type' | 'http_error' | 'aborted' | 'network';
+
+export class DownloadError extends Error {
+  constructor(public code: DownloadErrorCode, message: string) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+// ============================================
+// DOWNLOAD
+// ============================================
+
+export async function downloadToFile(
+  url: string,
+  outputPath: string,
+  options: DownloadOptions = {}
+): Promise<DownloadResult> {
+  const {
+    maxBytes = DOWNLOAD_MAX_BYTES,
+    allowedContentTypes,
+    timeoutMs = 60000,
+    maxResumes = 3,
+    signal,
+    headers = {},
+    onProgress,
+    progressIntervalMs = 1000,
+  } = options;
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.rmSync(outputPath, { force: true });
+
+  let bytes = 0;
+  let total: number | null = null;
+  let contentType: string | null = null;
+  let resumes = 0;
+  let lastReport = 0;
+
+  const report = (force = false) => {
+    if (!onProgress) return;
+    const now = Date.now();
+    if (!force && now - lastReport < progressIntervalMs) return;
+    lastReport = now;
+    onProgress({ bytes, total, percent: total ? Math.min(100, Math.round((bytes / total) * 100)) : null });
+  };
+
+  try {
+    while (true) {
+      if (signal?.aborted) throw new DownloadError('aborted', 'Download cancelled');
+
+      // Resume from what actually reached the disk, not what was counted in flight
+      if (bytes > 0) bytes = fs.existsSync(outputPath) ? fs.statSync(outputPath).size : 0;
+      const resuming = bytes > 0;
+      let response;
+      try {
+        response = await axios.get(url, {
+          responseType: 'stream',
+          timeout: timeoutMs,
+          signal,
+          maxRedirects: 5,
+          validateStatus: () => true,
+          headers: {
+            'User-Agent': DEFAULT_USER_AGENT,
+            ...headers,
+            ...(resuming ? { Range: `bytes=${bytes}-` } : {}),
+          },
+        });
+      } catch (error: any) {
+        if (signal?.aborted || axios.isCancel(error)) throw new DownloadError('aborted', 'Download cancelled');
+        if (resumes < maxResumes) {
+          resumes++;
+          await new Promise(resolve => setTimeout(resolve, 1000 * resumes));
+          continue;
+        }
+        throw new DownloadError('network', error.message);
+      }
+
+      const { status } = response;
+
+      // Nothing left to fetch - the previous attempt already got every byte
+      if (status === 416 && resuming && total !== null && bytes >= total) {
+        response.data.destroy();
+        break;
+      }
+
+      if (status !== 200 && status !== 206) {
+        response.data.destroy();
+        throw new DownloadError('http_error', `HTTP ${status}`);
+      }
+
+      // Server ignored the Range header: start over
+      const append = resuming && status === 206;
+      if (resuming && !append) bytes = 0;
+
+      if (!append) {
+        contentType = (response.headers['content-type'] as string | undefined)?.split(';')[0].trim().toLowerCase() || null;
+        if (allowedContentTypes && !allowedContentTypes.some(t => contentType?.startsWith(t))) {
+          response.data.destroy();
+          throw new DownloadError('bad_content_type', `Unexpected content type: ${contentType || 'none'}`);
+        }
+
+        const length = parseInt(response.headers['content-length'] as string);
+        total = isNaN(length) ? null : length;
+      }
+
+      if (total !== null && total > maxBytes) {
+        response.data.destroy();
+        throw new DownloadError('too_large', `File is ${(total / 1024 / 1024).toFixed(1)} MB, limit is ${(maxBytes / 1024 / 1024).toFixed(1)} MB`);
+      }
+
+      // Count bytes as they stream through; Content-Length can be missing or wrong
+      const counter = new Transform({
+        transform(chunk, _encoding, callback) {
+          bytes += chunk.length;
+          if (bytes > maxBytes) {
+            callback(new DownloadError('too_large', `Download exceeded ${(maxBytes / 1024 / 1024).toFixed(1)} MB`));
+            return;
+          }
+          report();
+          callback(null, chunk);
+        },
+      });
+
+      try {
+        await pipeline(response.data, counter, fs.createWriteStream(outputPath, { flags: append ? 'a' : 'w' }));
+      } catch (error: any) {
+        if (error instanceof DownloadError) throw error;
+        if (signal?.aborted) throw new DownloadError('aborted', 'Download cancelled');
+
+        // Connection dropped mid-transfer: resume from what we have
+        if (resumes < maxResumes) {
+          resumes++;
+          console.log(`[Download] Interrupted at ${bytes} bytes (${error.message}), resuming (${resumes}/${maxResumes})`);
+          await new Promise(resolve => setTimeout(resolve, 1000 * resumes));
+          continue;
+        }
+        throw new DownloadError('network', error.message);
+      }
+
+      // Stream ended early without an error
+      if (total !== null && bytes < total && resumes < maxResumes) {
+        resumes++;
+        continue;
+      }
+      if (total !== null && bytes < total) {
+        throw new DownloadError('network', `Incomplete download: ${bytes} of ${total} bytes`);
+      }
+
+      break;
+    }
+  } catch (error) {
+    // Never leave a partial file behind
+    fs.rmSync(outputPath, { force: true });
+    throw error;
+  }
+
+  report(true);
+  return { path: outputPath, bytes, contentType, resumes };
+}
@@ -0,0 +1,176 @@
+// Image Metadata
+// Identifies image files from their leading bytes and reads the capture date
+// from EXIF (JPEG APP1, TIFF, PNG eXIf and WebP EXIF chunks)
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'tiff' | 'bmp' | 'avif' | 'heic';
+
+export const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: '.jpg',
+  png: '.png',
+  gif: '.gif',
+  webp: '.webp',
+  tiff: '.tif',
+  bmp: '.bmp',
+  avif: '.avif',
+  heic: '.heic',
+};
+
+// EXIF tags holding dates, in order of preference
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+
+// ============================================
+// FORMAT
+// ============================================
+
+// null = not an image we recognise (HTML error pages, SVG, truncated files)
+export function detectImageFormat(data: Buffer): ImageFormat | null {
+  if (data.length < 12) return null;
+
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpeg';
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (data.toString('ascii', 0, 4) === 'GIF8') return 'gif';
+  if (data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  if (isTiffHeader(data, 0)) return 'tiff';
+  if (data.toString('ascii', 0, 2) === 'BM') return 'bmp';
+
+  // ISO-BMFF: "ftyp" box with the brand right after
+  if (data.toString('ascii', 4, 8) === 'ftyp') {
+    const brand = data.toString('ascii', 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'avif';
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'heic';
+  }
+
+  return null;
+}
+
+// ============================================
+// EXIF DATE
+// ============================================
+
+// Capture date as an ISO-8601 local time ("1936-07-04T14:05:00"), or null.
+// EXIF stores no time zone, so none is added.
+export function readExifDate(data: Buffer): string | null {
+  const tiff = findExifBlock(data);
+  if (tiff === null) return null;
+
+  try {
+    const tags = readDateTags(data, tiff);
+    for (const tag of [TAG_DATE_TIME_ORIGINAL, TAG_DATE_TIME_DIGITIZED, TAG_DATE_TIME]) {
+      const date = tags.get(tag);
+      const parsed = date ? parseExifDate(date) : null;
+      if (parsed) return parsed;
+    }
+  } catch {
+    // Corrupt EXIF is common and never worth failing an image over
+  }
+  return null;
+}
+
+// Offset of the TIFF header that starts the EXIF data
+function findExifBlock(data: Buffer): number | null {
+  const format = detectImageFormat(data);
+
+  if (format === 'tiff') return 0;
+
+  if (format === 'jpeg') {
+    let offset = 2;
+    while (offset + 4 <= data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      // Start of scan: no more metadata segments
+      if (marker === 0xda) break;
+      if (marker === 0xe1 && data.toString('ascii', offset + 4, offset + 8) === 'Exif') return offset + 10;
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  if (format === 'png') {
+    let offset = 8;
+    while (offset + 8 <= data.length) {
+      const length = data.readUInt32BE(offset);
+      const type = data.toString('ascii', offset + 4, offset + 8);
+      if (type === 'eXIf') return offset + 8;
+      if (type === 'IEND') break;
+      offset += 12 + length;
+    }
+    return null;
+  }
+
+  if (format === 'webp') {
+    let offset = 12;
+    while (offset + 8 <= data.length) {
+      const type = data.toString('ascii', offset, offset + 4);
+      const length = data.readUInt32LE(offset + 4);
+      if (type === 'EXIF') {
+        // Some encoders keep the JPEG-style "Exif\0\0" prefix
+        const start = offset + 8;
+        return data.toString('ascii', start, start + 4) === 'Exif' ? start + 6 : start;
+      }
+      offset += 8 + length + (length % 2);
+    }
+    return null;
+  }
+
+  return null;
+}
+
+function readDateTags(data: Buffer, tiff: number): Map<number, string> {
+  if (!isTiffHeader(data, tiff)) return new Map();
+  const little = data[tiff] === 0x49;
+  const u16 = (at: number) => (little ? data.readUInt16LE(at) : data.readUInt16BE(at));
+  const u32 = (at: number) => (little ? data.readUInt32LE(at) : data.readUInt32BE(at));
+
+  const tags = new Map<number, string>();
+  const readIfd = (ifdOffset: number, depth: number) => {
+    const start = tiff + ifdOffset;
+    if (depth > 1 || start + 2 > data.length) return;
+
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      if (entry + 12 > data.length) return;
+
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const length = u32(entry + 4);
+
+      if (tag === TAG_EXIF_IFD) {
+        readIfd(u32(entry + 8), depth + 1);
+      } else if (type === 2 && [TAG_DATE_TIME_ORIGINAL, TAG_DATE_TIME_DIGITIZED, TAG_DATE_TIME].includes(tag)) {
+        // ASCII values longer than 4 bytes live at an offset
+        const valueAt = length > 4 ? tiff + u32(entry + 8) : entry + 8;
+        if (valueAt + length <= data.length) {
+          tags.set(tag, data.toString('ascii', valueAt, valueAt + length).replace(/\0+$/, '').trim());
+        }
+      }
+    }
+  };
+
+  readIfd(u32(tiff + 4), 0);
+  return tags;
+}
+
+// "YYYY:MM:DD HH:MM:SS" -> "YYYY-MM-DDTHH:MM:SS"; placeholder dates are rejected
+function parseExifDate(value: string): string | null {
+  const match = value.match(/^(\d{4})[:\-](\d{2})[:\-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const y = parseInt(year);
+  if (y < 1826 || y > new Date().getFullYear() + 1) return null;  // first photograph .. next year
+  if (parseInt(month) < 1 || parseInt(month) > 12 || parseInt(day) < 1 || parseInt(day) > 31) return null;
+
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+}
+
+function isTiffHeader(data: Buffer, offset: number): boolean {
+  if (offset + 8 > data.length) return false;
+  const order = data.toString('ascii', offset, offset + 2);
+  if (order === 'II') return data.readUInt16LE(offset + 2) === 42;
+  if (order === 'MM') return data.readUInt16BE(offset + 2) === 42;
+  return false;
+}
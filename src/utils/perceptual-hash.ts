@@ -0,0 +1,142 @@
+// Perceptual Hashing
+// 64-bit fingerprints that stay (nearly) the same when an image is resized,
+// recompressed or lightly retouched - unlike a byte hash
+//
+// - dHash: sign of the brightness gradient between neighbouring pixels (9x8 grid)
+// - pHash: sign of the low-frequency DCT coefficients against their median (32x32 grid)
+//
+// Both take 8-bit grayscale pixels, row-major. Hashes are 16-char hex strings.
+
+export const HASH_INPUT_SIZE = 32;
+
+export interface PerceptualHash {
+  dhash: string;
+  phash: string;
+}
+
+// ============================================
+// HASHES
+// ============================================
+
+export function computeHashes(pixels: Uint8Array, width: number = HASH_INPUT_SIZE, height: number = HASH_INPUT_SIZE): PerceptualHash {
+  const grid = width === HASH_INPUT_SIZE && height === HASH_INPUT_SIZE
+    ? Float64Array.from(pixels)
+    : resize(pixels, width, height, HASH_INPUT_SIZE, HASH_INPUT_SIZE);
+
+  return {
+    dhash: dHash(resize(grid, HASH_INPUT_SIZE, HASH_INPUT_SIZE, 9, 8)),
+    phash: pHash(grid),
+  };
+}
+
+function dHash(pixels: ArrayLike<number>): string {
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(pixels[y * 9 + x] < pixels[y * 9 + x + 1]);
+    }
+  }
+  return toHex(bits);
+}
+
+// cos((2i + 1) * k * PI / 2N) for the 8 lowest frequencies
+const DCT_TABLE = Array.from({ length: 8 }, (_, k) =>
+  Array.from({ length: HASH_INPUT_SIZE }, (_, i) => Math.cos(((2 * i + 1) * k * Math.PI) / (2 * HASH_INPUT_SIZE)))
+);
+
+function pHash(pixels: ArrayLike<number>): string {
+  const n = HASH_INPUT_SIZE;
+  const coefficients: number[] = [];
+
+  // Only the top-left 8x8 block of the 2D DCT-II is needed
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let sum = 0;
+      for (let y = 0; y < n; y++) {
+        for (let x = 0; x < n; x++) {
+          sum += pixels[y * n + x] * DCT_TABLE[u][y] * DCT_TABLE[v][x];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is overall brightness - leave it out of the median
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[31];
+  return toHex(coefficients.map(c => c > median));
+}
+
+// ============================================
+// COMPARISON
+// ============================================
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i += 4) {
+    let diff = parseInt(a.slice(i, i + 4) || '0', 16) ^ parseInt(b.slice(i, i + 4) || '0', 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+// Both hashes have to agree - either alone gives false matches on flat or dark images
+export function isNearDuplicate(a: PerceptualHash, b: PerceptualHash, maxDistance: number): boolean {
+  return hammingDistance(a.phash, b.phash) <= maxDistance && hammingDistance(a.dhash, b.dhash) <= maxDistance;
+}
+
+// Groups indexes whose hashes are near-duplicates of their cluster's representative
+export function clusterByHash(hashes: PerceptualHash[], maxDistance: number): number[][] {
+  return clusterIndexes(hashes.length, (i, j) => isNearDuplicate(hashes[i], hashes[j], maxDistance));
+}
+
+// Indexes are taken in order: each joins the first cluster whose representative
+// (its first member) matches it, or starts a new one. Unlike single linkage,
+// A~B and B~C don't chain A and C together. Callers pass items best first, so
+// the representative is also the copy to keep.
+export function clusterIndexes(count: number, isMatch: (representative: number, i: number) => boolean): number[][] {
+  const clusters: number[][] = [];
+
+  for (let i = 0; i < count; i++) {
+    const cluster = clusters.find(members => isMatch(members[0], i));
+    if (cluster) cluster.push(i);
+    else clusters.push([i]);
+  }
+  return clusters;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Area-average downscale (or nearest-neighbour upscale)
+function resize(pixels: ArrayLike<number>, width: number, height: number, newWidth: number, newHeight: number): Float64Array {
+  const out = new Float64Array(newWidth * newHeight);
+  const scaleX = width / newWidth;
+  const scaleY = height / newHeight;
+
+  for (let y = 0; y < newHeight; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < newWidth; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+      let sum = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) sum += pixels[sy * width + sx];
+      }
+      out[y * newWidth + x] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+function toHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+}
@@ -0,0 +1,46 @@
+// Progress Reporting Utility
+// Workers push per-phase progress events to the orchestrator, which streams
+// them to clients over GET /v1/project/:id/events (Server-Sent Events).
+// With INTERNAL_API_TOKEN set, events carry it as X-Internal-Token; without
+// it the orchestrator only accepts events from loopback.
+
+import axios from 'axios';
+
+// Workers run in the same container as the orchestrator, so PORT is the orchestrator's port
+const ORCHESTRATOR_URL = process.env.ORCHESTRATOR_URL || `http://localhost:${process.env.PORT || 3000}`;
+const INTERNAL_API_TOKEN = process.env.INTERNAL_API_TOKEN;
+
+export type ProgressSource = 'orchestrator' | 'video' | 'image' | 'webcontent' | 'ffmpeg';
+
+export interface ProjectEvent {
+  id?: number;           // assigned by the orchestrator, used as the SSE event id
+  projectId: string;
+  worker: ProgressSource;
+  phase: string;         // e.g. 'source_done', 'screenshot_saved', 'clip_uploaded'
+  data?: Record<string, any>;
+  timestamp: string;
+}
+
+// Fire-and-forget: progress must never slow down or break the actual work
+export function reportProgress(
+  projectId: string | undefined,
+  worker: ProgressSource,
+  phase: string,
+  data: Record<string, any> = {}
+): void {
+  if (!projectId) return;
+
+  const event: ProjectEvent = {
+    projectId,
+    worker,
+    phase,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+
+  axios.post(`${ORCHESTRATOR_URL}/internal/progress`, event, {
+    timeout: 5000,
+    headers: INTERNAL_API_TOKEN ? { 'X-Internal-Token': INTERNAL_API_TOKEN } : {},
+  })
+    .catch(() => { /* orchestrator offline - progress is best effort */ });
+}
@@ -0,0 +1,183 @@
+// Research Options
+// Typed schema for `options` on POST /v1/research, plus the filters workers
+// apply to their results before saving
+
+export type ResearchWorker = 'video' | 'image' | 'webcontent';
+export type LicenseType = 'public_domain' | 'creative_commons' | 'editorial' | 'commercial' | 'mixed' | 'unknown';
+
+export const RESEARCH_WORKERS: ResearchWorker[] = ['video', 'image', 'webcontent'];
+export const LICENSE_TYPES: LicenseType[] = ['public_domain', 'creative_commons', 'editorial', 'commercial', 'mixed', 'unknown'];
+
+export interface ResearchOptions {
+  workers: ResearchWorker[];      // which workers to run
+  maxVideos: number;
+  maxImages: number;
+  maxWebContent: number;
+  dateFrom: string | null;        // YYYY-MM-DD, inclusive
+  dateTo: string | null;          // YYYY-MM-DD, inclusive
+  languages: string[];            // ISO 639-1 codes, empty = any
+  licenses: LicenseType[];        // empty = any
+  screenshots: boolean;           // web content screenshots on/off
+  minImageRelevance: number | null; // drop images scoring below this (0-1); null = worker default, 0 = off
+}
+
+// What each worker's /search receives under `options`
+export interface WorkerSearchOptions {
+  maxResults: number;
+  dateFrom: string | null;
+  dateTo: string | null;
+  languages: string[];
+  licenses: LicenseType[];
+}
+
+export const DEFAULT_RESEARCH_OPTIONS: ResearchOptions = {
+  workers: [...RESEARCH_WORKERS],
+  maxVideos: 100,
+  maxImages: 200,
+  maxWebContent: 100,
+  dateFrom: null,
+  dateTo: null,
+  languages: [],
+  licenses: [],
+  screenshots: true,
+  minImageRelevance: null,
+};
+
+const MAX_LIMIT = 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
+
+// ============================================
+// VALIDATION
+// ============================================
+
+// Accepts camelCase keys and the legacy snake_case ones used by src/index.ts
+// (max_videos, max_images, max_news)
+export function parseResearchOptions(input: any): { options: ResearchOptions; errors: string[] } {
+  const errors: string[] = [];
+  const options: ResearchOptions = { ...DEFAULT_RESEARCH_OPTIONS, workers: [...DEFAULT_RESEARCH_OPTIONS.workers] };
+
+  if (input === undefined || input === null) return { options, errors };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { options, errors: ['options must be an object'] };
+  }
+
+  if (input.workers !== undefined) {
+    if (!Array.isArray(input.workers) || input.workers.some((w: any) => !RESEARCH_WORKERS.includes(w))) {
+      errors.push(`workers must be an array of: ${RESEARCH_WORKERS.join(', ')}`);
+    } else if (input.workers.length === 0) {
+      errors.push('workers must include at least one worker');
+    } else {
+      options.workers = [...new Set<ResearchWorker>(input.workers)];
+    }
+  }
+
+  const limits: [keyof ResearchOptions, any][] = [
+    ['maxVideos', input.maxVideos ?? input.max_videos],
+    ['maxImages', input.maxImages ?? input.max_images],
+    ['maxWebContent', input.maxWebContent ?? input.max_news],
+  ];
+  for (const [key, value] of limits) {
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < 0 || value > MAX_LIMIT) {
+      errors.push(`${key} must be an integer between 0 and ${MAX_LIMIT}`);
+    } else {
+      (options as any)[key] = value;
+    }
+  }
+
+  for (const key of ['dateFrom', 'dateTo'] as const) {
+    const value = input[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+      errors.push(`${key} must be a date in YYYY-MM-DD format`);
+    } else {
+      options[key] = value;
+    }
+  }
+  if (options.dateFrom && options.dateTo && options.dateFrom > options.dateTo) {
+    errors.push('dateFrom must not be after dateTo');
+  }
+
+  if (input.languages !== undefined) {
+    if (!Array.isArray(input.languages) || input.languages.some((l: any) => typeof l !== 'string' || !LANGUAGE_PATTERN.test(l.toLowerCase()))) {
+      errors.push('languages must be an array of two-letter ISO 639-1 codes');
+    } else {
+      options.languages = [...new Set<string>(input.languages.map((l: string) => l.toLowerCase()))];
+    }
+  }
+
+  if (input.licenses !== undefined) {
+    if (!Array.isArray(input.licenses) || input.licenses.some((l: any) => !LICENSE_TYPES.includes(l))) {
+      errors.push(`licenses must be an array of: ${LICENSE_TYPES.join(', ')}`);
+    } else {
+      options.licenses = [...new Set<LicenseType>(input.licenses)];
+    }
+  }
+
+  if (input.screenshots !== undefined) {
+    if (typeof input.screenshots !== 'boolean') errors.push('screenshots must be a boolean');
+    else options.screenshots = input.screenshots;
+  }
+
+  const minImageRelevance = input.minImageRelevance ?? input.min_image_relevance;
+  if (minImageRelevance !== undefined && minImageRelevance !== null) {
+    if (typeof minImageRelevance !== 'number' || minImageRelevance < 0 || minImageRelevance > 1) {
+      errors.push('minImageRelevance must be a number between 0 and 1');
+    } else {
+      options.minImageRelevance = minImageRelevance;
+    }
+  }
+
+  return { options, errors };
+}
+
+export function workerSearchOptions(options: ResearchOptions, maxResults: number): WorkerSearchOptions {
+  return {
+    maxResults,
+    dateFrom: options.dateFrom,
+    dateTo: options.dateTo,
+    languages: options.languages,
+    licenses: options.licenses,
+  };
+}
+
+// ============================================
+// RESULT FILTERS (used by the workers)
+// ============================================
+
+// Fill in anything a caller left out (workers may be called directly)
+export function resolveWorkerOptions(input: any, defaultMax: number): WorkerSearchOptions {
+  return {
+    maxResults: Number.isInteger(input?.maxResults) && input.maxResults >= 0 ? input.maxResults : defaultMax,
+    dateFrom: input?.dateFrom || null,
+    dateTo: input?.dateTo || null,
+    languages: Array.isArray(input?.languages) ? input.languages : [],
+    licenses: Array.isArray(input?.licenses) ? input.licenses : [],
+  };
+}
+
+// Items without a license or date are kept - most sources don't report them
+export function applyResultFilters<T extends { license?: string; date?: string | null }>(
+  items: T[],
+  options: WorkerSearchOptions
+): T[] {
+  const from = options.dateFrom ? Date.parse(options.dateFrom) : null;
+  const to = options.dateTo ? Date.parse(options.dateTo) + 24 * 60 * 60 * 1000 - 1 : null;
+
+  return items.filter(item => {
+    if (options.licenses.length > 0 && item.license && !options.licenses.includes(item.license as LicenseType)) {
+      return false;
+    }
+
+    if ((from !== null || to !== null) && item.date) {
+      const time = Date.parse(item.date);
+      if (!isNaN(time)) {
+        if (from !== null && time < from) return false;
+        if (to !== null && time > to) return false;
+      }
+    }
+
+    return true;
+  }).slice(0, options.maxResults);
+}
@@ -0,0 +1,92 @@
+// Search Scope Utility
+// Per-run search scope from the research options (languages, earliest date).
+// Set once around a worker's search phase instead of threading it through
+// every source function; the SearXNG and Tavily clients read it.
+//
+// SearXNG narrows by language server-side. Upstreams that can't (Tavily) use
+// inSearchLanguages() on their results, which detects the language from the
+// script and common words - text too short or too mixed to tell is kept.
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface SearchScope {
+  languages?: string[];
+  dateFrom?: string | null;
+}
+
+const searchScope = new AsyncLocalStorage<SearchScope>();
+
+export function withSearchScope<T>(scope: SearchScope, run: () => Promise<T>): Promise<T> {
+  return searchScope.run(scope, run);
+}
+
+export function getSearchScope(): SearchScope {
+  return searchScope.getStore() || {};
+}
+
+// ============================================
+// LANGUAGE DETECTION
+// ============================================
+
+// Scripts used by a single language in our ISO 639-1 set
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[가-힯]/g, 'ko'],
+  [/[֐-׿]/g, 'he'],
+  [/[Ͱ-Ͽ]/g, 'el'],
+  [/[ऀ-ॿ]/g, 'hi'],
+  [/[฀-๿]/g, 'th'],
+];
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'with', 'was', 'on', 'are', 'from', 'this'],
+  es: ['el', 'la', 'de', 'que', 'y', 'los', 'las', 'del', 'en', 'por', 'con', 'una', 'para', 'es'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'du', 'une', 'dans', 'pour', 'qui', 'sur', 'au'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'den', 'von', 'zu', 'ein', 'eine', 'auf', 'im'],
+  it: ['il', 'di', 'che', 'e', 'la', 'per', 'una', 'del', 'della', 'non', 'sono', 'con', 'gli', 'nel'],
+  pt: ['o', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'os', 'dos'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'op', 'te', 'zijn', 'met', 'voor', 'ook'],
+  sv: ['och', 'att', 'det', 'som', 'en', 'är', 'av', 'för', 'med', 'till', 'den', 'inte', 'på', 'har'],
+  pl: ['i', 'w', 'nie', 'na', 'się', 'z', 'że', 'do', 'jest', 'to', 'jak', 'po', 'od', 'oraz'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'olarak', 'çok', 'daha', 'gibi', 'olan', 'ama', 'ne'],
+};
+
+const MIN_STOPWORD_HITS = 2;
+
+// ISO 639-1 code, or null when the text doesn't say clearly enough
+export function detectLanguage(text: string): string | null {
+  const letters = text.match(/\p{L}/gu)?.length || 0;
+  if (letters === 0) return null;
+
+  for (const [pattern, language] of SCRIPT_LANGUAGES) {
+    if ((text.match(pattern)?.length || 0) / letters > 0.2) return language;
+  }
+
+  // Japanese mixes kana into Han text
+  const cjk = text.match(/[぀-ヿ一-鿿]/g)?.length || 0;
+  if (cjk / letters > 0.2) return /[぀-ヿ]/.test(text) ? 'ja' : 'zh';
+
+  const cyrillic = text.match(/[Ѐ-ӿ]/g)?.length || 0;
+  if (cyrillic / letters > 0.5) return /[іїєґ]/i.test(text) ? 'uk' : 'ru';
+
+  const arabic = text.match(/[؀-ۿ]/g)?.length || 0;
+  if (arabic / letters > 0.5) return /[پچژگ]/.test(text) ? 'fa' : 'ar';
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({ language, hits: words.filter(word => stopwords.includes(word)).length }))
+    .sort((a, b) => b.hits - a.hits);
+
+  // A tie is the related languages sharing words (es/pt, fr/es) - not sure enough
+  const [best, runnerUp] = scores;
+  if (best.hits < MIN_STOPWORD_HITS || best.hits === runnerUp.hits) return null;
+  return best.language;
+}
+
+// Whether a result fits the scoped languages; undetectable text is kept
+export function inSearchLanguages(text: string): boolean {
+  const languages = getSearchScope().languages || [];
+  if (languages.length === 0) return true;
+
+  const language = detectLanguage(text);
+  return language === null || languages.includes(language);
+}
@@ -2,9 +2,65 @@
 // Replaces Serper API with self-hosted SearXNG
 
 import axios from 'axios';
+import { withSearchBreakers, reportSearchError, UPSTREAM_BREAKERS } from './circuit-breaker.js';
+import { getSearchScope } from './search-scope.js';
 
 const SEARXNG_URL = process.env.SEARXNG_URL || 'http://bcgcoss4c40k8kgsoc0sw40g.46.224.208.101.sslip.io';
 
+// Coarse server-side narrowing by the scope's dateFrom; workers filter exact dates afterwards
+function timeRangeParams(): Record<string, string> {
+  const { dateFrom } = getSearchScope();
+  if (!dateFrom) return {};
+
+  const ageDays = (Date.now() - Date.parse(dateFrom)) / (24 * 60 * 60 * 1000);
+  if (ageDays <= 1) return { time_range: 'day' };
+  if (ageDays <= 7) return { time_range: 'week' };
+  if (ageDays <= 31) return { time_range: 'month' };
+  if (ageDays <= 366) return { time_range: 'year' };
+  return {};
+}
+
+// SearXNG takes a single language, so a scope with several runs one query per
+// language and interleaves the results (each language keeps its own ranking).
+// Fails only when every language's query failed.
+async function searxngSearch(params: Record<string, string>, signal?: AbortSignal): Promise<any[]> {
+  const languages = getSearchScope().languages || [];
+  const settled = await Promise.allSettled((languages.length > 0 ? languages : [undefined]).map(language =>
+    withSearchBreakers(UPSTREAM_BREAKERS.searxng, () => axios.get(`${SEARXNG_URL}/search`, {
+      params: {
+        format: 'json',
+        ...timeRangeParams(),
+        ...(language ? { language } : {}),
+        ...params,
+      },
+      timeout: 20000,
+      signal,
+    }))
+  ));
+
+  const answered = settled.filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled');
+  const failed = settled.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (answered.length === 0) throw failed[0].reason;
+  for (const { reason } of failed) {
+    console.error(`[SearXNG] Search error: ${reason.message}`);
+    reportSearchError(reason);
+  }
+
+  const lists: any[][] = answered.map(r => r.value.data?.results || []);
+  const results: any[] = [];
+  const seen = new Set<string>();
+  for (let rank = 0; rank < Math.max(...lists.map(list => list.length)); rank++) {
+    for (const list of lists) {
+      const result = list[rank];
+      if (result && !seen.has(result.url)) {
+        seen.add(result.url);
+        results.push(result);
+      }
+    }
+  }
+  return results;
+}
+
 export interface SearchResult {
   url: string;
   title: string;
@@ -23,21 +79,16 @@ export interface ImageResult {
   thumbnail?: string;
   source?: string;
   engine?: string;
+  width?: number;
+  height?: number;
 }
 
 // General web search
-export async function searchWeb(query: string, num: number = 30): Promise<SearchResult[]> {
+export async function searchWeb(query: string, num: number = 30, signal?: AbortSignal): Promise<SearchResult[]> {
   try {
-    const response = await axios.get(`${SEARXNG_URL}/search`, {
-      params: {
-        q: query,
-        format: 'json',
-        categories: 'general',
-      },
-      timeout: 20000,
-    });
+    const results = await searxngSearch({ q: query, categories: 'general' }, signal);
 
-    return (response.data?.results || []).slice(0, num).map((r: any) => ({
+    return results.slice(0, num).map((r: any) => ({
       url: r.url,
       title: r.title,
       content: r.content,
@@ -47,49 +98,44 @@ export async function searchWeb(query: string, num: number = 30): Promise<Search
     }));
   } catch (error: any) {
     console.error(`[SearXNG] Web search error: ${error.message}`);
+    reportSearchError(error);
     return [];
   }
 }
 
 // Image search
-export async function searchImages(query: string, num: number = 50): Promise<ImageResult[]> {
+export async function searchImages(query: string, num: number = 50, signal?: AbortSignal): Promise<ImageResult[]> {
   try {
-    const response = await axios.get(`${SEARXNG_URL}/search`, {
-      params: {
-        q: query,
-        format: 'json',
-        categories: 'images',
-      },
-      timeout: 20000,
-    });
+    const results = await searxngSearch({ q: query, categories: 'images' }, signal);
 
-    return (response.data?.results || []).slice(0, num).map((r: any) => ({
+    return results.slice(0, num).map((r: any) => ({
       url: r.url,
       title: r.title,
       img_src: r.img_src || r.thumbnail,
       thumbnail: r.thumbnail,
       source: r.engine,
       engine: r.engine,
+      ...parseResolution(r.resolution),
     }));
   } catch (error: any) {
     console.error(`[SearXNG] Image search error: ${error.message}`);
+    reportSearchError(error);
     return [];
   }
 }
 
+// Engines report the original size as e.g. "1920 x 1080" or "1920×1080"
+function parseResolution(value: unknown): { width?: number; height?: number } {
+  const match = typeof value === 'string' ? value.match(/(\d+)\s*[x×]\s*(\d+)/i) : null;
+  return match ? { width: parseInt(match[1]), height: parseInt(match[2]) } : {};
+}
+
 // Video search
-export async function searchVideos(query: string, num: number = 30): Promise<SearchResult[]> {
+export async function searchVideos(query: string, num: number = 30, signal?: AbortSignal): Promise<SearchResult[]> {
   try {
-    const response = await axios.get(`${SEARXNG_URL}/search`, {
-      params: {
-        q: query,
-        format: 'json',
-        categories: 'videos',
-      },
-      timeout: 20000,
-    });
+    const results = await searxngSearch({ q: query, categories: 'videos' }, signal);
 
-    return (response.data?.results || []).slice(0, num).map((r: any) => ({
+    return results.slice(0, num).map((r: any) => ({
       url: r.url,
       title: r.title,
       content: r.content,
@@ -98,76 +144,45 @@ export async function searchVideos(query: string, num: number = 30): Promise<Sea
     }));
   } catch (error: any) {
     console.error(`[SearXNG] Video search error: ${error.message}`);
+    reportSearchError(error);
     return [];
   }
 }
 
 // News search - searches multiple engines and strategies for maximum coverage
-export async function searchNews(query: string, num: number = 50): Promise<SearchResult[]> {
+export async function searchNews(query: string, num: number = 50, signal?: AbortSignal): Promise<SearchResult[]> {
   const allResults: any[] = [];
 
+  // A failed strategy leaves the others' results, but still counts for the source
+  const strategyFailed = (error: any) => {
+    console.error(`[SearXNG] News strategy error: ${error.message}`);
+    reportSearchError(error);
+    return [] as any[];
+  };
+
   try {
     // Strategy 1: Direct news category search
-    const newsPromise = axios.get(`${SEARXNG_URL}/search`, {
-      params: {
-        q: query,
-        format: 'json',
-        categories: 'news',
-      },
-      timeout: 20000,
-    }).catch(() => ({ data: { results: [] } }));
+    const newsPromise = searxngSearch({ q: query, categories: 'news' }, signal).catch(strategyFailed);
 
     // Strategy 2: News with different phrasing
-    const recentNewsPromise = axios.get(`${SEARXNG_URL}/search`, {
-      params: {
-        q: `${query} latest news report`,
-        format: 'json',
-        categories: 'news',
-      },
-      timeout: 20000,
-    }).catch(() => ({ data: { results: [] } }));
+    const recentNewsPromise = searxngSearch({ q: `${query} latest news report`, categories: 'news' }, signal).catch(strategyFailed);
 
     // Strategy 3: General web search for news articles
-    const webNewsPromise = axios.get(`${SEARXNG_URL}/search`, {
-      params: {
-        q: `${query} news article report breaking`,
-        format: 'json',
-        categories: 'general',
-      },
-      timeout: 20000,
-    }).catch(() => ({ data: { results: [] } }));
+    const webNewsPromise = searxngSearch({ q: `${query} news article report breaking`, categories: 'general' }, signal).catch(strategyFailed);
 
     // Strategy 4: Search major news sites directly
     const majorNewsSites = ['bbc.com', 'cnn.com', 'nytimes.com', 'reuters.com', 'theguardian.com', 'apnews.com'];
-    const siteSearchPromise = axios.get(`${SEARXNG_URL}/search`, {
-      params: {
-        q: `${query} (site:${majorNewsSites.join(' OR site:')})`,
-        format: 'json',
-        categories: 'general',
-      },
-      timeout: 20000,
-    }).catch(() => ({ data: { results: [] } }));
+    const siteSearchPromise = searxngSearch({ q: `${query} (site:${majorNewsSites.join(' OR site:')})`, categories: 'general' }, signal).catch(strategyFailed);
 
     // Strategy 5: Historical/archival news
-    const archiveNewsPromise = axios.get(`${SEARXNG_URL}/search`, {
-      params: {
-        q: `${query} newspaper article archive history`,
-        format: 'json',
-        categories: 'general',
-      },
-      timeout: 20000,
-    }).catch(() => ({ data: { results: [] } }));
+    const archiveNewsPromise = searxngSearch({ q: `${query} newspaper article archive history`, categories: 'general' }, signal).catch(strategyFailed);
 
     // Run all searches in parallel
     const [newsRes, recentRes, webRes, siteRes, archiveRes] = await Promise.all([
       newsPromise, recentNewsPromise, webNewsPromise, siteSearchPromise, archiveNewsPromise
     ]);
 
-    allResults.push(...(newsRes.data?.results || []));
-    allResults.push(...(recentRes.data?.results || []));
-    allResults.push(...(webRes.data?.results || []));
-    allResults.push(...(siteRes.data?.results || []));
-    allResults.push(...(archiveRes.data?.results || []));
+    allResults.push(...newsRes, ...recentRes, ...webRes, ...siteRes, ...archiveRes);
 
   } catch (error: any) {
     console.error(`[SearXNG] News search error: ${error.message}`);
@@ -190,15 +205,15 @@ export async function searchNews(query: string, num: number = 50): Promise<Searc
 }
 
 // Site-specific search (like site:example.com query)
-export async function searchSite(site: string, query: string, num: number = 20): Promise<SearchResult[]> {
+export async function searchSite(site: string, query: string, num: number = 20, signal?: AbortSignal): Promise<SearchResult[]> {
   const fullQuery = `site:${site} ${query}`;
-  return searchWeb(fullQuery, num);
+  return searchWeb(fullQuery, num, signal);
 }
 
 // Site-specific IMAGE search (returns actual image URLs)
-export async function searchSiteImages(site: string, query: string, num: number = 30): Promise<ImageResult[]> {
+export async function searchSiteImages(site: string, query: string, num: number = 30, signal?: AbortSignal): Promise<ImageResult[]> {
   const fullQuery = `site:${site} ${query}`;
-  return searchImages(fullQuery, num);
+  return searchImages(fullQuery, num, signal);
 }
 
 // Health check
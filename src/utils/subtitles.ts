@@ -0,0 +1,123 @@
+// Subtitle Rendering
+// Turns transcript segments into SubRip (.srt) and WebVTT (.vtt) text,
+// and subtitle styles into ffmpeg/libass force_style strings
+
+import type { TranscriptSegment } from '../types/models.js';
+
+// Cues without a usable end time (e.g. a whole-file transcript) get this length
+const FALLBACK_CUE_SECONDS = 3;
+
+// ============================================
+// RENDERERS
+// ============================================
+
+export function toSrt(segments: TranscriptSegment[]): string {
+  return cues(segments)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(segments: TranscriptSegment[], language?: string | null): string {
+  const header = language ? `WEBVTT\nLanguage: ${language}\n` : 'WEBVTT\n';
+  const body = cues(segments)
+    // "-->" would end the cue timing line early
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text.replace(/-->/g, '->')}\n`)
+    .join('\n');
+
+  return body ? `${header}\n${body}` : header;
+}
+
+// ============================================
+// CLIP RANGES
+// ============================================
+
+// Segments that overlap [start, end), re-timed so the clip starts at 0
+export function sliceSegments(segments: TranscriptSegment[], start: number, end: number): TranscriptSegment[] {
+  return segments
+    .filter(seg => seg.end > start && seg.start < end)
+    .map(seg => ({
+      start: Math.max(0, seg.start - start),
+      end: Math.min(end, seg.end) - start,
+      text: seg.text,
+    }));
+}
+
+// ============================================
+// BURN-IN STYLE
+// ============================================
+
+export interface SubtitleStyle {
+  fontName?: string;
+  fontSize?: number;
+  primaryColor?: string;   // #RRGGBB
+  outlineColor?: string;   // #RRGGBB
+  outline?: number;        // outline width in px
+  marginV?: number;        // distance from the edge in px
+  position?: 'bottom' | 'top';
+}
+
+const DEFAULT_STYLE: Required<SubtitleStyle> = {
+  fontName: 'Arial',
+  fontSize: 22,
+  primaryColor: '#FFFFFF',
+  outlineColor: '#000000',
+  outline: 2,
+  marginV: 30,
+  position: 'bottom',
+};
+
+// force_style for ffmpeg's subtitles filter - invalid values fall back to the defaults
+export function toAssForceStyle(style: SubtitleStyle = {}): string {
+  const number = (value: any, fallback: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max ? value : fallback;
+
+  const fontName = typeof style.fontName === 'string' && /^[\w \-]{1,64}$/.test(style.fontName)
+    ? style.fontName
+    : DEFAULT_STYLE.fontName;
+
+  return [
+    `FontName=${fontName}`,
+    `FontSize=${number(style.fontSize, DEFAULT_STYLE.fontSize, 200)}`,
+    `PrimaryColour=${assColor(style.primaryColor, DEFAULT_STYLE.primaryColor)}`,
+    `OutlineColour=${assColor(style.outlineColor, DEFAULT_STYLE.outlineColor)}`,
+    'BorderStyle=1',
+    `Outline=${number(style.outline, DEFAULT_STYLE.outline, 20)}`,
+    `MarginV=${number(style.marginV, DEFAULT_STYLE.marginV, 500)}`,
+    // ASS numpad alignment: 2 = bottom centre, 8 = top centre
+    `Alignment=${style.position === 'top' ? 8 : 2}`,
+  ].join(',');
+}
+
+// #RRGGBB -> &H00BBGGRR (ASS colours are little-endian with alpha first)
+function assColor(value: string | undefined, fallback: string): string {
+  const hex = typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `&H00${b}${g}${r}`.toUpperCase();
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function cues(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments
+    .filter(seg => seg.text.trim().length > 0)
+    .map(seg => ({
+      start: Math.max(0, seg.start),
+      end: seg.end > seg.start ? seg.end : seg.start + FALLBACK_CUE_SECONDS,
+      // Blank lines end a cue in both formats
+      text: seg.text.trim().replace(/\n\s*\n/g, '\n'),
+    }));
+}
+
+// 00:01:02,345 (SRT) / 00:01:02.345 (WebVTT)
+export function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
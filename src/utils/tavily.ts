@@ -1,7 +1,11 @@
 // Tavily Search Utility
-// AI-optimized web search for relevant articles and news
+// AI-optimized web search for relevant articles and news.
+// Tavily has no language parameter: the run's languages are applied to the
+// results (see inSearchLanguages), its dateFrom as startDate.
 
 import { tavily } from '@tavily/core';
+import { withSearchBreakers, reportSearchError, UPSTREAM_BREAKERS } from './circuit-breaker.js';
+import { getSearchScope, inSearchLanguages } from './search-scope.js';
 
 const TAVILY_API_KEY = process.env.TAVILY_API_KEY || '';
 
@@ -16,6 +20,11 @@ export interface TavilyResult {
   publishedDate?: string;
 }
 
+function scopeOptions(): { startDate?: string } {
+  const { dateFrom } = getSearchScope();
+  return dateFrom ? { startDate: dateFrom } : {};
+}
+
 // Search for articles/news with AI-optimized relevance
 export async function searchArticles(query: string, maxResults: number = 10): Promise<TavilyResult[]> {
   if (!TAVILY_API_KEY) {
@@ -26,11 +35,12 @@ export async function searchArticles(query: string, maxResults: number = 10): Pr
   try {
     console.log(`[Tavily] Searching: "${query}"`);
 
-    const response = await client.search(query, {
+    const response = await withSearchBreakers(UPSTREAM_BREAKERS.tavily, () => client.search(query, {
       maxResults: maxResults,
       searchDepth: 'advanced',
       includeAnswer: false,
-    });
+      ...scopeOptions(),
+    }));
 
     const results = (response.results || []).map((r: any) => ({
       url: r.url,
@@ -38,12 +48,13 @@ export async function searchArticles(query: string, maxResults: number = 10): Pr
       content: r.content || '',
       score: r.score || 0,
       publishedDate: r.publishedDate,
-    }));
+    })).filter(r => inSearchLanguages(`${r.title} ${r.content}`));
 
     console.log(`[Tavily] Found ${results.length} results (scores: ${results.map(r => r.score.toFixed(2)).join(', ')})`);
     return results;
   } catch (error: any) {
     console.error(`[Tavily] Search error: ${error.message}`);
+    reportSearchError(error);
     return [];
   }
 }
@@ -58,11 +69,12 @@ export async function searchNews(query: string, maxResults: number = 10): Promis
   try {
     console.log(`[Tavily] Searching news: "${query}"`);
 
-    const response = await client.search(`${query} news report article`, {
+    const response = await withSearchBreakers(UPSTREAM_BREAKERS.tavily, () => client.search(`${query} news report article`, {
       maxResults: maxResults,
       searchDepth: 'advanced',
       includeAnswer: false,
-    });
+      ...scopeOptions(),
+    }));
 
     const results = (response.results || []).map((r: any) => ({
       url: r.url,
@@ -70,12 +82,13 @@ export async function searchNews(query: string, maxResults: number = 10): Promis
       content: r.content || '',
       score: r.score || 0,
       publishedDate: r.publishedDate,
-    }));
+    })).filter(r => inSearchLanguages(`${r.title} ${r.content}`));
 
     console.log(`[Tavily] Found ${results.length} news results`);
     return results;
   } catch (error: any) {
     console.error(`[Tavily] News search error: ${error.message}`);
+    reportSearchError(error);
     return [];
   }
 }
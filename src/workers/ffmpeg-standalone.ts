@@ -1,15 +1,32 @@
 // FFMPEG WORKER - Standalone Service (Port 3004)
 // Downloads videos → Extracts clips → Transcodes → Uploads to Supabase
+//
+// Clips for /process come from (in order): explicit `clips`, `auto: 'relevant'`
+// (transcript + frame analysis against `topic`), or one clip every 30s.
+// `sidecarSubtitles` / `burnSubtitles` add the transcript lines for each clip.
+// /fingerprint links copies of the same footage within a project (metadata.duplicate_of).
 
 import 'dotenv/config';
 import express from 'express';
-import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import fs from 'fs';
 import path from 'path';
-import axios from 'axios';
+import { beginRun, finishRun, cancelRun, isCancellationError } from '../utils/cancellation.js';
+import { reportProgress } from '../utils/progress.js';
+import { downloadToFile, VIDEO_CONTENT_TYPES } from '../utils/download.js';
+import type { DownloadProgress } from '../utils/download.js';
+import { saveClip, getMediaItem, getProjectMedia, updateMediaMetadata, getTranscript, saveTranscript } from '../services/media-repository.js';
+import { uploadToStorage } from '../services/storage.js';
+import { selectRelevantClips } from '../services/clip-selection.js';
+import { transcribe } from '../services/whisper.js';
+import { fingerprintVideo, groupDuplicateVideos } from '../services/video-fingerprint.js';
+import { toSrt, toWebVtt, sliceSegments, toAssForceStyle } from '../utils/subtitles.js';
+import type { ClipSelection } from '../services/clip-selection.js';
+import type { SubtitleStyle } from '../utils/subtitles.js';
+import type { FingerprintedVideo } from '../services/video-fingerprint.js';
+import type { MediaItem, TranscriptSegment } from '../types/models.js';
 
 const execPromise = promisify(exec);
 
@@ -18,28 +35,38 @@ const PORT = process.env.FFMPEG_WORKER_PORT || 3004;
 
 app.use(express.json({ limit: '50mb' }));
 
-const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_KEY!);
+// A range to cut - description and score are set for relevance-picked clips
+interface ClipPlan {
+  start: number;
+  duration: number;
+  description?: string;
+  relevanceScore?: number;
+}
 
 // ============================================
 // VIDEO DOWNLOAD
 // ============================================
 
-async function downloadVideo(url: string, outputPath: string): Promise<boolean> {
+async function downloadVideo(
+  url: string,
+  outputPath: string,
+  signal?: AbortSignal,
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<boolean> {
   try {
     console.log(`[FFmpeg] Downloading: ${url.slice(0, 80)}...`);
 
-    // Direct download for most URLs
-    const response = await axios.get(url, {
-      responseType: 'arraybuffer',
-      timeout: 300000, // 5 min timeout
-      maxContentLength: 1024 * 1024 * 1024, // 1GB max
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
+    // Streamed straight to disk, resumed with Range requests if the connection drops
+    const result = await downloadToFile(url, outputPath, {
+      maxBytes: 1024 * 1024 * 1024, // 1GB max
+      allowedContentTypes: VIDEO_CONTENT_TYPES,
+      timeoutMs: 60000,
+      signal,
+      onProgress,
+      progressIntervalMs: 2000,
     });
 
-    fs.writeFileSync(outputPath, response.data);
-    console.log(`[FFmpeg] Downloaded: ${(response.data.length / 1024 / 1024).toFixed(2)} MB`);
+    console.log(`[FFmpeg] Downloaded: ${(result.bytes / 1024 / 1024).toFixed(2)} MB${result.resumes ? ` (${result.resumes} resumes)` : ''}`);
 
     return fs.existsSync(outputPath);
   } catch (error: any) {
@@ -48,14 +75,35 @@ async function downloadVideo(url: string, outputPath: string): Promise<boolean>
   }
 }
 
+const VIDEO_FILE_PATTERN = /\.(mp4|m4v|webm|ogv|mov|mkv|avi|mpe?g)$/i;
+
+// Where the video file itself can be downloaded: our stored copy, else the
+// source's file URL (Archive.org /download/ links, direct video links). Media
+// found through web search usually only has the page it was found on - null.
+function mediaFileUrl(media: MediaItem): string | null {
+  if (media.storage_path) return media.hosted_url;
+
+  for (const url of [media.hosted_url, media.source_url]) {
+    try {
+      const { hostname, pathname } = new URL(url);
+      if (/(^|\.)archive\.org$/i.test(hostname) && /^\/download\/[^/]+\/.+/.test(pathname)) return url;
+      if (VIDEO_FILE_PATTERN.test(pathname)) return url;
+    } catch {
+      // not a URL
+    }
+  }
+  return null;
+}
+
 // ============================================
 // VIDEO INFO
 // ============================================
 
-async function getVideoInfo(videoPath: string): Promise<{ duration: number; width: number; height: number } | null> {
+async function getVideoInfo(videoPath: string, signal?: AbortSignal): Promise<{ duration: number; width: number; height: number } | null> {
   try {
     const { stdout } = await execPromise(
-      `ffprobe -v error -select_streams v:0 -show_entries stream=width,height -show_entries format=duration -of json "${videoPath}"`
+      `ffprobe -v error -select_streams v:0 -show_entries stream=width,height -show_entries format=duration -of json "${videoPath}"`,
+      { signal }
     );
 
     const data = JSON.parse(stdout);
@@ -80,14 +128,16 @@ async function extractClip(
   videoPath: string,
   outputPath: string,
   startSeconds: number,
-  duration: number
+  duration: number,
+  signal?: AbortSignal
 ): Promise<boolean> {
   try {
     console.log(`[FFmpeg] Extracting clip: ${startSeconds}s - ${startSeconds + duration}s`);
 
+    // Aborting the signal kills the ffmpeg child process
     await execPromise(
       `ffmpeg -i "${videoPath}" -ss ${startSeconds} -t ${duration} -c:v libx264 -c:a aac -preset fast "${outputPath}" -y`,
-      { timeout: 120000 }
+      { timeout: 120000, signal }
     );
 
     return fs.existsSync(outputPath);
@@ -104,7 +154,8 @@ async function extractClip(
 async function extractFrames(
   videoPath: string,
   outputDir: string,
-  intervalSeconds: number = 10
+  intervalSeconds: number = 10,
+  signal?: AbortSignal
 ): Promise<string[]> {
   try {
     if (!fs.existsSync(outputDir)) {
@@ -114,7 +165,7 @@ async function extractFrames(
     const fps = 1 / intervalSeconds;
     await execPromise(
       `ffmpeg -i "${videoPath}" -vf "fps=${fps}" "${outputDir}/frame_%04d.jpg" -y`,
-      { timeout: 300000 }
+      { timeout: 300000, signal }
     );
 
     const frames = fs.readdirSync(outputDir)
@@ -131,30 +182,49 @@ async function extractFrames(
 }
 
 // ============================================
-// UPLOAD TO SUPABASE
+// SUBTITLES
 // ============================================
 
-async function uploadToSupabase(filePath: string, storagePath: string): Promise<string | null> {
+// Second pass over the finished clip, so cue times line up with the clip's own timeline
+async function burnInSubtitles(
+  clipPath: string,
+  subtitlePath: string,
+  outputPath: string,
+  style: SubtitleStyle | undefined,
+  signal?: AbortSignal
+): Promise<boolean> {
   try {
-    const fileBuffer = fs.readFileSync(filePath);
-    const contentType = filePath.endsWith('.mp4') ? 'video/mp4' : 'image/jpeg';
-
-    const { error } = await supabase.storage
-      .from('mediamind')
-      .upload(storagePath, fileBuffer, { contentType, upsert: true });
+    await execPromise(
+      `ffmpeg -i "${clipPath}" -vf "subtitles=filename='${subtitlePath}':force_style='${toAssForceStyle(style)}'" -c:v libx264 -preset fast -c:a copy "${outputPath}" -y`,
+      { timeout: 120000, signal }
+    );
+    return fs.existsSync(outputPath);
+  } catch (error: any) {
+    console.error(`[FFmpeg] Subtitle burn-in failed: ${error.message}`);
+    return false;
+  }
+}
 
-    if (error) {
-      console.error(`[FFmpeg] Upload error: ${error.message}`);
-      return null;
-    }
+// Stored transcript for the media, or transcribe the downloaded video now (and store it)
+async function loadTranscript(
+  mediaId: string | undefined,
+  projectId: string | undefined,
+  videoPath: string,
+  workDir: string,
+  signal?: AbortSignal
+): Promise<{ segments: TranscriptSegment[]; language: string | null }> {
+  if (mediaId) {
+    const stored = await getTranscript(mediaId).catch(() => null);
+    if (stored) return stored;
+  }
 
-    const { data: { publicUrl } } = supabase.storage.from('mediamind').getPublicUrl(storagePath);
+  const { segments, language, engine } = await transcribe(videoPath, path.join(workDir, 'audio.mp3'), signal);
 
-    return publicUrl;
-  } catch (e: any) {
-    console.error(`[FFmpeg] Upload failed: ${e.message}`);
-    return null;
+  if (mediaId && segments.length > 0) {
+    await saveTranscript({ media_id: mediaId, project_id: projectId || null, segments, language, engine })
+      .catch((e: any) => console.error(`[FFmpeg] Transcript save failed: ${e.message}`));
   }
+  return { segments, language };
 }
 
 // ============================================
@@ -162,11 +232,24 @@ async function uploadToSupabase(filePath: string, storagePath: string): Promise<
 // ============================================
 
 app.post('/process', async (req, res) => {
-  const { projectId, mediaId, videoUrl, clips } = req.body;
+  const { projectId, mediaId, videoUrl, clips, auto, topic, maxClips } = req.body;
+  const { sidecarSubtitles, burnSubtitles = false, subtitleStyle } = req.body;
+
+  // sidecarSubtitles: true for both formats, or a list like ['vtt']
+  const sidecarFormats: ('vtt' | 'srt')[] = sidecarSubtitles === true
+    ? ['vtt', 'srt']
+    : Array.isArray(sidecarSubtitles) ? sidecarSubtitles.filter((f: any) => f === 'vtt' || f === 'srt') : [];
+  const wantsSubtitles = sidecarFormats.length > 0 || burnSubtitles === true;
 
   if (!videoUrl) {
     return res.status(400).json({ error: 'videoUrl required' });
   }
+  if (auto !== undefined && auto !== 'interval' && auto !== 'relevant') {
+    return res.status(400).json({ error: "auto must be 'interval' or 'relevant'" });
+  }
+  if (auto === 'relevant' && !topic) {
+    return res.status(400).json({ error: "topic required for auto: 'relevant'" });
+  }
 
   console.log(`\n[FFmpeg Worker] Processing video: ${videoUrl.slice(0, 80)}...`);
 
@@ -176,125 +259,188 @@ app.post('/process', async (req, res) => {
   const videoPath = path.join(tempDir, 'source.mp4');
   const results: any[] = [];
 
+  // Aborted by POST /cancel for this project - kills the download and any running ffmpeg
+  const projectRun = beginRun(projectId);
+  const signal = projectRun.signal;
+
   try {
     // Download video
-    const downloaded = await downloadVideo(videoUrl, videoPath);
+    reportProgress(projectId, 'ffmpeg', 'download_started', { mediaId, videoUrl });
+    const downloaded = await downloadVideo(videoUrl, videoPath, signal, progress =>
+      reportProgress(projectId, 'ffmpeg', 'download_progress', { mediaId, ...progress })
+    );
     if (!downloaded) {
+      if (signal.aborted) {
+        return res.json({ success: false, cancelled: true, partial: true, clips: [] });
+      }
       return res.status(400).json({ error: 'Failed to download video' });
     }
 
     // Get video info
-    const info = await getVideoInfo(videoPath);
+    const info = await getVideoInfo(videoPath, signal);
     if (!info) {
+      if (signal.aborted) {
+        return res.json({ success: false, cancelled: true, partial: true, clips: [] });
+      }
       return res.status(400).json({ error: 'Failed to read video info' });
     }
 
     console.log(`[FFmpeg] Video info: ${info.duration}s, ${info.width}x${info.height}`);
+    reportProgress(projectId, 'ffmpeg', 'downloaded', { mediaId, duration: info.duration });
+
+    // Shared by relevance selection and subtitles, so the video is transcribed at most once
+    let transcript: { segments: TranscriptSegment[]; language: string | null } | null = null;
+    if (wantsSubtitles || auto === 'relevant') {
+      reportProgress(projectId, 'ffmpeg', 'transcribing', { mediaId });
+      transcript = await loadTranscript(mediaId, projectId, videoPath, tempDir, signal);
+    }
+
+    // Work out which ranges to cut
+    let plan: ClipPlan[];
+    let selection: Omit<ClipSelection, 'clips'> | undefined;
 
-    // If specific clips requested
     if (clips && clips.length > 0) {
-      for (let i = 0; i < clips.length; i++) {
-        const clip = clips[i];
-        const clipId = uuidv4();
-        const clipPath = path.join(tempDir, `clip_${i}.mp4`);
-
-        const extracted = await extractClip(videoPath, clipPath, clip.start, clip.duration || 15);
-
-        if (extracted) {
-          const storagePath = `clips/${projectId}/${clipId}.mp4`;
-          const uploadedUrl = await uploadToSupabase(clipPath, storagePath);
-
-          if (uploadedUrl) {
-            // Save clip to database
-            await supabase.from('clips').insert({
-              id: clipId,
-              project_id: projectId,
-              media_id: mediaId,
-              start_time: clip.start,
-              end_time: clip.start + (clip.duration || 15),
-              hosted_url: uploadedUrl,
-              storage_path: storagePath,
-            });
-
-            results.push({
-              clipId,
-              start: clip.start,
-              duration: clip.duration || 15,
-              url: uploadedUrl,
-            });
-
-            console.log(`[FFmpeg] Clip ${i + 1} saved: ${clip.start}s - ${clip.start + (clip.duration || 15)}s`);
-          }
-        }
-      }
+      plan = clips.map((clip: any) => ({ start: clip.start, duration: clip.duration || 15 }));
+    } else if (auto === 'relevant') {
+      reportProgress(projectId, 'ffmpeg', 'analyzing', { mediaId, topic });
+      const { clips: relevant, ...stats } = await selectRelevantClips(
+        videoPath, topic, path.join(tempDir, 'analysis'), info.duration, { maxClips, signal, transcript: transcript?.segments }
+      );
+      selection = stats;
+      plan = relevant.map(c => ({
+        start: c.start,
+        duration: Math.round((c.end - c.start) * 10) / 10,
+        description: c.description,
+        relevanceScore: c.relevanceScore,
+      }));
+      console.log(`[FFmpeg] Selected ${plan.length} relevant clips`);
+      reportProgress(projectId, 'ffmpeg', 'clips_selected', { mediaId, clips: plan.length, ...stats });
     } else {
       // Auto-extract clips every 30 seconds
       const clipDuration = 15;
       const interval = 30;
       const numClips = Math.min(Math.floor(info.duration / interval), 10);
+      plan = Array.from({ length: numClips }, (_, i) => ({ start: i * interval, duration: clipDuration }));
+    }
+
+    for (let i = 0; i < plan.length; i++) {
+      if (signal.aborted) break;
+      const clip = plan[i];
+      const clipId = uuidv4();
+      const clipPath = path.join(tempDir, `clip_${i}.mp4`);
+
+      const extracted = await extractClip(videoPath, clipPath, clip.start, clip.duration, signal);
+
+      if (extracted) {
+        // Transcript lines spoken during this clip, timed from the clip start
+        const cues = transcript ? sliceSegments(transcript.segments, clip.start, clip.start + clip.duration) : [];
+
+        let uploadPath = clipPath;
+        let burnedIn = false;
+        if (burnSubtitles === true && cues.length > 0) {
+          const srtPath = path.join(tempDir, `clip_${i}_burn.srt`);
+          const burnedPath = path.join(tempDir, `clip_${i}_subtitled.mp4`);
+          fs.writeFileSync(srtPath, toSrt(cues));
+          burnedIn = await burnInSubtitles(clipPath, srtPath, burnedPath, subtitleStyle, signal);
+          if (burnedIn) uploadPath = burnedPath;
+        }
 
-      for (let i = 0; i < numClips; i++) {
-        const startTime = i * interval;
-        const clipId = uuidv4();
-        const clipPath = path.join(tempDir, `clip_${i}.mp4`);
-
-        const extracted = await extractClip(videoPath, clipPath, startTime, clipDuration);
-
-        if (extracted) {
-          const storagePath = `clips/${projectId}/${clipId}.mp4`;
-          const uploadedUrl = await uploadToSupabase(clipPath, storagePath);
-
-          if (uploadedUrl) {
-            await supabase.from('clips').insert({
-              id: clipId,
-              project_id: projectId,
-              media_id: mediaId,
-              start_time: startTime,
-              end_time: startTime + clipDuration,
-              hosted_url: uploadedUrl,
-              storage_path: storagePath,
-            });
-
-            results.push({
-              clipId,
-              start: startTime,
-              duration: clipDuration,
-              url: uploadedUrl,
-            });
+        const storagePath = `clips/${projectId}/${clipId}.mp4`;
+        const uploadedUrl = await uploadToStorage(uploadPath, storagePath);
+
+        if (uploadedUrl) {
+          // Sidecar files sit next to the clip: clips/<project>/<clip>.vtt / .srt
+          const subtitles: Record<string, string> = {};
+          if (cues.length > 0) {
+            for (const format of sidecarFormats) {
+              const sidecarPath = path.join(tempDir, `clip_${i}.${format}`);
+              fs.writeFileSync(sidecarPath, format === 'vtt' ? toWebVtt(cues, transcript?.language) : toSrt(cues));
+              const sidecarUrl = await uploadToStorage(sidecarPath, `clips/${projectId}/${clipId}.${format}`);
+              if (sidecarUrl) subtitles[format] = sidecarUrl;
+            }
           }
+
+          // Save clip to database
+          await saveClip({
+            id: clipId,
+            project_id: projectId,
+            media_id: mediaId,
+            start_time: clip.start,
+            end_time: clip.start + clip.duration,
+            hosted_url: uploadedUrl,
+            storage_path: storagePath,
+            description: clip.description,
+            relevance_score: clip.relevanceScore,
+          }).catch((e: any) => console.error(`[FFmpeg] Clip save failed: ${e.message}`));
+
+          results.push({
+            clipId,
+            start: clip.start,
+            duration: clip.duration,
+            url: uploadedUrl,
+            ...(clip.description ? { description: clip.description } : {}),
+            ...(clip.relevanceScore !== undefined ? { relevanceScore: clip.relevanceScore } : {}),
+            ...(Object.keys(subtitles).length > 0 ? { subtitles } : {}),
+            ...(burnSubtitles === true ? { burnedIn } : {}),
+          });
+          reportProgress(projectId, 'ffmpeg', 'clip_uploaded', { mediaId, index: i + 1, total: plan.length, ...results[results.length - 1] });
+
+          console.log(`[FFmpeg] Clip ${i + 1} saved: ${clip.start}s - ${clip.start + clip.duration}s`);
         }
       }
     }
 
     // Extract thumbnail
     const thumbnailPath = path.join(tempDir, 'thumbnail.jpg');
-    await execPromise(`ffmpeg -i "${videoPath}" -ss 5 -vframes 1 "${thumbnailPath}" -y`);
+    if (!signal.aborted) {
+      await execPromise(`ffmpeg -i "${videoPath}" -ss 5 -vframes 1 "${thumbnailPath}" -y`, { signal }).catch(() => {});
+    }
 
     let thumbnailUrl = null;
     if (fs.existsSync(thumbnailPath)) {
       const thumbStoragePath = `thumbnails/${projectId}/${mediaId || uuidv4()}.jpg`;
-      thumbnailUrl = await uploadToSupabase(thumbnailPath, thumbStoragePath);
+      thumbnailUrl = await uploadToStorage(thumbnailPath, thumbStoragePath);
     }
 
-    // Cleanup
-    fs.rmSync(tempDir, { recursive: true, force: true });
-
-    console.log(`[FFmpeg Worker] Done: ${results.length} clips extracted`);
+    if (signal.aborted) {
+      console.log(`[FFmpeg Worker] Cancelled: kept ${results.length} clips extracted before cancellation`);
+    } else {
+      console.log(`[FFmpeg Worker] Done: ${results.length} clips extracted`);
+    }
+    reportProgress(projectId, 'ffmpeg', 'done', { mediaId, clips: results.length, cancelled: signal.aborted });
 
     res.json({
       success: true,
+      cancelled: signal.aborted,
+      partial: signal.aborted,
       videoInfo: info,
       clips: results,
+      ...(selection ? { selection } : {}),
       thumbnail: thumbnailUrl,
     });
 
   } catch (error: any) {
+    if (isCancellationError(error) || signal.aborted) {
+      return res.json({ success: false, cancelled: true, partial: true, clips: results });
+    }
     console.error(`[FFmpeg Worker] Error: ${error.message}`);
-    fs.rmSync(tempDir, { recursive: true, force: true });
     res.status(500).json({ error: error.message });
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    finishRun(projectRun);
   }
 });
 
+// Kill in-flight downloads and ffmpeg processes for a project (fanned out by the orchestrator)
+app.post('/cancel', (req, res) => {
+  const { projectId } = req.body;
+  if (!projectId) return res.status(400).json({ error: 'projectId required' });
+
+  const wasRunning = cancelRun(projectId);
+  console.log(`[FFmpeg Worker] Cancel ${projectId}: ${wasRunning ? 'stopping' : 'nothing running'}`);
+  res.json({ success: true, cancelled: wasRunning });
+});
+
 // ============================================
 // EXTRACT FRAMES ENDPOINT
 // ============================================
@@ -327,8 +473,6 @@ app.post('/frames', async (req, res) => {
       frameUrls.push(`data:image/jpeg;base64,${base64}`);
     }
 
-    fs.rmSync(tempDir, { recursive: true, force: true });
-
     res.json({
       success: true,
       count: frameUrls.length,
@@ -336,8 +480,194 @@ app.post('/frames', async (req, res) => {
     });
 
   } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  } finally {
     fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+// ============================================
+// TRANSCRIBE ENDPOINT
+// ============================================
+
+app.post('/transcribe', async (req, res) => {
+  const { mediaId, force = false } = req.body;
+
+  if (!mediaId) {
+    return res.status(400).json({ error: 'mediaId required' });
+  }
+
+  const media = await getMediaItem(mediaId).catch(() => null);
+  if (!media) return res.status(404).json({ error: 'Media not found' });
+  if (media.type !== 'video') return res.status(400).json({ error: 'Media is not a video' });
+
+  // Already transcribed - only redo it when asked
+  if (!force) {
+    const existing = await getTranscript(mediaId).catch(() => null);
+    if (existing) return res.json({ success: true, cached: true, transcript: existing });
+  }
+
+  const fileUrl = mediaFileUrl(media);
+  if (!fileUrl) return res.status(422).json({ error: 'Media has no downloadable video file (only a page URL)' });
+
+  const projectId = media.project_id;
+  const tempDir = `/tmp/mediamind/${projectId || 'temp'}/${uuidv4()}`;
+  fs.mkdirSync(tempDir, { recursive: true });
+
+  const videoPath = path.join(tempDir, 'source.mp4');
+  const projectRun = beginRun(projectId);
+  const signal = projectRun.signal;
+
+  try {
+    console.log(`\n[FFmpeg Worker] Transcribing media ${mediaId}`);
+    reportProgress(projectId, 'ffmpeg', 'transcribe_started', { mediaId });
+
+    const downloaded = await downloadVideo(fileUrl, videoPath, signal);
+    if (!downloaded) {
+      if (signal.aborted) return res.json({ success: false, cancelled: true });
+      return res.status(400).json({ error: 'Failed to download video' });
+    }
+
+    const { segments, language, engine } = await transcribe(videoPath, path.join(tempDir, 'audio.mp3'), signal);
+    if (signal.aborted) return res.json({ success: false, cancelled: true });
+    if (segments.length === 0) {
+      return res.status(422).json({ error: 'No speech could be transcribed', engine });
+    }
+
+    const transcript = await saveTranscript({ media_id: mediaId, project_id: projectId, segments, language, engine });
+
+    console.log(`[FFmpeg Worker] Transcript saved: ${segments.length} segments (${engine}, ${language || 'unknown language'})`);
+    reportProgress(projectId, 'ffmpeg', 'transcribed', { mediaId, segments: segments.length, language, engine });
+
+    res.json({ success: true, cached: false, transcript });
+
+  } catch (error: any) {
+    console.error(`[FFmpeg Worker] Transcription error: ${error.message}`);
     res.status(500).json({ error: error.message });
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    finishRun(projectRun);
+  }
+});
+
+// ============================================
+// VIDEO DUPLICATES ENDPOINT
+// ============================================
+
+async function fingerprintMedia(video: MediaItem, fileUrl: string, tempDir: string, signal: AbortSignal): Promise<FingerprintedVideo | null> {
+  const videoPath = path.join(tempDir, `${video.id}.mp4`);
+  try {
+    const downloaded = await downloadVideo(fileUrl, videoPath, signal);
+    if (!downloaded) return null;
+
+    const info = await getVideoInfo(videoPath, signal);
+    if (!info || info.duration <= 0) return null;
+
+    const fingerprint = await fingerprintVideo(videoPath, info.duration, signal);
+    if (fingerprint.length === 0) return null;
+
+    return { id: video.id, fingerprint, width: info.width || null, height: info.height || null, duration: info.duration };
+  } finally {
+    fs.rmSync(videoPath, { force: true });
+  }
+}
+
+// Fingerprints every video in a project (once - `force` redoes it), then points
+// copies of the same footage at the best copy through metadata.duplicate_of
+app.post('/fingerprint', async (req, res) => {
+  const { projectId, force = false } = req.body;
+
+  if (!projectId) {
+    return res.status(400).json({ error: 'projectId required' });
+  }
+
+  const tempDir = `/tmp/mediamind/${projectId}/${uuidv4()}`;
+  fs.mkdirSync(tempDir, { recursive: true });
+  const projectRun = beginRun(projectId);
+  const signal = projectRun.signal;
+
+  try {
+    const videos = await getProjectMedia(projectId, 'video');
+    console.log(`\n[FFmpeg Worker] Fingerprinting ${videos.length} videos for ${projectId}`);
+    reportProgress(projectId, 'ffmpeg', 'fingerprint_started', { videos: videos.length });
+
+    const fingerprinted: FingerprintedVideo[] = [];
+    let computed = 0;
+    let failed = 0;
+    let skipped = 0;
+
+    for (const video of videos) {
+      if (signal.aborted) break;
+
+      const { fingerprint, width, height, duration } = video.metadata;
+      if (fingerprint && !force) {
+        fingerprinted.push({ id: video.id, fingerprint, width, height, duration });
+        continue;
+      }
+
+      // Only a page URL - nothing to download
+      const fileUrl = mediaFileUrl(video);
+      if (!fileUrl) {
+        skipped++;
+        continue;
+      }
+
+      const result = await fingerprintMedia(video, fileUrl, tempDir, signal);
+      if (!result) {
+        // A cancelled fingerprint isn't a failure; the loop stops on the next pass
+        if (!signal.aborted) failed++;
+        continue;
+      }
+
+      await updateMediaMetadata(video.id, {
+        fingerprint: result.fingerprint,
+        width: result.width,
+        height: result.height,
+        duration: result.duration,
+      });
+      fingerprinted.push(result);
+      computed++;
+      reportProgress(projectId, 'ffmpeg', 'fingerprint_progress', { done: computed + failed + skipped, videos: videos.length });
+    }
+
+    if (signal.aborted) {
+      return res.json({ success: false, cancelled: true, computed, failed, skipped });
+    }
+
+    // Only rewrite links that changed; videos that couldn't be fingerprinted keep theirs
+    const groups = groupDuplicateVideos(fingerprinted);
+    const duplicateOf = new Map(groups.flatMap(g => g.duplicates.map(id => [id, g.canonical] as const)));
+    let updated = 0;
+
+    for (const video of videos) {
+      if (!fingerprinted.some(f => f.id === video.id)) continue;
+      const canonical = duplicateOf.get(video.id) ?? null;
+      if (video.metadata.duplicate_of === canonical) continue;
+      await updateMediaMetadata(video.id, { duplicate_of: canonical });
+      updated++;
+    }
+
+    const duplicates = groups.reduce((total, g) => total + g.duplicates.length, 0);
+    console.log(`[FFmpeg Worker] Fingerprinted ${computed} (${failed} failed, ${skipped} without a file), ${duplicates} duplicates in ${groups.length} groups`);
+    reportProgress(projectId, 'ffmpeg', 'fingerprint_done', { groups: groups.length, duplicates });
+
+    res.json({
+      success: true,
+      videos: videos.length,
+      fingerprinted: fingerprinted.length,
+      computed,
+      failed,
+      skipped,
+      updated,
+      groups,
+    });
+
+  } catch (error: any) {
+    console.error(`[FFmpeg Worker] Fingerprint error: ${error.message}`);
+    res.status(500).json({ error: error.message });
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    finishRun(projectRun);
   }
 });
 
@@ -3,299 +3,313 @@
 
 import 'dotenv/config';
 import express from 'express';
-import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
-import axios from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
-import { fileURLToPath } from 'url';
-import { searchWeb, searchImages, searchSite, searchSiteImages } from '../utils/searxng.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { searchImages } from '../utils/searxng.js';
+import { withSearchScope } from '../utils/search-scope.js';
+import { beginRun, finishRun, cancelRun } from '../utils/cancellation.js';
+import { reportProgress } from '../utils/progress.js';
+import { withSourceScope, isCircuitOpen, getBreakerStatus, UPSTREAM_BREAKERS, CircuitOpenError } from '../utils/circuit-breaker.js';
+import { saveMediaItems, SaveReport } from '../services/media-repository.js';
+import { resolveWorkerOptions, applyResultFilters } from '../utils/research-options.js';
+import { validateImageBatch } from '../services/claude.js';
+import { getProviderChain } from '../services/providers.js';
+import { dedupeImages, DedupReport } from '../services/image-dedup.js';
+import { ingestImage, ImageIngestError } from '../services/image-ingest.js';
+import { deleteFromStorage } from '../services/storage.js';
+import { getSearchPlan, getSources, getSource, refreshSourceOverrides, buildSourceQueries, sitePattern } from '../services/source-registry.js';
+import type { SourceDefinition, SourceType, SearchPlanCategory } from '../services/source-registry.js';
+import { startSourceRun, recordSearchError, saveSourceRuns } from '../services/source-stats.js';
+import type { SourceRun } from '../services/source-stats.js';
+import { searchArchive, fetchArchiveItems, selectArchiveFile, archiveMediaInfo, archiveDownloadUrl, archiveThumbnailUrl } from '../services/archive-org.js';
+import type { ArchiveFileSelection } from '../services/archive-org.js';
 
 const app = express();
 const PORT = process.env.IMAGE_WORKER_PORT || 3002;
 
 app.use(express.json());
 
-// Initialize Supabase with error handling
-let supabase: any = null;
-try {
-  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY) {
-    supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
-  }
-} catch (e) {
-  console.warn('[Image] Supabase initialization failed');
-}
-
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 // ============================================
-// SEARCH SOURCES (Using SearXNG)
+// SEARCH SOURCES (plan from config/sources.json)
 // ============================================
 
-// 1. Archive.org Images
-async function searchArchiveOrg(topic: string, queries: string[]) {
-  console.log('[Image] Searching Archive.org...');
+// Full-size pictures rather than Archive.org's thumbnails
+const IMAGE_FILES: ArchiveFileSelection = { extensions: ['jpg', 'jpeg', 'png', 'gif'], preferSource: 'original', exclude: /thumb/i };
+
+// Archive.org search, then the items' metadata for the full-size file
+async function searchArchiveOrg(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
   for (const query of queries) {
+    if (signal.aborted) break;
     try {
-      const searchUrl = `https://archive.org/advancedsearch.php?q=${encodeURIComponent(query)}+AND+mediatype:image&fl[]=identifier,title&sort[]=downloads+desc&rows=50&output=json`;
-
-      const response = await axios.get(searchUrl, {
-        headers: { 'User-Agent': 'MediaMind Research Bot/1.0' },
-        timeout: 30000,
+      run.queries++;
+      const docs = await searchArchive(query, { mediatype: 'image', limit: source.maxResults, signal });
+      run.hits += docs.length;
+
+      const items = await fetchArchiveItems(docs.map(doc => doc.identifier), { signal });
+      items.forEach((item, i) => {
+        const file = item && selectArchiveFile(item.files, IMAGE_FILES);
+        if (!item || !file) return;
+
+        results.push({
+          url: archiveDownloadUrl(item.identifier, file.name),
+          title: item.title || docs[i].title || item.identifier,
+          source: source.name,
+          thumbnail: archiveThumbnailUrl(item.identifier),
+          ...archiveMediaInfo(item, file),
+        });
       });
-
-      const docs = response.data?.response?.docs || [];
-
-      for (const doc of docs.slice(0, 30)) {
-        await delay(100);
-        try {
-          const meta = await axios.get(`https://archive.org/metadata/${doc.identifier}`, { timeout: 8000 });
-          const files = meta.data?.files || [];
-          const imageFile = files.find((f: any) => /\.(jpg|jpeg|png|gif)$/i.test(f.name) && !f.name?.includes('thumb'));
-
-          if (imageFile) {
-            results.push({
-              url: `https://archive.org/download/${doc.identifier}/${imageFile.name}`,
-              title: doc.title || doc.identifier,
-              source: 'archive.org',
-              thumbnail: `https://archive.org/services/img/${doc.identifier}`,
-              priority: 1,
-              license: 'public_domain',
-            });
-          }
-        } catch (e: any) { /* skip */ }
-      }
     } catch (e: any) {
-      console.log(`[Image] Archive.org query failed: ${e.message}`);
+      recordSearchError(run, e);
+      console.log(`[Image] ${source.name} query failed: ${e.message}`);
+      if (e instanceof CircuitOpenError) break;
     }
   }
 
-  console.log(`[Image] Archive.org found: ${results.length}`);
   return results;
 }
 
-// 2. SearXNG Image Search (aggregates Google, Bing, DuckDuckGo images)
-async function searchSearXNGImages(topic: string, queries: string[]) {
-  console.log('[Image] Searching via SearXNG image category...');
+// SearXNG image search - site-restricted for "search" sources, open for "category"
+async function searchImageResults(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
   for (const query of queries) {
+    if (signal.aborted) break;
     try {
-      const searchResults = await searchImages(`${query} historical photograph`, 100);
+      // Image search returns actual image URLs rather than pages
+      const fullQuery = source.type === 'search' ? `${sitePattern(source)} ${query}` : query;
+      run.queries++;
+      const searchResults = await searchImages(fullQuery, source.maxResults, signal);
+      run.hits += searchResults.length;
 
       for (const item of searchResults) {
         if (item.img_src) {
           results.push({
             url: item.img_src,
             title: item.title,
-            source: item.engine || 'searxng',
+            source: source.type === 'category' ? item.engine || 'searxng' : source.name,
             thumbnail: item.thumbnail || item.img_src,
-            priority: 2,
-            license: 'unknown',
+            width: item.width,
+            height: item.height,
           });
         }
       }
     } catch (e: any) {
-      console.error(`[Image] SearXNG image search error: ${e.message}`);
+      recordSearchError(run, e);
+      console.error(`[Image] ${source.name} error: ${e.message}`);
     }
   }
 
-  console.log(`[Image] SearXNG images found: ${results.length}`);
   return results;
 }
 
-// 3. Public Domain Sources - use IMAGE search for actual image URLs
-async function searchPublicDomain(topic: string, queries: string[]) {
-  console.log('[Image] Searching public domain sources...');
-  const results: any[] = [];
-
-  const publicDomainSites = [
-    { name: 'Library of Congress', site: 'loc.gov' },
-    { name: 'National Archives', site: 'archives.gov' },
-    { name: 'Rawpixel', site: 'rawpixel.com' },
-    { name: 'NYPL Digital', site: 'digitalcollections.nypl.org' },
-    { name: 'Wellcome Collection', site: 'wellcomecollection.org' },
-  ];
-
-  for (const site of publicDomainSites) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        // Use image search to get actual image URLs
-        const searchResults = await searchSiteImages(site.site, query, 25);
-
-        for (const item of searchResults) {
-          if (item.img_src) {
-            results.push({
-              url: item.img_src,
-              title: item.title,
-              source: site.name,
-              thumbnail: item.thumbnail || item.img_src,
-              priority: 1,
-              license: 'public_domain',
-            });
-          }
-        }
-      } catch (e: any) {
-        console.error(`[Image] Public domain (${site.name}) error: ${e.message}`);
-      }
-    }
+const SOURCE_SEARCHERS: Partial<Record<SourceType, typeof searchImageResults>> = {
+  api: searchArchiveOrg,
+  search: searchImageResults,
+  category: searchImageResults,
+};
+
+// Runs one source and tags its results with the source's tier and license, counting
+// queries, hits, kept results and failures for the source statistics
+// A dry run (/sources/test) searches even with the source's breaker open, leaves
+// the breaker alone and returns every hit
+async function searchSource(
+  source: SourceDefinition,
+  topic: string,
+  queries: string[],
+  signal: AbortSignal,
+  { dryRun = false }: { dryRun?: boolean } = {}
+) {
+  const run = startSourceRun(source);
+  const search = SOURCE_SEARCHERS[source.type];
+  if (!search) {
+    console.log(`[Image] Skipping ${source.name}: no image search for type "${source.type}"`);
+    return { results: [], run };
+  }
+  if (!dryRun && isCircuitOpen(source.id)) {
+    console.log(`[Image] Skipping ${source.name}: circuit breaker open`);
+    return { results: [], run };
   }
 
-  console.log(`[Image] Public domain found: ${results.length}`);
-  return results;
+  const startedAt = Date.now();
+  const found = await withSourceScope(
+    { onError: error => recordSearchError(run, error), breaker: dryRun ? undefined : source.id },
+    () => search(source, buildSourceQueries(source, queries, topic), signal, run)
+  );
+  const results = found.map(item => ({ ...item, priority: source.priority, license: item.license || source.license, sourceId: source.id }));
+
+  run.kept = results.length;
+  run.latency_ms = Date.now() - startedAt;
+  return { results, run };
 }
 
-// 4. Wikimedia Commons - use IMAGE search
-async function searchWikimedia(topic: string, queries: string[]) {
-  console.log('[Image] Searching Wikimedia Commons...');
+// Sources within a category run one after another; categories run in parallel
+async function searchCategory(category: SearchPlanCategory, topic: string, queries: string[], signal: AbortSignal, runs: SourceRun[]) {
+  console.log(`[Image] Searching ${category.category} (${category.sources.length} sources)...`);
   const results: any[] = [];
 
-  for (const query of queries) {
-    try {
-      // Use image search for Wikimedia to get actual image URLs
-      const searchResults = await searchSiteImages('commons.wikimedia.org', query, 50);
-
-      for (const item of searchResults) {
-        if (item.img_src) {
-          results.push({
-            url: item.img_src,
-            title: item.title,
-            source: 'wikimedia',
-            thumbnail: item.thumbnail || item.img_src,
-            priority: 1,
-            license: 'creative_commons',
-          });
-        }
-      }
-    } catch (e: any) {
-      console.error(`[Image] Wikimedia error: ${e.message}`);
-    }
+  for (const source of category.sources) {
+    if (signal.aborted) break;
+    const { results: found, run } = await searchSource(source, topic, queries, signal);
+    results.push(...found);
+    runs.push(run);
   }
 
-  console.log(`[Image] Wikimedia found: ${results.length}`);
+  console.log(`[Image] ${category.category} found: ${results.length}`);
   return results;
 }
 
-// 5. Museum Collections - use IMAGE search for actual image URLs
-async function searchMuseums(topic: string, queries: string[]) {
-  console.log('[Image] Searching museum collections...');
-  const results: any[] = [];
+// ============================================
+// NEAR-DUPLICATE FILTER (perceptual hash)
+// ============================================
 
-  const museums = [
-    { name: 'Smithsonian', site: 'si.edu' },
-    { name: 'Met Museum', site: 'metmuseum.org' },
-    { name: 'Getty Museum', site: 'getty.edu' },
-    { name: 'Rijksmuseum', site: 'rijksmuseum.nl' },
-    { name: 'British Museum', site: 'britishmuseum.org' },
-    { name: 'Europeana', site: 'europeana.eu' },
-    { name: 'Art Institute Chicago', site: 'artic.edu' },
-    { name: 'Cleveland Museum', site: 'clevelandart.org' },
-    { name: 'National Gallery', site: 'nga.gov' },
-    { name: 'MoMA', site: 'moma.org' },
-  ];
-
-  for (const museum of museums) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        // Use image search to get actual image URLs
-        const searchResults = await searchSiteImages(museum.site, query, 20);
-
-        for (const item of searchResults) {
-          if (item.img_src) {
-            results.push({
-              url: item.img_src,
-              title: item.title,
-              source: museum.name,
-              thumbnail: item.thumbnail || item.img_src,
-              priority: 3,
-              license: 'open_access',
-            });
-          }
-        }
-      } catch (e: any) {
-        console.error(`[Image] Museum (${museum.name}) error: ${e.message}`);
-      }
-    }
-  }
+// Same picture from several sources -> one result; needs ffmpeg to decode thumbnails
+const DEDUP_ENABLED = process.env.IMAGE_DEDUP !== 'false';
 
-  console.log(`[Image] Museums found: ${results.length}`);
-  return results;
-}
+// ============================================
+// RELEVANCE FILTER (vision provider)
+// ============================================
 
-// 6. Historical Photo Archives - use IMAGE search
-async function searchHistoricalArchives(topic: string, queries: string[]) {
-  console.log('[Image] Searching historical photo archives...');
-  const results: any[] = [];
+// Default when a request doesn't set minRelevance - off unless enabled for the deployment
+const DEFAULT_MIN_RELEVANCE = process.env.FILTER_IMAGES_BY_RELEVANCE === 'true'
+  ? parseFloat(process.env.IMAGE_RELEVANCE_THRESHOLD || '0.5')
+  : 0;
+const RELEVANCE_BATCH_SIZE = parseInt(process.env.IMAGE_RELEVANCE_BATCH_SIZE || '20');
+// Candidates scored per requested image - some will be rejected
+const RELEVANCE_CANDIDATE_FACTOR = 2;
+
+interface RelevanceStats {
+  threshold: number;
+  checked: number;
+  kept: number;
+  rejected: number;
+  unscored: number;  // provider error - kept rather than thrown away
+}
 
-  const historicalSites = [
-    { name: 'Shorpy', site: 'shorpy.com' },
-    { name: 'Rare Historical Photos', site: 'rarehistoricalphotos.com' },
-    { name: 'Vintage Photos', site: 'vintag.es' },
-    { name: 'History in Pictures', site: 'historyinpictures.com' },
-  ];
+async function filterByRelevance(
+  projectId: string | undefined,
+  topic: string,
+  images: any[],
+  threshold: number,
+  signal: AbortSignal
+): Promise<{ kept: any[]; stats: RelevanceStats }> {
+  const stats: RelevanceStats = { threshold, checked: 0, kept: 0, rejected: 0, unscored: 0 };
+  const kept: any[] = [];
+
+  for (let i = 0; i < images.length; i += RELEVANCE_BATCH_SIZE) {
+    // Cancelled: stop paying for scoring, keep what's left unscored
+    if (signal.aborted) {
+      kept.push(...images.slice(i));
+      stats.unscored += images.length - i;
+      break;
+    }
 
-  for (const site of historicalSites) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        // Use image search to get actual image URLs
-        const searchResults = await searchSiteImages(site.site, query, 25);
-
-        for (const item of searchResults) {
-          if (item.img_src) {
-            results.push({
-              url: item.img_src,
-              title: item.title,
-              source: site.name,
-              thumbnail: item.thumbnail || item.img_src,
-              priority: 4,
-              license: 'mixed',
-            });
-          }
-        }
-      } catch (e: any) {
-        console.error(`[Image] Historical (${site.name}) error: ${e.message}`);
+    const batch = images.slice(i, i + RELEVANCE_BATCH_SIZE);
+    const verdicts = await validateImageBatch(topic, batch.map((image, idx) => ({ id: String(idx), url: image.url })));
+    const byId = new Map(verdicts.map(v => [v.id, v]));
+
+    batch.forEach((image, idx) => {
+      const verdict = byId.get(String(idx));
+      stats.checked++;
+
+      if (!verdict || verdict.error) {
+        stats.unscored++;
+        kept.push(image);
+      } else if (verdict.score >= threshold) {
+        stats.kept++;
+        kept.push({ ...image, relevanceScore: verdict.score, relevanceDescription: verdict.description });
+      } else {
+        stats.rejected++;
       }
-    }
+    });
+
+    reportProgress(projectId, 'image', 'relevance_progress', { checked: stats.checked, total: images.length, kept: stats.kept, rejected: stats.rejected });
   }
 
-  console.log(`[Image] Historical archives found: ${results.length}`);
-  return results;
+  return { kept, stats };
 }
 
-// 7. Flickr Commons - use IMAGE search
-async function searchFlickr(topic: string, queries: string[]) {
-  console.log('[Image] Searching Flickr...');
-  const results: any[] = [];
+// ============================================
+// INGESTION (download, validate, rehost)
+// ============================================
 
-  for (const query of queries.slice(0, 3)) {
-    try {
-      // Use image search to get actual image URLs from Flickr
-      const searchResults = await searchSiteImages('flickr.com', `${query} commons`, 30);
+// Off: results are saved as hotlinks to the source (needs_download: true)
+const INGEST_ENABLED = process.env.IMAGE_INGEST !== 'false';
+const INGEST_CONCURRENCY = parseInt(process.env.IMAGE_INGEST_CONCURRENCY || '4');
+// Candidates kept in reserve per requested image - broken links and tiny images are dropped
+const INGEST_CANDIDATE_FACTOR = 2;
+
+interface IngestStats {
+  attempted: number;
+  stored: number;
+  hotlinked: number;                  // valid image, but the storage upload failed
+  rejected: Record<string, number>;   // by ImageIngestError code
+}
 
-      for (const item of searchResults) {
-        if (item.img_src) {
-          results.push({
-            url: item.img_src,
-            title: item.title,
-            source: 'flickr',
-            thumbnail: item.thumbnail || item.img_src,
-            priority: 2,
-            license: 'creative_commons',
-          });
+// Works down the candidate list until `limit` images are stored (or it runs out)
+async function ingestImages(
+  projectId: string,
+  candidates: any[],
+  limit: number,
+  signal: AbortSignal
+): Promise<{ images: any[]; stats: IngestStats }> {
+  const stats: IngestStats = { attempted: 0, stored: 0, hotlinked: 0, rejected: {} };
+  const accepted: (any | null)[] = new Array(candidates.length).fill(null);
+  let next = 0;
+
+  const reject = (code: string) => {
+    stats.rejected[code] = (stats.rejected[code] || 0) + 1;
+  };
+
+  await Promise.all(Array.from({ length: Math.min(INGEST_CONCURRENCY, candidates.length) }, async () => {
+    while (next < candidates.length && stats.stored + stats.hotlinked < limit && !signal.aborted) {
+      const index = next++;
+      const image = candidates[index];
+      const id = uuidv4();
+      stats.attempted++;
+
+      try {
+        const ingested = await ingestImage(image.url, projectId, id, signal);
+        accepted[index] = { ...image, id, ingested };
+        stats.stored++;
+      } catch (error: any) {
+        if (error instanceof ImageIngestError && error.code === 'upload_failed') {
+          accepted[index] = image;
+          stats.hotlinked++;
+        } else {
+          reject(error instanceof ImageIngestError ? error.code : 'error');
         }
       }
-    } catch (e: any) {
-      console.error(`[Image] Flickr error: ${e.message}`);
+
+      if (stats.attempted % 10 === 0) {
+        reportProgress(projectId, 'image', 'ingest_progress', { attempted: stats.attempted, stored: stats.stored, limit });
+      }
+    }
+  }));
+
+  // Workers finish out of order - keep the ranking, and never exceed the limit
+  const kept = accepted.filter(image => image !== null);
+  const images = kept.slice(0, limit);
+
+  // Results that finished after the limit was reached are not kept. Deleting
+  // their uploads is best effort - a file left behind only costs storage, so
+  // it never fails the run
+  for (const extra of kept.slice(limit)) {
+    if (!extra.ingested) {
+      stats.hotlinked--;
+      continue;
+    }
+    stats.stored--;
+    for (const storagePath of [extra.ingested.storagePath, extra.ingested.thumbnailPath]) {
+      if (!storagePath) continue;
+      try {
+        if (!(await deleteFromStorage(storagePath))) console.log(`[Image] Could not delete surplus upload ${storagePath}`);
+      } catch (e: any) {
+        console.error(`[Image] Cleanup of ${storagePath} failed: ${e.message}`);
+      }
     }
   }
-
-  console.log(`[Image] Flickr found: ${results.length}`);
-  return results;
+  return { images, stats };
 }
 
 // ============================================
@@ -303,83 +317,242 @@ async function searchFlickr(topic: string, queries: string[]) {
 // ============================================
 
 app.post('/search', async (req, res) => {
-  const { projectId, topic, queries } = req.body;
+  const { projectId, topic, queries, minRelevance } = req.body;
+  const options = resolveWorkerOptions(req.body.options, 200);
 
   if (!topic) {
     return res.status(400).json({ error: 'Topic required' });
   }
+  if (minRelevance !== undefined && minRelevance !== null && (typeof minRelevance !== 'number' || minRelevance < 0 || minRelevance > 1)) {
+    return res.status(400).json({ error: 'minRelevance must be a number between 0 and 1' });
+  }
+
+  const threshold: number = typeof minRelevance === 'number' ? minRelevance : DEFAULT_MIN_RELEVANCE;
+  const filterByScore = threshold > 0 && getProviderChain('vision').length > 0;
+  if (threshold > 0 && !filterByScore) {
+    console.log(`[Image Worker] No vision provider configured - skipping relevance filter`);
+  }
 
   const searchQueries = queries || [topic];
   console.log(`\n[Image Worker] Starting search for "${topic}"`);
   console.log(`[Image Worker] Queries: ${searchQueries.join(', ')}`);
   console.log(`[Image Worker] Using SearXNG (unlimited searches)`);
 
+  // Aborted by POST /cancel for this project
+  const projectRun = beginRun(projectId);
+  const signal = projectRun.signal;
+
+  // Report each source category as soon as it finishes
+  const track = <T>(category: string, search: Promise<T[]>) => search.then(results => {
+    reportProgress(projectId, 'image', 'source_done', { category, count: results.length });
+    return results;
+  });
+
   try {
-    // Search all sources in parallel
-    const [archive, searxngImages, publicDomain, wikimedia, museums, historical, flickr] = await Promise.all([
-      searchArchiveOrg(topic, searchQueries),
-      searchSearXNGImages(topic, searchQueries),
-      searchPublicDomain(topic, searchQueries),
-      searchWikimedia(topic, searchQueries),
-      searchMuseums(topic, searchQueries),
-      searchHistoricalArchives(topic, searchQueries),
-      searchFlickr(topic, searchQueries),
-    ]);
+    reportProgress(projectId, 'image', 'search_started', { queries: searchQueries.length });
+
+    // Search every enabled source category from config/sources.json in parallel
+    const plan = getSearchPlan('image');
+    const runs: SourceRun[] = [];
+    const found = await withSearchScope(options, () => Promise.all(
+      plan.map(category => track(category.category, searchCategory(category, topic, searchQueries, signal, runs)))
+    ));
+    saveSourceRuns(runs.map(run => ({ ...run, project_id: projectId || null })));
+    const cancelled = signal.aborted;
 
     // Combine and deduplicate
-    const allResults = [...archive, ...searxngImages, ...publicDomain, ...wikimedia, ...museums, ...historical, ...flickr];
+    const allResults = found.flat();
     const unique = allResults.filter((item, index, self) =>
       index === self.findIndex(t => t.url === item.url)
     );
+    const sourceBreakdown = Object.fromEntries(plan.map((category, i) => [category.category, found[i].length]));
 
     // Sort by priority
     unique.sort((a, b) => a.priority - b.priority);
 
+    if (cancelled) console.log(`[Image Worker] Cancelled - keeping partial results`);
     console.log(`[Image Worker] Total unique images: ${unique.length}`);
-    console.log(`[Image Worker] Breakdown: Archive=${archive.length}, SearXNG=${searxngImages.length}, PublicDomain=${publicDomain.length}, Wikimedia=${wikimedia.length}, Museums=${museums.length}, Historical=${historical.length}, Flickr=${flickr.length}`);
+
+    // Collapse near-duplicates before paying for relevance scoring
+    let dedup: DedupReport | null = null;
+    let distinct: any[] = unique;
+    if (DEDUP_ENABLED && !cancelled && unique.length > 1) {
+      reportProgress(projectId, 'image', 'dedup_started', { candidates: unique.length });
+      const deduped = await dedupeImages(unique, {
+        signal,
+        onProgress: (hashed, total) => {
+          if (hashed % 25 === 0 || hashed === total) reportProgress(projectId, 'image', 'dedup_progress', { hashed, total });
+        },
+      });
+      distinct = deduped.images;
+      dedup = deduped.report;
+      console.log(`[Image Worker] Dedup: removed ${dedup.removed} near-duplicates in ${dedup.clusters} clusters (${dedup.hashed} hashed, ${dedup.unhashed} unhashed)`);
+    }
+
+    // Apply license / date filters and the requested limit
+    let pool: any[];
+    let relevance: RelevanceStats | null = null;
+    const ingesting = INGEST_ENABLED && !!projectId;
+
+    if (filterByScore) {
+      // Score a wider pool, then cut to the limit after low scorers are dropped
+      const candidates = applyResultFilters(distinct, { ...options, maxResults: options.maxResults * RELEVANCE_CANDIDATE_FACTOR });
+      console.log(`[Image Worker] Scoring ${candidates.length} candidates for relevance (threshold ${threshold})`);
+      reportProgress(projectId, 'image', 'relevance_started', { candidates: candidates.length, threshold });
+
+      const filtered = await filterByRelevance(projectId, topic, candidates, threshold, signal);
+      relevance = filtered.stats;
+      pool = filtered.kept;
+      console.log(`[Image Worker] Relevance: kept ${relevance.kept}, rejected ${relevance.rejected}, unscored ${relevance.unscored}`);
+    } else {
+      const limit = ingesting ? options.maxResults * INGEST_CANDIDATE_FACTOR : options.maxResults;
+      pool = applyResultFilters(distinct, { ...options, maxResults: limit });
+    }
+
+    let selected = pool.slice(0, options.maxResults);
+    let ingest: IngestStats | null = null;
+    if (ingesting && !signal.aborted && pool.length > 0) {
+      console.log(`[Image Worker] Downloading and validating up to ${options.maxResults} of ${pool.length} candidates`);
+      reportProgress(projectId, 'image', 'ingest_started', { candidates: pool.length, limit: options.maxResults });
+
+      const ingested = await ingestImages(projectId, pool, options.maxResults, signal);
+      selected = ingested.images;
+      ingest = ingested.stats;
+      console.log(`[Image Worker] Ingest: stored ${ingest.stored}, hotlinked ${ingest.hotlinked}, rejected ${JSON.stringify(ingest.rejected)}`);
+    }
+    console.log(`[Image Worker] Keeping ${selected.length} after filters (max ${options.maxResults})`);
+    console.log(`[Image Worker] Breakdown: ${Object.entries(sourceBreakdown).map(([category, count]) => `${category}=${count}`).join(', ')}`);
 
     // Save to Supabase if projectId provided
+    let saveReport: SaveReport | null = null;
     if (projectId) {
-      let saved = 0;
-      for (const image of unique.slice(0, 500)) {
-        try {
-          await supabase.from('media').insert({
-            id: uuidv4(),
-            project_id: projectId,
-            type: 'image',
-            title: image.title,
-            source: image.source,
-            source_url: image.url,
-            hosted_url: image.url,
-            metadata: {
-              thumbnail: image.thumbnail,
-              priority: image.priority,
-              license: image.license,
-            },
-          });
-          saved++;
-        } catch (e: any) { /* skip duplicates */ }
-      }
-      console.log(`[Image Worker] Saved ${saved} images to database`);
+      const { saved, report } = await saveMediaItems(selected.map(image => ({
+        id: image.id,
+        project_id: projectId,
+        type: 'image' as const,
+        title: image.title,
+        source: image.source,
+        source_url: image.url,
+        hosted_url: image.ingested?.hostedUrl,
+        storage_path: image.ingested?.storagePath ?? null,
+        metadata: {
+          thumbnail: image.ingested?.thumbnailUrl ?? image.thumbnail,
+          priority: image.priority,
+          license: image.license,
+          license_url: image.licenseUrl ?? null,
+          date: image.date ?? image.ingested?.exifDate ?? null,
+          creator: image.creator ?? null,
+          collection: image.collection ?? null,
+          width: image.ingested?.width ?? image.width ?? null,
+          height: image.ingested?.height ?? image.height ?? null,
+          format: image.ingested?.format ?? null,
+          bytes: image.ingested?.bytes ?? null,
+          exif_date: image.ingested?.exifDate ?? null,
+          needs_download: !image.ingested,
+          partial: cancelled,
+          relevance_score: image.relevanceScore ?? null,
+          relevance_description: image.relevanceDescription ?? null,
+          phash: image.phash ?? null,
+          duplicates: image.duplicates ?? null,
+        },
+      })));
+      saveReport = report;
+      console.log(`[Image Worker] Saved ${saved.length} images to database (${report.inserted} new, ${report.duplicates} duplicates, ${report.failed} failed)`);
+      reportProgress(projectId, 'image', 'saved', { count: saved.length, report });
     }
 
+    reportProgress(projectId, 'image', 'done', { count: selected.length, cancelled });
+
     res.json({
       success: true,
-      count: unique.length,
-      results: unique,
+      cancelled,
+      partial: cancelled,
+      count: selected.length,
+      saveReport,
+      results: selected,
+      dedup,
+      relevance,
+      ingest,
       breakdown: {
-        archive_org: archive.length,
-        searxng_images: searxngImages.length,
-        public_domain: publicDomain.length,
-        wikimedia: wikimedia.length,
-        museums: museums.length,
-        historical: historical.length,
-        flickr: flickr.length,
+        ...sourceBreakdown,
+        ...(dedup ? { dedup_removed: dedup.removed } : {}),
+        ...(relevance ? {
+          relevance_kept: relevance.kept,
+          relevance_rejected: relevance.rejected,
+          relevance_unscored: relevance.unscored,
+        } : {}),
+        ...(ingest ? {
+          ingest_stored: ingest.stored,
+          ingest_hotlinked: ingest.hotlinked,
+          ingest_rejected: Object.values(ingest.rejected).reduce((a, b) => a + b, 0),
+        } : {}),
       }
     });
   } catch (error: any) {
     console.error(`[Image Worker] Error: ${error.message}`);
     res.status(500).json({ error: error.message });
+  } finally {
+    finishRun(projectRun);
+  }
+});
+
+// Stop an in-flight search for a project (fanned out by the orchestrator)
+app.post('/cancel', (req, res) => {
+  const { projectId } = req.body;
+  if (!projectId) return res.status(400).json({ error: 'projectId required' });
+
+  const wasRunning = cancelRun(projectId);
+  console.log(`[Image Worker] Cancel ${projectId}: ${wasRunning ? 'stopping search' : 'nothing running'}`);
+  res.json({ success: true, cancelled: wasRunning });
+});
+
+// ============================================
+// SOURCE CATALOG
+// ============================================
+
+// Called by the orchestrator after /v1/sources changes
+app.post('/sources/reload', async (req, res) => {
+  try {
+    const overrides = await refreshSourceOverrides();
+    console.log(`[Image Worker] Reloaded sources (${overrides} overrides)`);
+    res.json({ success: true, overrides, sources: getSources('image').length });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Dry run of a single source (disabled ones too): raw hits, before any blacklist,
+// result filter or dedup, and the breakers involved. Nothing is saved.
+app.post('/sources/test', async (req, res) => {
+  const { sourceId, topic, queries } = req.body || {};
+  if (!sourceId || !topic) {
+    return res.status(400).json({ success: false, error: 'sourceId and topic required' });
+  }
+
+  await refreshSourceOverrides().catch(() => {});
+  const source = getSource(sourceId);
+  if (!source || source.worker !== 'image') {
+    return res.status(404).json({ success: false, error: `Unknown image source: ${sourceId}` });
+  }
+
+  const searchQueries: string[] = Array.isArray(queries) && queries.length > 0 ? queries : [topic];
+  const startedAt = Date.now();
+
+  try {
+    const { results, run } = await searchSource(source, topic, searchQueries, new AbortController().signal, { dryRun: true });
+    res.json({
+      success: true,
+      source,
+      queries: buildSourceQueries(source, searchQueries, topic),
+      count: results.length,
+      duration_ms: Date.now() - startedAt,
+      run,
+      breakers: getBreakerStatus([source.id, ...Object.values(UPSTREAM_BREAKERS)]),
+      results,
+    });
+  } catch (error: any) {
+    console.error(`[Image Worker] Source test ${sourceId} failed: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
   }
 });
 
@@ -390,6 +563,7 @@ app.get('/health', (req, res) => {
     port: PORT,
     search_engine: 'SearXNG (self-hosted)',
     sources: '40+',
+    breakers: getBreakerStatus(),
   });
 });
 
@@ -4,13 +4,14 @@ import { v4 as uuidv4 } from 'uuid';
 import { searchWebForImages } from '../services/web-search.js';
 import { uploadFromUrl } from '../services/storage.js';
 import { validateImageRelevance, validateImageBatch } from '../services/claude.js';
+import { saveMediaItem, emptySaveReport, mergeSaveReports } from '../services/media-repository.js';
 
 const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_KEY!);
 
 // Filter images by relevance using Qwen (much cheaper than Claude)
 const FILTER_BY_RELEVANCE = process.env.FILTER_IMAGES_BY_RELEVANCE === 'true';
 
-export async function processImageResearch(projectId: string, topic: string, maxResults: number) {
+export async function processImageResearch(projectId: string, topic: string, maxResults: number, signal?: AbortSignal) {
   console.log(`\n[Image] Starting: "${topic}"`);
 
   try {
@@ -21,7 +22,7 @@ export async function processImageResearch(projectId: string, topic: string, max
 
     // Filter by relevance using Qwen (batch for efficiency)
     let imagesToProcess = searchResults;
-    if (FILTER_BY_RELEVANCE && searchResults.length > 0) {
+    if (FILTER_BY_RELEVANCE && searchResults.length > 0 && !signal?.aborted) {
       console.log(`[Image] Filtering by relevance using Qwen...`);
       const imagesToCheck = searchResults.slice(0, Math.min(searchResults.length, maxResults * 3)).map((img, idx) => ({
         url: img.url,
@@ -40,8 +41,9 @@ export async function processImageResearch(projectId: string, topic: string, max
     }
 
     let saved = 0;
+    const saveReport = emptySaveReport();
     for (const image of imagesToProcess) {
-      if (saved >= maxResults) break;
+      if (saved >= maxResults || signal?.aborted) break;
 
       try {
         const imageId = uuidv4();
@@ -50,7 +52,7 @@ export async function processImageResearch(projectId: string, topic: string, max
         const hostedUrl = await uploadFromUrl(image.url, storagePath);
         if (!hostedUrl) continue;
 
-        await supabase.from('media').insert({
+        const { item, report } = await saveMediaItem({
           id: imageId,
           project_id: projectId,
           type: 'image',
@@ -61,6 +63,8 @@ export async function processImageResearch(projectId: string, topic: string, max
           storage_path: storagePath,
           metadata: { width: image.width, height: image.height },
         });
+        mergeSaveReports(saveReport, report);
+        if (!item) continue;
 
         saved++;
         console.log(`[Image] Saved ${saved}/${maxResults}`);
@@ -75,8 +79,8 @@ export async function processImageResearch(projectId: string, topic: string, max
       image_count: saved,
     }).eq('id', projectId);
 
-    console.log(`[Image] Done: ${saved} images`);
-    return { success: true, count: saved };
+    console.log(`[Image] ${signal?.aborted ? 'Cancelled' : 'Done'}: ${saved} images`);
+    return { success: true, count: saved, saveReport, cancelled: !!signal?.aborted };
 
   } catch (e: any) {
     console.error(`[Image] Fatal: ${e.message}`);
@@ -3,6 +3,8 @@ import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import { chromium, Browser } from 'playwright';
 import { searchWebForNews, searchHistoricalNewspapers } from '../services/web-search.js';
+import { saveMediaItem, emptySaveReport, mergeSaveReports } from '../services/media-repository.js';
+import { uploadToStorage } from '../services/storage.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -41,43 +43,31 @@ async function takeScreenshot(browser: Browser, url: string, outputPath: string)
   }
 }
 
-// Upload screenshot to Supabase
+// Upload screenshot to storage
 async function uploadScreenshot(filePath: string, storagePath: string): Promise<string | null> {
-  try {
-    const fileBuffer = fs.readFileSync(filePath);
-
-    const { error } = await supabase.storage
-      .from('mediamind')
-      .upload(storagePath, fileBuffer, {
-        contentType: 'image/jpeg',
-        upsert: true
-      });
-
-    if (error) {
-      console.error(`[News] Upload error: ${error.message}`);
-      return null;
-    }
-
-    const { data: { publicUrl } } = supabase.storage
-      .from('mediamind')
-      .getPublicUrl(storagePath);
-
-    // Clean up local file
-    fs.unlinkSync(filePath);
-
-    return publicUrl;
-  } catch (e: any) {
-    console.error(`[News] Upload failed: ${e.message}`);
+  const publicUrl = await uploadToStorage(filePath, storagePath);
+  if (!publicUrl) {
+    console.error(`[News] Upload failed: ${storagePath}`);
     return null;
   }
+
+  // Clean up local file
+  fs.rmSync(filePath, { force: true });
+
+  return publicUrl;
 }
 
-export async function processNewsResearch(projectId: string, topic: string, maxResults: number) {
+export async function processNewsResearch(projectId: string, topic: string, maxResults: number, signal?: AbortSignal) {
   console.log(`\n[News] Starting: "${topic}"`);
 
   let saved = 0;
+  const saveReport = emptySaveReport();
   let browser: Browser | null = null;
 
+  // Closing the browser on cancel makes any in-flight screenshot fail fast
+  const closeBrowserOnAbort = () => { browser?.close().catch(() => {}); };
+  signal?.addEventListener('abort', closeBrowserOnAbort, { once: true });
+
   // Create temp directory for screenshots
   const tempDir = `/tmp/mediamind/${projectId}/screenshots`;
   fs.mkdirSync(tempDir, { recursive: true });
@@ -96,11 +86,12 @@ export async function processNewsResearch(projectId: string, topic: string, maxR
     console.log(`[News] Found ${newspapers.length} newspapers`);
 
     for (const paper of newspapers) {
-      if (saved >= maxResults) break;
+      if (saved >= maxResults || signal?.aborted) break;
 
       try {
         const newsId = uuidv4();
         let hostedUrl = paper.imageUrl || paper.url;
+        let storedPath: string | null = null;
 
         // If no image URL, take screenshot
         if (!paper.imageUrl && browser) {
@@ -112,11 +103,12 @@ export async function processNewsResearch(projectId: string, topic: string, maxR
             const uploadedUrl = await uploadScreenshot(screenshotPath, storagePath);
             if (uploadedUrl) {
               hostedUrl = uploadedUrl;
+              storedPath = storagePath;
             }
           }
         }
 
-        await supabase.from('media').insert({
+        const { item, report } = await saveMediaItem({
           id: newsId,
           project_id: projectId,
           type: 'newspaper_scan',
@@ -124,12 +116,14 @@ export async function processNewsResearch(projectId: string, topic: string, maxR
           source: paper.source,
           source_url: paper.url,
           hosted_url: hostedUrl,
-          storage_path: hostedUrl.includes('supabase') ? `news/${projectId}/${newsId}.jpg` : null,
+          storage_path: storedPath,
           metadata: {
             date: paper.date,
             snippet: paper.snippet,
           },
         });
+        mergeSaveReports(saveReport, report);
+        if (!item) continue;
 
         saved++;
         console.log(`[News] Saved newspaper ${saved}: ${paper.title?.slice(0, 40)}...`);
@@ -140,15 +134,16 @@ export async function processNewsResearch(projectId: string, topic: string, maxR
     }
 
     // Modern news articles
-    const articles = await searchWebForNews(topic, maxResults);
+    const articles = signal?.aborted ? [] : await searchWebForNews(topic, maxResults);
     console.log(`[News] Found ${articles.length} articles`);
 
     for (const article of articles) {
-      if (saved >= maxResults) break;
+      if (saved >= maxResults || signal?.aborted) break;
 
       try {
         const newsId = uuidv4();
         let hostedUrl = article.url;
+        let storedPath: string | null = null;
 
         // Take screenshot of article
         if (browser) {
@@ -160,12 +155,13 @@ export async function processNewsResearch(projectId: string, topic: string, maxR
             const uploadedUrl = await uploadScreenshot(screenshotPath, storagePath);
             if (uploadedUrl) {
               hostedUrl = uploadedUrl;
+              storedPath = storagePath;
               console.log(`[News] Screenshot saved: ${article.title?.slice(0, 30)}...`);
             }
           }
         }
 
-        await supabase.from('media').insert({
+        const { item, report } = await saveMediaItem({
           id: newsId,
           project_id: projectId,
           type: 'article_screenshot',
@@ -173,12 +169,14 @@ export async function processNewsResearch(projectId: string, topic: string, maxR
           source: article.source,
           source_url: article.url,
           hosted_url: hostedUrl,
-          storage_path: hostedUrl.includes('supabase') ? `news/${projectId}/${newsId}.jpg` : null,
+          storage_path: storedPath,
           metadata: {
             date: article.date,
             snippet: article.snippet,
           },
         });
+        mergeSaveReports(saveReport, report);
+        if (!item) continue;
 
         saved++;
         console.log(`[News] Saved article ${saved}: ${article.source}`);
@@ -193,13 +191,15 @@ export async function processNewsResearch(projectId: string, topic: string, maxR
       news_count: saved,
     }).eq('id', projectId);
 
-    console.log(`[News] Done: ${saved} items`);
-    return { success: true, count: saved };
+    console.log(`[News] ${signal?.aborted ? 'Cancelled' : 'Done'}: ${saved} items`);
+    return { success: true, count: saved, saveReport, cancelled: !!signal?.aborted };
 
   } catch (e: any) {
     console.error(`[News] Fatal: ${e.message}`);
     return { success: false, error: e.message };
   } finally {
+    signal?.removeEventListener('abort', closeBrowserOnAbort);
+
     // Always close browser
     if (browser) {
       await browser.close();
@@ -3,34 +3,25 @@
 
 import 'dotenv/config';
 import express from 'express';
-import { createClient } from '@supabase/supabase-js';
-import { v4 as uuidv4 } from 'uuid';
-import axios from 'axios';
-import * as fs from 'fs';
-import * as path from 'path';
-import { fileURLToPath } from 'url';
-import { searchWeb, searchVideos, searchSite } from '../utils/searxng.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { searchWeb, searchVideos } from '../utils/searxng.js';
+import { withSearchScope } from '../utils/search-scope.js';
+import { beginRun, finishRun, cancelRun } from '../utils/cancellation.js';
+import { reportProgress } from '../utils/progress.js';
+import { withSourceScope, isCircuitOpen, getBreakerStatus, UPSTREAM_BREAKERS, CircuitOpenError } from '../utils/circuit-breaker.js';
+import { saveMediaItems, SaveReport } from '../services/media-repository.js';
+import { resolveWorkerOptions, applyResultFilters } from '../utils/research-options.js';
+import { getSearchPlan, getSources, getSource, refreshSourceOverrides, buildSourceQueries, sitePattern } from '../services/source-registry.js';
+import type { SourceDefinition, SourceType, SearchPlanCategory } from '../services/source-registry.js';
+import { startSourceRun, recordSearchError, saveSourceRuns } from '../services/source-stats.js';
+import type { SourceRun } from '../services/source-stats.js';
+import { searchArchive, fetchArchiveItems, selectArchiveFile, archiveMediaInfo, archiveDownloadUrl, archiveThumbnailUrl } from '../services/archive-org.js';
+import type { ArchiveFileSelection } from '../services/archive-org.js';
 
 const app = express();
 const PORT = process.env.VIDEO_WORKER_PORT || 3001;
 
 app.use(express.json());
 
-// Initialize Supabase with error handling
-let supabase: any = null;
-try {
-  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY) {
-    supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
-  }
-} catch (e) {
-  console.warn('[Video] Supabase initialization failed');
-}
-
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 // Blacklist of unrelated terms that indicate completely off-topic results
 const BLACKLIST_TERMS = [
   'ufo', 'alien', 'fashion week', 'runway', 'model walk', 'cooking recipe',
@@ -47,16 +38,6 @@ function isBlacklisted(title: string): boolean {
   return BLACKLIST_TERMS.some(term => titleLower.includes(term));
 }
 
-// Load sources config
-let sourcesConfig: any = null;
-try {
-  const configPath = path.join(__dirname, '../config/sources.json');
-  sourcesConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
-  console.log('[Video] Loaded sources config');
-} catch (e) {
-  console.log('[Video] Config not found, using defaults');
-}
-
 // Video file extensions to look for
 const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.ogv', '.ogg', '.avi', '.mov', '.mkv', '.m4v', '.flv', '.wmv', '.3gp', '.mpeg', '.mpg'];
 const NON_VIDEO_EXTENSIONS = ['.pdf', '.txt', '.doc', '.docx', '.jpg', '.jpeg', '.png', '.gif', '.html', '.htm', '.wav', '.mp3', '.aac', '.flac'];
@@ -113,297 +94,181 @@ function isVideoUrl(url: string): boolean {
 }
 
 // ============================================
-// SEARCH SOURCES (Using SearXNG)
+// SEARCH SOURCES (plan from config/sources.json)
 // ============================================
 
-// 1. Archive.org (BEST - Public domain, downloadable)
-async function searchArchiveOrg(topic: string, queries: string[]) {
-  console.log('[Video] Searching Archive.org...');
+// Web-playable files; derivatives are the h.264 / ogv transcodes Archive.org makes
+const VIDEO_FILES: ArchiveFileSelection = { extensions: ['mp4', 'webm', 'ogv'], preferSource: 'derivative' };
+
+// Archive.org search, then the items' metadata for a playable file
+async function searchArchiveOrg(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
   for (const query of queries) {
+    if (signal.aborted) break;
     try {
-      const searchUrl = `https://archive.org/advancedsearch.php?q=${encodeURIComponent(query)}+AND+mediatype:movies&fl[]=identifier,title,description&sort[]=downloads+desc&rows=50&output=json`;
-
-      const response = await axios.get(searchUrl, {
-        headers: { 'User-Agent': 'MediaMind Research Bot/1.0' },
-        timeout: 30000,
+      run.queries++;
+      const docs = await searchArchive(query, { mediatype: 'movies', limit: source.maxResults, signal });
+      run.hits += docs.length;
+
+      const items = await fetchArchiveItems(docs.map(doc => doc.identifier), { signal });
+      items.forEach((item, i) => {
+        const file = item && selectArchiveFile(item.files, VIDEO_FILES);
+        if (!item || !file) return;
+
+        // TIER 1 SOURCE: Trust Archive.org completely (no relevance filtering)
+        results.push({
+          url: archiveDownloadUrl(item.identifier, file.name),
+          title: item.title || docs[i].title || item.identifier,
+          source: source.name,
+          thumbnail: archiveThumbnailUrl(item.identifier),
+          ...archiveMediaInfo(item, file),
+        });
       });
-
-      const docs = response.data?.response?.docs || [];
-
-      for (const doc of docs.slice(0, 25)) {
-        await delay(150);
-        try {
-          const meta = await axios.get(`https://archive.org/metadata/${doc.identifier}`, { timeout: 10000 });
-          const files = meta.data?.files || [];
-          const videoFile = files.find((f: any) =>
-            f.name?.endsWith('.mp4') || f.name?.endsWith('.webm') || f.name?.endsWith('.ogv')
-          );
-
-          if (videoFile) {
-            const title = doc.title || doc.identifier;
-            // TIER 1 SOURCE: Trust Archive.org completely (no relevance filtering)
-            results.push({
-              url: `https://archive.org/download/${doc.identifier}/${videoFile.name}`,
-              title: title,
-              source: 'archive.org',
-              thumbnail: `https://archive.org/services/img/${doc.identifier}`,
-              priority: 1,
-              license: 'public_domain',
-            });
-          }
-        } catch (e: any) { /* skip */ }
-      }
     } catch (e: any) {
-      console.log(`[Video] Archive.org query failed: ${e.message}`);
+      recordSearchError(run, e);
+      console.log(`[Video] ${source.name} query failed: ${e.message}`);
+      if (e instanceof CircuitOpenError) break;
     }
   }
 
-  console.log(`[Video] Archive.org found: ${results.length}`);
   return results;
 }
 
-// 2. SearXNG Video Search (aggregates Google, Bing, DuckDuckGo videos)
-async function searchSearXNGVideos(topic: string, queries: string[]) {
-  console.log('[Video] Searching via SearXNG video category...');
+// Site-restricted web search (archives, stock and documentary sites)
+async function searchSiteVideos(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
   for (const query of queries) {
+    if (signal.aborted) break;
     try {
-      const searchResults = await searchVideos(`${query} historical footage documentary`, 50);
+      run.queries++;
+      const searchResults = await searchWeb(`${sitePattern(source)} ${query}`, source.maxResults, signal);
+      run.hits += searchResults.length;
 
       for (const item of searchResults) {
-        // Simple blacklist check - sentence queries handle relevance
-        if (isVideoUrl(item.url) && !isBlacklisted(item.title)) {
-          results.push({
-            url: item.url,
-            title: item.title,
-            source: item.engine || 'searxng',
-            thumbnail: item.thumbnail,
-            priority: 2,
-            license: 'unknown',
-          });
+        if (isVideoUrl(item.url)) {
+          results.push({ url: item.url, title: item.title, source: source.name });
         }
       }
     } catch (e: any) {
-      console.error(`[Video] SearXNG video search error: ${e.message}`);
+      recordSearchError(run, e);
+      console.error(`[Video] ${source.name} error: ${e.message}`);
     }
   }
 
-  console.log(`[Video] SearXNG videos found: ${results.length}`);
   return results;
 }
 
-// 3. Free Stock Video Sites
-async function searchFreeStockVideo(topic: string, queries: string[]) {
-  console.log('[Video] Searching free stock video sites...');
+// SearXNG video category (aggregates Google, Bing, DuckDuckGo videos)
+async function searchVideoCategory(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
-  const freeStockSites = [
-    { name: 'Pexels Video', site: 'pexels.com/video' },
-    { name: 'Pixabay Video', site: 'pixabay.com/videos' },
-    { name: 'Videvo', site: 'videvo.net' },
-    { name: 'Coverr', site: 'coverr.co' },
-    { name: 'Mixkit', site: 'mixkit.co' },
-  ];
+  for (const query of queries) {
+    if (signal.aborted) break;
+    try {
+      run.queries++;
+      const searchResults = await searchVideos(query, source.maxResults, signal);
+      run.hits += searchResults.length;
 
-  for (const stock of freeStockSites) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        const searchResults = await searchSite(stock.site, query, 15);
-
-        for (const item of searchResults) {
-          // RELEVANCE CHECK for stock sites
-          if (isVideoUrl(item.url) && !isBlacklisted(item.title)) {
-            results.push({
-              url: item.url,
-              title: item.title,
-              source: stock.name,
-              priority: 2,
-              license: 'creative_commons',
-            });
-          }
+      for (const item of searchResults) {
+        if (isVideoUrl(item.url)) {
+          results.push({ url: item.url, title: item.title, source: item.engine || 'searxng', thumbnail: item.thumbnail });
         }
-      } catch (e: any) {
-        console.error(`[Video] Free stock (${stock.name}) error: ${e.message}`);
       }
+    } catch (e: any) {
+      recordSearchError(run, e);
+      console.error(`[Video] ${source.name} error: ${e.message}`);
     }
   }
 
-  console.log(`[Video] Free stock video found: ${results.length}`);
   return results;
 }
 
-// 4. Historical Archives
-async function searchHistoricalArchives(topic: string, queries: string[]) {
-  console.log('[Video] Searching historical archives...');
+// Open web search, minus the source's excluded domains
+async function searchWebVideos(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
-  const archives = [
-    { name: 'British Pathé', site: 'britishpathe.com' },
-    { name: 'C-SPAN', site: 'c-span.org/video' },
-    { name: 'Library of Congress', site: 'loc.gov/item' },
-    { name: 'AP Archive', site: 'aparchive.com' },
-    { name: 'Reuters', site: 'reuters.com/video' },
-    { name: 'ITN Source', site: 'itnsource.com' },
-    { name: 'Critical Past', site: 'criticalpast.com' },
-    { name: 'Footage Farm', site: 'footagefarm.com' },
-    { name: 'Historic Films', site: 'historicfilms.com' },
-    { name: 'NBC Archives', site: 'nbcnewsarchives.com' },
-    { name: 'CBS News', site: 'cbsnews.com/video' },
-    { name: 'BBC Archive', site: 'bbc.com/archive' },
-    { name: 'Europeana', site: 'europeana.eu' },
-    { name: 'BFI', site: 'bfi.org.uk' },
-    { name: 'National Archives', site: 'catalog.archives.gov' },
-  ];
-
-  for (const archive of archives) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        const searchResults = await searchSite(archive.site, `${query} video film footage`, 15);
-
-        for (const item of searchResults) {
-          // TIER 1 SOURCE: Trust historical archives (British Pathe, LOC, etc.)
-          // Only check if it's a video URL, no relevance filtering
-          if (isVideoUrl(item.url)) {
-            results.push({
-              url: item.url,
-              title: item.title,
-              source: archive.name,
-              priority: 3,
-              license: 'mixed',
-            });
-          }
-        }
-      } catch (e: any) {
-        console.error(`[Video] Archive (${archive.name}) error: ${e.message}`);
-      }
-    }
-  }
-
-  console.log(`[Video] Historical archives found: ${results.length}`);
-  return results;
-}
-
-// 5. News & Documentary Sources
-async function searchNewsDocumentary(topic: string, queries: string[]) {
-  console.log('[Video] Searching news & documentary sources...');
-  const results: any[] = [];
+  for (const query of queries) {
+    if (signal.aborted) break;
+    try {
+      run.queries++;
+      const searchResults = await searchWeb(query, source.maxResults, signal);
+      run.hits += searchResults.length;
 
-  const newsSources = [
-    { name: 'History Channel', site: 'history.com/videos' },
-    { name: 'Smithsonian', site: 'smithsonianchannel.com' },
-    { name: 'National Geographic', site: 'nationalgeographic.com/videos' },
-    { name: 'PBS', site: 'pbs.org/video' },
-    { name: 'Documentary Storm', site: 'documentarystorm.com' },
-    { name: 'Top Documentary', site: 'topdocumentaryfilms.com' },
-  ];
+      for (const item of searchResults) {
+        const domain = new URL(item.url).hostname.replace('www.', '');
+        if (source.excludeDomains.some(d => domain.includes(d))) continue;
 
-  for (const source of newsSources) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        const searchResults = await searchSite(source.site, query, 15);
-
-        for (const item of searchResults) {
-          // TIER 2 SOURCE: Trust news/documentary sites (light filtering - blacklist only)
-          if (isVideoUrl(item.url)) {
-            const titleLower = (item.title || '').toLowerCase();
-            // Only block if obviously unrelated (blacklist check)
-            const isBlacklisted = BLACKLIST_TERMS.some(term => titleLower.includes(term));
-            if (!isBlacklisted) {
-              results.push({
-                url: item.url,
-                title: item.title,
-                source: source.name,
-                priority: 4,
-                license: 'editorial',
-              });
-            }
-          }
+        if (isVideoUrl(item.url)) {
+          results.push({ url: item.url, title: item.title, source: domain });
         }
-      } catch (e: any) {
-        console.error(`[Video] News/Doc (${source.name}) error: ${e.message}`);
       }
+    } catch (e: any) {
+      recordSearchError(run, e);
+      console.error(`[Video] ${source.name} error: ${e.message}`);
     }
   }
 
-  console.log(`[Video] News/Documentary found: ${results.length}`);
   return results;
 }
 
-// 6. Stock Footage Sites
-async function searchStockFootage(topic: string, queries: string[]) {
-  console.log('[Video] Searching stock footage sites...');
-  const results: any[] = [];
-
-  const stockSites = [
-    { name: 'Getty Video', site: 'gettyimages.com/videos' },
-    { name: 'Shutterstock Video', site: 'shutterstock.com/video' },
-    { name: 'Pond5', site: 'pond5.com' },
-    { name: 'Artgrid', site: 'artgrid.io' },
-    { name: 'Storyblocks', site: 'storyblocks.com/video' },
-  ];
-
-  for (const stock of stockSites) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        const searchResults = await searchSite(stock.site, query, 15);
-
-        for (const item of searchResults) {
-          // RELEVANCE CHECK for stock footage
-          if (isVideoUrl(item.url) && !isBlacklisted(item.title)) {
-            results.push({
-              url: item.url,
-              title: item.title,
-              source: stock.name,
-              priority: 5,
-              license: 'commercial',
-            });
-          }
-        }
-      } catch (e: any) {
-        console.error(`[Video] Stock (${stock.name}) error: ${e.message}`);
-      }
-    }
+const SOURCE_SEARCHERS: Partial<Record<SourceType, typeof searchSiteVideos>> = {
+  api: searchArchiveOrg,
+  search: searchSiteVideos,
+  category: searchVideoCategory,
+  web: searchWebVideos,
+};
+
+// Runs one source and tags its results with the source's tier and license, counting
+// queries, hits, kept results and failures for the source statistics
+// A dry run (/sources/test) searches even with the source's breaker open, leaves
+// the breaker alone and returns every hit
+async function searchSource(
+  source: SourceDefinition,
+  topic: string,
+  queries: string[],
+  signal: AbortSignal,
+  { dryRun = false }: { dryRun?: boolean } = {}
+) {
+  const run = startSourceRun(source);
+  const search = SOURCE_SEARCHERS[source.type];
+  if (!search) {
+    console.log(`[Video] Skipping ${source.name}: no video search for type "${source.type}"`);
+    return { results: [], run };
+  }
+  if (!dryRun && isCircuitOpen(source.id)) {
+    console.log(`[Video] Skipping ${source.name}: circuit breaker open`);
+    return { results: [], run };
   }
 
-  console.log(`[Video] Stock footage found: ${results.length}`);
-  return results;
+  const startedAt = Date.now();
+  const found = await withSourceScope(
+    { onError: error => recordSearchError(run, error), breaker: dryRun ? undefined : source.id },
+    () => search(source, buildSourceQueries(source, queries, topic), signal, run)
+  );
+  const results = found
+    .filter(item => dryRun || !source.blacklist || !isBlacklisted(item.title))
+    .map(item => ({ ...item, priority: source.priority, license: item.license || source.license, sourceId: source.id }));
+
+  run.kept = results.length;
+  run.latency_ms = Date.now() - startedAt;
+  return { results, run };
 }
 
-// 7. General Web Search for Videos
-async function searchWebVideos(topic: string, queries: string[]) {
-  console.log('[Video] Searching general web for videos...');
+// Sources within a category run one after another; categories run in parallel
+async function searchCategory(category: SearchPlanCategory, topic: string, queries: string[], signal: AbortSignal, runs: SourceRun[]) {
+  console.log(`[Video] Searching ${category.category} (${category.sources.length} sources)...`);
   const results: any[] = [];
 
-  const excludedDomains = ['youtube.com', 'youtu.be', 'tiktok.com', 'facebook.com', 'instagram.com', 'twitter.com', 'x.com', 'dailymotion.com'];
-
-  for (const query of queries) {
-    try {
-      const searchResults = await searchWeb(`${query} video footage documentary -youtube -tiktok -dailymotion`, 40);
-
-      for (const item of searchResults) {
-        const domain = new URL(item.url).hostname.replace('www.', '');
-        if (excludedDomains.some(d => domain.includes(d))) continue;
-
-        // RELEVANCE CHECK: Only include if title matches topic
-        if (isVideoUrl(item.url) && !isBlacklisted(item.title)) {
-          results.push({
-            url: item.url,
-            title: item.title,
-            source: domain,
-            priority: 6,
-            license: 'unknown',
-          });
-        }
-      }
-    } catch (e: any) {
-      console.error(`[Video] Web search error: ${e.message}`);
-    }
+  for (const source of category.sources) {
+    if (signal.aborted) break;
+    const { results: found, run } = await searchSource(source, topic, queries, signal);
+    results.push(...found);
+    runs.push(run);
   }
 
-  console.log(`[Video] Web videos found: ${results.length}`);
+  console.log(`[Video] ${category.category} found: ${results.length}`);
   return results;
 }
 
@@ -413,6 +278,7 @@ async function searchWebVideos(topic: string, queries: string[]) {
 
 app.post('/search', async (req, res) => {
   const { projectId, topic, queries } = req.body;
+  const options = resolveWorkerOptions(req.body.options, 100);
 
   if (!topic) {
     return res.status(400).json({ error: 'Topic required' });
@@ -424,72 +290,149 @@ app.post('/search', async (req, res) => {
   console.log(`[Video Worker] Sentence queries: ${searchQueries.join(' | ')}`);
   console.log(`[Video Worker] Using sentence-based search (no keyword filtering)`);
 
+  // Aborted by POST /cancel for this project
+  const projectRun = beginRun(projectId);
+  const signal = projectRun.signal;
+
+  // Report each source category as soon as it finishes
+  const track = <T>(category: string, search: Promise<T[]>) => search.then(results => {
+    reportProgress(projectId, 'video', 'source_done', { category, count: results.length });
+    return results;
+  });
+
   try {
-    // Search all sources in parallel
-    const [archive, searxngVideos, freeStock, historical, newsDoc, stockFootage, webVideos] = await Promise.all([
-      searchArchiveOrg(topic, searchQueries),
-      searchSearXNGVideos(topic, searchQueries),
-      searchFreeStockVideo(topic, searchQueries),
-      searchHistoricalArchives(topic, searchQueries),
-      searchNewsDocumentary(topic, searchQueries),
-      searchStockFootage(topic, searchQueries),
-      searchWebVideos(topic, searchQueries),
-    ]);
+    reportProgress(projectId, 'video', 'search_started', { queries: searchQueries.length });
+
+    // Search every enabled source category from config/sources.json in parallel
+    const plan = getSearchPlan('video');
+    const runs: SourceRun[] = [];
+    const found = await withSearchScope(options, () => Promise.all(
+      plan.map(category => track(category.category, searchCategory(category, topic, searchQueries, signal, runs)))
+    ));
+    saveSourceRuns(runs.map(run => ({ ...run, project_id: projectId || null })));
+    const cancelled = signal.aborted;
 
     // Combine and deduplicate
-    const allResults = [...archive, ...searxngVideos, ...freeStock, ...historical, ...newsDoc, ...stockFootage, ...webVideos];
+    const allResults = found.flat();
     const unique = allResults.filter((item, index, self) =>
       index === self.findIndex(t => t.url === item.url)
     );
+    const breakdown = Object.fromEntries(plan.map((category, i) => [category.category, found[i].length]));
 
     // Sort by priority
     unique.sort((a, b) => a.priority - b.priority);
 
+    if (cancelled) console.log(`[Video Worker] Cancelled - keeping partial results`);
     console.log(`[Video Worker] Total unique videos: ${unique.length}`);
-    console.log(`[Video Worker] Breakdown: Archive=${archive.length}, SearXNG=${searxngVideos.length}, FreeStock=${freeStock.length}, Historical=${historical.length}, NewsDoc=${newsDoc.length}, Stock=${stockFootage.length}, Web=${webVideos.length}`);
+
+    // Apply license / date filters and the requested limit
+    const selected = applyResultFilters(unique, options);
+    console.log(`[Video Worker] Keeping ${selected.length} after filters (max ${options.maxResults})`);
+    console.log(`[Video Worker] Breakdown: ${Object.entries(breakdown).map(([category, count]) => `${category}=${count}`).join(', ')}`);
 
     // Save to Supabase if projectId provided
+    let saveReport: SaveReport | null = null;
     if (projectId) {
-      let saved = 0;
-      for (const video of unique) {
-        try {
-          await supabase.from('media').insert({
-            id: uuidv4(),
-            project_id: projectId,
-            type: 'video',
-            title: video.title,
-            source: video.source,
-            source_url: video.url,
-            hosted_url: video.url,
-            metadata: {
-              thumbnail: video.thumbnail,
-              priority: video.priority,
-              license: video.license,
-            },
-          });
-          saved++;
-        } catch (e: any) { /* skip duplicates */ }
-      }
-      console.log(`[Video Worker] Saved ${saved} videos to database`);
+      const { saved, report } = await saveMediaItems(selected.map(video => ({
+        project_id: projectId,
+        type: 'video' as const,
+        title: video.title,
+        source: video.source,
+        source_url: video.url,
+        metadata: {
+          thumbnail: video.thumbnail,
+          priority: video.priority,
+          license: video.license,
+          license_url: video.licenseUrl ?? null,
+          date: video.date ?? null,
+          duration: video.duration ?? null,
+          creator: video.creator ?? null,
+          collection: video.collection ?? null,
+          needs_download: true,
+          partial: cancelled,
+        },
+      })));
+      saveReport = report;
+      console.log(`[Video Worker] Saved ${saved.length} videos to database (${report.inserted} new, ${report.duplicates} duplicates, ${report.failed} failed)`);
+      reportProgress(projectId, 'video', 'saved', { count: saved.length, report });
     }
 
+    reportProgress(projectId, 'video', 'done', { count: selected.length, cancelled });
+
     res.json({
       success: true,
-      count: unique.length,
-      results: unique,
-      breakdown: {
-        archive_org: archive.length,
-        searxng_videos: searxngVideos.length,
-        free_stock: freeStock.length,
-        historical_archives: historical.length,
-        news_documentary: newsDoc.length,
-        stock_footage: stockFootage.length,
-        web_search: webVideos.length,
-      }
+      cancelled,
+      partial: cancelled,
+      count: selected.length,
+      saveReport,
+      results: selected,
+      breakdown,
     });
   } catch (error: any) {
     console.error(`[Video Worker] Error: ${error.message}`);
     res.status(500).json({ error: error.message });
+  } finally {
+    finishRun(projectRun);
+  }
+});
+
+// Stop an in-flight search for a project (fanned out by the orchestrator)
+app.post('/cancel', (req, res) => {
+  const { projectId } = req.body;
+  if (!projectId) return res.status(400).json({ error: 'projectId required' });
+
+  const wasRunning = cancelRun(projectId);
+  console.log(`[Video Worker] Cancel ${projectId}: ${wasRunning ? 'stopping search' : 'nothing running'}`);
+  res.json({ success: true, cancelled: wasRunning });
+});
+
+// ============================================
+// SOURCE CATALOG
+// ============================================
+
+// Called by the orchestrator after /v1/sources changes
+app.post('/sources/reload', async (req, res) => {
+  try {
+    const overrides = await refreshSourceOverrides();
+    console.log(`[Video Worker] Reloaded sources (${overrides} overrides)`);
+    res.json({ success: true, overrides, sources: getSources('video').length });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Dry run of a single source (disabled ones too): raw hits, before any blacklist,
+// result filter or dedup, and the breakers involved. Nothing is saved.
+app.post('/sources/test', async (req, res) => {
+  const { sourceId, topic, queries } = req.body || {};
+  if (!sourceId || !topic) {
+    return res.status(400).json({ success: false, error: 'sourceId and topic required' });
+  }
+
+  await refreshSourceOverrides().catch(() => {});
+  const source = getSource(sourceId);
+  if (!source || source.worker !== 'video') {
+    return res.status(404).json({ success: false, error: `Unknown video source: ${sourceId}` });
+  }
+
+  const searchQueries: string[] = Array.isArray(queries) && queries.length > 0 ? queries : [topic];
+  const startedAt = Date.now();
+
+  try {
+    const { results, run } = await searchSource(source, topic, searchQueries, new AbortController().signal, { dryRun: true });
+    res.json({
+      success: true,
+      source,
+      queries: buildSourceQueries(source, searchQueries, topic),
+      count: results.length,
+      duration_ms: Date.now() - startedAt,
+      run,
+      breakers: getBreakerStatus([source.id, ...Object.values(UPSTREAM_BREAKERS)]),
+      results,
+    });
+  } catch (error: any) {
+    console.error(`[Video Worker] Source test ${sourceId} failed: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
   }
 });
 
@@ -500,6 +443,7 @@ app.get('/health', (req, res) => {
     port: PORT,
     search_engine: 'SearXNG (self-hosted)',
     sources: '50+',
+    breakers: getBreakerStatus(),
   });
 });
 
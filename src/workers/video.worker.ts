@@ -1,11 +1,11 @@
 // MediaMind Video Worker - Simplified (No FFmpeg required)
 import { createClient } from '@supabase/supabase-js';
-import { v4 as uuidv4 } from 'uuid';
 import { searchWebForVideos } from '../services/web-search.js';
+import { saveMediaItems } from '../services/media-repository.js';
 
 const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_KEY!);
 
-export async function processVideoResearch(projectId: string, topic: string, maxResults: number) {
+export async function processVideoResearch(projectId: string, topic: string, maxResults: number, signal?: AbortSignal) {
   console.log(`\n[Video] Starting: "${topic}"`);
 
   try {
@@ -13,44 +13,30 @@ export async function processVideoResearch(projectId: string, topic: string, max
     const searchResults = await searchWebForVideos(topic, maxResults * 2);
     console.log(`[Video] Found ${searchResults.length} videos`);
 
-    let saved = 0;
-    for (const video of searchResults) {
-      if (saved >= maxResults) break;
-
-      try {
-        const videoId = uuidv4();
-
-        // Save video reference (source URL) - no download needed
-        await supabase.from('media').insert({
-          id: videoId,
-          project_id: projectId,
-          type: 'video',
-          title: video.title,
-          source: video.source,
-          source_url: video.url,
-          hosted_url: video.url, // Use source URL directly
-          metadata: {
-            thumbnail: video.thumbnail,
-            duration: video.duration,
-            needs_download: true, // Flag for later processing
-          },
-        });
-
-        saved++;
-        console.log(`[Video] Saved ${saved}/${maxResults}: ${video.title?.slice(0, 40)}...`);
-
-      } catch (e: any) {
-        console.error(`[Video] Error: ${e.message}`);
-      }
-    }
+    // Save video references (source URL) - no download needed
+    const toSave = signal?.aborted ? [] : searchResults.slice(0, maxResults);
+    const { saved, report } = await saveMediaItems(toSave.map(video => ({
+      project_id: projectId,
+      type: 'video' as const,
+      title: video.title,
+      source: video.source,
+      source_url: video.url,
+      hosted_url: video.url, // Use source URL directly
+      metadata: {
+        thumbnail: video.thumbnail,
+        duration: video.duration,
+        needs_download: true, // Flag for later processing
+      },
+    })));
+    console.log(`[Video] Saved ${saved.length}/${maxResults} (${report.duplicates} duplicates, ${report.failed} failed)`);
 
     // Update project counts
     await supabase.from('projects').update({
-      video_count: saved,
+      video_count: saved.length,
     }).eq('id', projectId);
 
-    console.log(`[Video] Done: ${saved} videos`);
-    return { success: true, count: saved };
+    console.log(`[Video] ${signal?.aborted ? 'Cancelled' : 'Done'}: ${saved.length} videos`);
+    return { success: true, count: saved.length, saveReport: report, cancelled: !!signal?.aborted };
 
   } catch (e: any) {
     console.error(`[Video] Fatal: ${e.message}`);
@@ -3,14 +3,24 @@
 
 import 'dotenv/config';
 import express from 'express';
-import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import { chromium, Browser } from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { searchWeb, searchNews as searxngNews, searchSite } from '../utils/searxng.js';
+import { searchWeb } from '../utils/searxng.js';
+import { withSearchScope } from '../utils/search-scope.js';
 import { searchArticles as tavilySearch, searchNews as tavilyNews } from '../utils/tavily.js';
+import { beginRun, finishRun, cancelRun } from '../utils/cancellation.js';
+import { reportProgress } from '../utils/progress.js';
+import { withSourceScope, isCircuitOpen, getBreakerStatus, UPSTREAM_BREAKERS } from '../utils/circuit-breaker.js';
+import { saveMediaItem, emptySaveReport, mergeSaveReports } from '../services/media-repository.js';
+import { uploadToStorage } from '../services/storage.js';
+import { resolveWorkerOptions, applyResultFilters } from '../utils/research-options.js';
+import { getSearchPlan, getSources, getSource, refreshSourceOverrides, buildSourceQueries, sitePattern } from '../services/source-registry.js';
+import type { SourceDefinition, SourceType, SearchPlanCategory } from '../services/source-registry.js';
+import { startSourceRun, recordSearchError, saveSourceRuns } from '../services/source-stats.js';
+import type { SourceRun } from '../services/source-stats.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -20,16 +30,6 @@ const PORT = process.env.WEBCONTENT_WORKER_PORT || 3003;
 
 app.use(express.json());
 
-// Initialize Supabase with error handling
-let supabase: any = null;
-try {
-  if (process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_KEY) {
-    supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
-  }
-} catch (e) {
-  console.warn('[WebContent] Supabase initialization failed');
-}
-
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 let browser: Browser | null = null;
@@ -150,16 +150,23 @@ async function dismissCookiePopups(page: any): Promise<void> {
 // SCREENSHOT FUNCTION
 // ============================================
 
-async function takeScreenshot(url: string, outputPath: string): Promise<boolean> {
+async function takeScreenshot(url: string, outputPath: string, signal?: AbortSignal): Promise<boolean> {
   // Skip known paywall sites
   if (hasPaywall(url)) {
     console.log(`[WebContent] Skipping paywall site: ${url}`);
     return false;
   }
 
+  let page: any = null;
+  // Closing the page makes any pending goto/wait reject, ending the screenshot early
+  const closeOnAbort = () => { page?.close().catch(() => {}); };
+
   try {
+    if (signal?.aborted) return false;
+    signal?.addEventListener('abort', closeOnAbort, { once: true });
+
     const b = await initBrowser();
-    const page = await b.newPage();
+    page = await b.newPage();
 
     // Set a realistic user agent
     await page.setExtraHTTPHeaders({
@@ -189,234 +196,167 @@ async function takeScreenshot(url: string, outputPath: string): Promise<boolean>
     await page.close();
     return true;
   } catch (e: any) {
-    console.log(`[WebContent] Screenshot failed for ${url}: ${e.message}`);
+    if (!signal?.aborted) console.log(`[WebContent] Screenshot failed for ${url}: ${e.message}`);
     return false;
+  } finally {
+    signal?.removeEventListener('abort', closeOnAbort);
   }
 }
 
 async function uploadScreenshot(filePath: string, storagePath: string): Promise<string | null> {
-  try {
-    const fileBuffer = fs.readFileSync(filePath);
-    const { error } = await supabase.storage.from('mediamind').upload(storagePath, fileBuffer, { contentType: 'image/jpeg', upsert: true });
-    if (error) return null;
-    const { data: { publicUrl } } = supabase.storage.from('mediamind').getPublicUrl(storagePath);
-    fs.unlinkSync(filePath);
-    return publicUrl;
-  } catch (e) {
-    return null;
-  }
+  const publicUrl = await uploadToStorage(filePath, storagePath);
+  if (publicUrl) fs.rmSync(filePath, { force: true });
+  return publicUrl;
 }
 
 // ============================================
-// SEARCH SOURCES (Using SearXNG)
+// SEARCH SOURCES (plan from config/sources.json)
 // ============================================
 
-// 1. News Search (Using Tavily - AI handles relevance)
-async function searchNewsArticles(topic: string) {
-  console.log('[WebContent] Searching news via Tavily...');
+// Tavily news - AI handles relevance, so the topic is passed straight through
+async function searchTavilyNews(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
-  // Tavily handles the topic directly - no need to expand queries
-  try {
-    const tavilyResults = await tavilyNews(topic, 20);
-
-    for (const item of tavilyResults) {
-      results.push({
-        url: item.url,
-        title: item.title,
-        source: 'tavily',
-        snippet: item.content,
-        date: item.publishedDate,
-        type: 'news',
-        score: item.score,
-      });
+  for (const query of queries) {
+    if (signal.aborted) break;
+    try {
+      run.queries++;
+      const tavilyResults = await tavilyNews(query, source.maxResults);
+      run.hits += tavilyResults.length;
+
+      for (const item of tavilyResults) {
+        results.push({
+          url: item.url,
+          title: item.title,
+          source: 'tavily',
+          snippet: item.content,
+          date: item.publishedDate,
+          score: item.score,
+        });
+      }
+    } catch (e: any) {
+      recordSearchError(run, e);
+      console.error(`[WebContent] ${source.name} error: ${e.message}`);
     }
-  } catch (e: any) {
-    console.error(`[WebContent] Tavily news error: ${e.message}`);
   }
 
   // Sort by relevance score
-  results.sort((a, b) => (b.score || 0) - (a.score || 0));
-
-  console.log(`[WebContent] News found: ${results.length}`);
-  return results;
+  return results.sort((a, b) => (b.score || 0) - (a.score || 0));
 }
 
-// 2. Historical Newspapers
-async function searchHistoricalNewspapers(topic: string, queries: string[]) {
-  console.log('[WebContent] Searching historical newspapers...');
+// Tavily article search (blogs, long-form) - AI-optimized relevance
+async function searchTavilyArticles(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
-  const sources = [
-    { site: 'chroniclingamerica.loc.gov', name: 'Library of Congress' },
-    { site: 'newspapers.com', name: 'Newspapers.com' },
-    { site: 'news.google.com/newspapers', name: 'Google News Archive' },
-    { site: 'trove.nla.gov.au/newspaper', name: 'Trove Australia' },
-    { site: 'britishnewspaperarchive.co.uk', name: 'British Newspaper Archive' },
-  ];
-
-  for (const source of sources) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        const searchResults = await searchSite(source.site, query, 20);
-
-        for (const item of searchResults) {
-          results.push({
-            url: item.url,
-            title: item.title,
-            source: source.name,
-            snippet: item.content,
-            type: 'newspaper',
-          });
-        }
-      } catch (e: any) {
-        console.error(`[WebContent] Newspaper (${source.name}) error: ${e.message}`);
+  for (const query of queries) {
+    if (signal.aborted) break;
+    try {
+      run.queries++;
+      const tavilyResults = await tavilySearch(query, source.maxResults);
+      run.hits += tavilyResults.length;
+
+      for (const item of tavilyResults) {
+        results.push({
+          url: item.url,
+          title: item.title,
+          source: new URL(item.url).hostname.replace('www.', ''),
+          snippet: item.content,
+          score: item.score,
+        });
       }
+    } catch (e: any) {
+      recordSearchError(run, e);
+      console.error(`[WebContent] ${source.name} error: ${e.message}`);
     }
   }
 
-  console.log(`[WebContent] Historical newspapers found: ${results.length}`);
   return results;
 }
 
-// 3. Authoritative Sources
-async function searchAuthoritativeSources(topic: string, queries: string[]) {
-  console.log('[WebContent] Searching authoritative sources...');
+// Site-restricted SearXNG search (newspapers, reference and news sites, niche sites)
+async function searchSitePages(source: SourceDefinition, queries: string[], signal: AbortSignal, run: SourceRun) {
   const results: any[] = [];
 
-  const authSites = [
-    // Reference
-    'wikipedia.org', 'britannica.com', 'history.com',
-    // Major News
-    'bbc.com', 'cnn.com', 'nytimes.com', 'theguardian.com', 'reuters.com',
-    'apnews.com', 'npr.org', 'washingtonpost.com', 'theatlantic.com',
-    // International News
-    'aljazeera.com', 'dw.com', 'france24.com', 'abc.net.au',
-    // US News
-    'usatoday.com', 'nbcnews.com', 'cbsnews.com', 'abcnews.go.com', 'foxnews.com',
-    'politico.com', 'axios.com', 'thehill.com', 'vox.com',
-    // UK News
-    'independent.co.uk', 'mirror.co.uk', 'dailymail.co.uk', 'express.co.uk',
-    // Business/Finance News
-    'bloomberg.com', 'cnbc.com', 'forbes.com', 'businessinsider.com',
-    // Tech News
-    'wired.com', 'theverge.com', 'arstechnica.com',
-    // Magazine/Long-form
-    'newyorker.com', 'time.com', 'newsweek.com', 'rollingstone.com',
-  ];
-
-  for (const site of authSites) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        const searchResults = await searchSite(site, query, 10);
-
-        for (const item of searchResults) {
-          if (item.url.includes('/search?')) continue;
-
-          results.push({
-            url: item.url,
-            title: item.title,
-            source: site.split('.')[0],
-            snippet: item.content,
-            type: 'authoritative',
-          });
-        }
-      } catch (e: any) {
-        console.error(`[WebContent] Auth source (${site}) error: ${e.message}`);
+  for (const query of queries) {
+    if (signal.aborted) break;
+    try {
+      run.queries++;
+      const searchResults = await searchWeb(`${sitePattern(source)} ${query}`, source.maxResults, signal);
+      run.hits += searchResults.length;
+
+      for (const item of searchResults) {
+        // The site's own search pages are not articles
+        if (item.url.includes('/search?')) continue;
+
+        results.push({
+          url: item.url,
+          title: item.title,
+          source: source.name,
+          snippet: item.content,
+        });
       }
+    } catch (e: any) {
+      recordSearchError(run, e);
+      console.error(`[WebContent] ${source.name} error: ${e.message}`);
     }
   }
 
-  console.log(`[WebContent] Authoritative sources found: ${results.length}`);
   return results;
 }
 
-// 4. Blogs & Articles (Using Tavily - AI handles relevance)
-async function searchBlogsAndArticles(topic: string) {
-  console.log('[WebContent] Searching blogs & articles via Tavily...');
-  const results: any[] = [];
-
-  // Tavily handles the topic directly - AI-optimized relevance
-  try {
-    const tavilyResults = await tavilySearch(topic, 20);
-
-    for (const item of tavilyResults) {
-      const domain = new URL(item.url).hostname.replace('www.', '');
-      results.push({
-        url: item.url,
-        title: item.title,
-        source: domain,
-        snippet: item.content,
-        type: 'article',
-        score: item.score,
-      });
-    }
-  } catch (e: any) {
-    console.error(`[WebContent] Tavily articles error: ${e.message}`);
+const SOURCE_SEARCHERS: Partial<Record<SourceType, typeof searchSitePages>> = {
+  tavily_news: searchTavilyNews,
+  tavily_search: searchTavilyArticles,
+  search: searchSitePages,
+};
+
+// Runs one source and tags its results with the page type it yields, counting
+// queries, hits, kept results and failures for the source statistics
+// A dry run (/sources/test) searches even with the source's breaker open, leaves
+// the breaker alone and returns every hit
+async function searchSource(
+  source: SourceDefinition,
+  topic: string,
+  queries: string[],
+  signal: AbortSignal,
+  { dryRun = false }: { dryRun?: boolean } = {}
+) {
+  const run = startSourceRun(source);
+  const search = SOURCE_SEARCHERS[source.type];
+  if (!search) {
+    console.log(`[WebContent] Skipping ${source.name}: no web content search for type "${source.type}"`);
+    return { results: [], run };
+  }
+  if (!dryRun && isCircuitOpen(source.id)) {
+    console.log(`[WebContent] Skipping ${source.name}: circuit breaker open`);
+    return { results: [], run };
   }
 
-  console.log(`[WebContent] Blogs/articles found: ${results.length}`);
-  return results;
+  const startedAt = Date.now();
+  const found = await withSourceScope(
+    { onError: error => recordSearchError(run, error), breaker: dryRun ? undefined : source.id },
+    () => search(source, buildSourceQueries(source, queries, topic), signal, run)
+  );
+  const results = found.map(item => ({ ...item, type: source.pageType || 'article', priority: source.priority, sourceId: source.id }));
+
+  run.kept = results.length;
+  run.latency_ms = Date.now() - startedAt;
+  return { results, run };
 }
 
-// 5. Topic-specific sites
-async function searchTopicSpecificSites(topic: string, queries: string[], topicType: string) {
-  console.log(`[WebContent] Searching topic-specific sites for ${topicType}...`);
+// Sources within a category run one after another; categories run in parallel
+async function searchCategory(category: SearchPlanCategory, topic: string, queries: string[], signal: AbortSignal, runs: SourceRun[]) {
+  console.log(`[WebContent] Searching ${category.category} (${category.sources.length} sources)...`);
   const results: any[] = [];
 
-  const siteMappings: Record<string, { site: string; name: string }[]> = {
-    'crime': [
-      { site: 'fbi.gov', name: 'FBI' },
-      { site: 'justice.gov', name: 'DOJ' },
-      { site: 'courtlistener.com', name: 'CourtListener' },
-    ],
-    'celebrity': [
-      { site: 'imdb.com', name: 'IMDb' },
-      { site: 'people.com', name: 'People' },
-      { site: 'biography.com', name: 'Biography' },
-    ],
-    'history': [
-      { site: 'history.com', name: 'History' },
-      { site: 'historynet.com', name: 'HistoryNet' },
-      { site: 'worldhistory.org', name: 'World History' },
-    ],
-    'sports': [
-      { site: 'espn.com', name: 'ESPN' },
-      { site: 'sports-reference.com', name: 'Sports Reference' },
-    ],
-    'military': [
-      { site: 'defense.gov', name: 'DoD' },
-      { site: 'militarytimes.com', name: 'Military Times' },
-    ],
-    'science': [
-      { site: 'nasa.gov', name: 'NASA' },
-      { site: 'nature.com', name: 'Nature' },
-    ],
-  };
-
-  const sites = siteMappings[topicType] || [];
-
-  for (const siteObj of sites) {
-    for (const query of queries.slice(0, 2)) {
-      try {
-        const searchResults = await searchSite(siteObj.site, query, 15);
-
-        for (const item of searchResults) {
-          results.push({
-            url: item.url,
-            title: item.title,
-            source: siteObj.name,
-            snippet: item.content,
-            type: 'topic_specific',
-          });
-        }
-      } catch (e: any) {
-        console.error(`[WebContent] Topic-specific (${siteObj.site}) error: ${e.message}`);
-      }
-    }
+  for (const source of category.sources) {
+    if (signal.aborted) break;
+    const { results: found, run } = await searchSource(source, topic, queries, signal);
+    results.push(...found);
+    runs.push(run);
   }
 
-  console.log(`[WebContent] Topic-specific found: ${results.length}`);
+  console.log(`[WebContent] ${category.category} found: ${results.length}`);
   return results;
 }
 
@@ -426,6 +366,7 @@ async function searchTopicSpecificSites(topic: string, queries: string[], topicT
 
 app.post('/search', async (req, res) => {
   const { projectId, topic, topicType, takeScreenshots = true } = req.body;
+  const options = resolveWorkerOptions(req.body.options, 100);
 
   if (!topic) {
     return res.status(400).json({ error: 'Topic required' });
@@ -434,49 +375,76 @@ app.post('/search', async (req, res) => {
   console.log(`\n[WebContent Worker] Starting search for "${topic}"`);
   console.log(`[WebContent Worker] Using Tavily (AI-optimized relevance)`);
 
+  // Aborted by POST /cancel for this project
+  const projectRun = beginRun(projectId);
+  const signal = projectRun.signal;
+
+  // Report each source category as soon as it finishes
+  const track = <T>(category: string, search: Promise<T[]>) => search.then(results => {
+    reportProgress(projectId, 'webcontent', 'source_done', { category, count: results.length });
+    return results;
+  });
+
   try {
-    // Search using Tavily for news and articles (AI handles relevance)
-    // Keep SearXNG for newspapers, authoritative sources, and topic-specific sites
-    const [news, blogs, newspapers, authoritative, topicSpecific] = await Promise.all([
-      searchNewsArticles(topic),           // Tavily - AI optimized
-      searchBlogsAndArticles(topic),       // Tavily - AI optimized
-      searchHistoricalNewspapers(topic, [topic]),
-      searchAuthoritativeSources(topic, [topic]),
-      searchTopicSpecificSites(topic, [topic], topicType || 'general'),
-    ]);
+    reportProgress(projectId, 'webcontent', 'search_started', { topicType: topicType || 'general' });
+
+    // Search every enabled source category from config/sources.json in parallel
+    // (Tavily for news and articles, SearXNG for newspapers, reference and niche sites)
+    const plan = getSearchPlan('webcontent', topicType || 'general');
+    const runs: SourceRun[] = [];
+    const found = await withSearchScope(options, () => Promise.all(
+      plan.map(category => track(category.category, searchCategory(category, topic, [topic], signal, runs)))
+    ));
+    saveSourceRuns(runs.map(run => ({ ...run, project_id: projectId || null })));
 
     // Combine and deduplicate
-    const allResults = [...news, ...newspapers, ...authoritative, ...blogs, ...topicSpecific];
+    const allResults = found.flat();
     const unique = allResults.filter((item, index, self) =>
       index === self.findIndex(t => t.url === item.url)
     );
+    const breakdown = Object.fromEntries(plan.map((category, i) => [category.category, found[i].length]));
 
     console.log(`[WebContent Worker] Total unique pages: ${unique.length}`);
-    console.log(`[WebContent Worker] Breakdown: News=${news.length}, Newspapers=${newspapers.length}, Authoritative=${authoritative.length}, Blogs=${blogs.length}, TopicSpecific=${topicSpecific.length}`);
+    console.log(`[WebContent Worker] Breakdown: ${Object.entries(breakdown).map(([category, count]) => `${category}=${count}`).join(', ')}`);
+
+    // Apply date filters and the requested limit
+    const selected = applyResultFilters(unique, options);
+    console.log(`[WebContent Worker] Keeping ${selected.length} after filters (max ${options.maxResults})`);
 
     // Take screenshots and save to Supabase
+    const saveReport = emptySaveReport();
     if (projectId && takeScreenshots) {
       const tempDir = `/tmp/mediamind/${projectId}/screenshots`;
       fs.mkdirSync(tempDir, { recursive: true });
 
       let saved = 0;
       const maxScreenshots = 100;
+      const total = Math.min(selected.length, maxScreenshots);
+      reportProgress(projectId, 'webcontent', 'screenshots_started', { total });
 
-      for (const page of unique.slice(0, maxScreenshots)) {
+      for (const page of selected.slice(0, maxScreenshots)) {
+        if (signal.aborted) {
+          console.log(`[WebContent Worker] Cancelled - stopping screenshots after ${saved}`);
+          break;
+        }
         try {
           const contentId = uuidv4();
           const screenshotPath = path.join(tempDir, `${contentId}.jpg`);
 
-          const success = await takeScreenshot(page.url, screenshotPath);
+          const success = await takeScreenshot(page.url, screenshotPath, signal);
 
           let hostedUrl = page.url;
+          let storagePath: string | null = null;
           if (success) {
-            const storagePath = `webcontent/${projectId}/${contentId}.jpg`;
-            const uploadedUrl = await uploadScreenshot(screenshotPath, storagePath);
-            if (uploadedUrl) hostedUrl = uploadedUrl;
+            const key = `webcontent/${projectId}/${contentId}.jpg`;
+            const uploadedUrl = await uploadScreenshot(screenshotPath, key);
+            if (uploadedUrl) {
+              hostedUrl = uploadedUrl;
+              storagePath = key;
+            }
           }
 
-          await supabase.from('media').insert({
+          const { item, report } = await saveMediaItem({
             id: contentId,
             project_id: projectId,
             type: page.type === 'newspaper' ? 'newspaper_scan' : 'article_screenshot',
@@ -484,33 +452,112 @@ app.post('/search', async (req, res) => {
             source: page.source,
             source_url: page.url,
             hosted_url: hostedUrl,
-            metadata: { snippet: page.snippet, date: page.date, type: page.type },
+            storage_path: storagePath,
+            metadata: {
+              snippet: page.snippet,
+              date: page.date,
+              page_type: page.type,
+              needs_download: !storagePath,
+              partial: signal.aborted,
+            },
           });
+          mergeSaveReports(saveReport, report);
+          if (!item) continue;
 
           saved++;
           console.log(`[WebContent] Saved ${saved}/${maxScreenshots}: ${page.source}`);
+          reportProgress(projectId, 'webcontent', 'screenshot_saved', {
+            saved,
+            total,
+            mediaId: item.id,
+            source: page.source,
+            url: page.url,
+            hostedUrl,
+            screenshot: success,
+          });
         } catch (e: any) { /* skip */ }
       }
 
-      console.log(`[WebContent Worker] Saved ${saved} screenshots to database`);
+      console.log(`[WebContent Worker] Saved ${saved} screenshots to database (${saveReport.duplicates} duplicates, ${saveReport.failed} failed)`);
       try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch {}
     }
 
+    reportProgress(projectId, 'webcontent', 'done', { count: selected.length, cancelled: signal.aborted });
+
     res.json({
       success: true,
-      count: unique.length,
-      results: unique,
-      breakdown: {
-        news: news.length,
-        newspapers: newspapers.length,
-        authoritative: authoritative.length,
-        blogs: blogs.length,
-        topic_specific: topicSpecific.length,
-      }
+      cancelled: signal.aborted,
+      partial: signal.aborted,
+      count: selected.length,
+      saveReport: projectId && takeScreenshots ? saveReport : null,
+      results: selected,
+      breakdown,
     });
   } catch (error: any) {
     console.error(`[WebContent Worker] Error: ${error.message}`);
     res.status(500).json({ error: error.message });
+  } finally {
+    finishRun(projectRun);
+  }
+});
+
+// Stop an in-flight search / screenshot batch for a project (fanned out by the orchestrator)
+app.post('/cancel', (req, res) => {
+  const { projectId } = req.body;
+  if (!projectId) return res.status(400).json({ error: 'projectId required' });
+
+  const wasRunning = cancelRun(projectId);
+  console.log(`[WebContent Worker] Cancel ${projectId}: ${wasRunning ? 'stopping' : 'nothing running'}`);
+  res.json({ success: true, cancelled: wasRunning });
+});
+
+// ============================================
+// SOURCE CATALOG
+// ============================================
+
+// Called by the orchestrator after /v1/sources changes
+app.post('/sources/reload', async (req, res) => {
+  try {
+    const overrides = await refreshSourceOverrides();
+    console.log(`[WebContent Worker] Reloaded sources (${overrides} overrides)`);
+    res.json({ success: true, overrides, sources: getSources('webcontent').length });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Dry run of a single source (disabled ones too): raw hits, before any blacklist,
+// result filter or dedup, and the breakers involved. Nothing is saved.
+app.post('/sources/test', async (req, res) => {
+  const { sourceId, topic, queries } = req.body || {};
+  if (!sourceId || !topic) {
+    return res.status(400).json({ success: false, error: 'sourceId and topic required' });
+  }
+
+  await refreshSourceOverrides().catch(() => {});
+  const source = getSource(sourceId);
+  if (!source || source.worker !== 'webcontent') {
+    return res.status(404).json({ success: false, error: `Unknown webcontent source: ${sourceId}` });
+  }
+
+  const searchQueries: string[] = Array.isArray(queries) && queries.length > 0 ? queries : [topic];
+  const startedAt = Date.now();
+
+  try {
+    const { results, run } = await searchSource(source, topic, searchQueries, new AbortController().signal, { dryRun: true });
+    res.json({
+      success: true,
+      source,
+      queries: buildSourceQueries(source, searchQueries, topic),
+      count: results.length,
+      duration_ms: Date.now() - startedAt,
+      run,
+      breakers: getBreakerStatus([source.id, ...Object.values(UPSTREAM_BREAKERS)]),
+      results,
+    });
+  } catch (error: any) {
+    console.error(`[WebContent Worker] Source test ${sourceId} failed: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
   }
 });
 
@@ -522,6 +569,7 @@ app.get('/health', (req, res) => {
     browser_ready: !!browser,
     browser_error: browserError,
     search_engine: 'SearXNG (self-hosted)',
+    breakers: getBreakerStatus(),
   });
 });
 